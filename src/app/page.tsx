@@ -3,23 +3,34 @@
 import { useState, useEffect } from 'react';
 import dynamic from 'next/dynamic';
 import { useProjects } from '@/hooks/useProjects';
-import { useTheme } from '@/hooks/useTheme';
+import { useSnapshots } from '@/hooks/useSnapshots';
+import { useCodeRunner } from '@/hooks/useCodeRunner';
+import { getStoredTheme, useTheme } from '@/hooks/useTheme';
 import MarkdownCell from '@/components/MarkdownCell';
 import DrawingCell from '@/components/DrawingCell';
 import ImageCell from '@/components/ImageCell';
+import CodeCell from '@/components/CodeCell';
 import Sidebar from '@/components/Sidebar';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { StorageStatus } from '@/components/StorageStatus';
+import { UndoMenu } from '@/components/UndoMenu';
+import { ExportMenu } from '@/components/ExportMenu';
+import ImportErrorDialog from '@/components/ImportErrorDialog';
+import HistoryPanel from '@/components/HistoryPanel';
+import ConflictDialog from '@/components/ConflictDialog';
+import LockScreen from '@/components/LockScreen';
+import EncryptionDialog from '@/components/EncryptionDialog';
+import NotebookPasswordDialog from '@/components/NotebookPasswordDialog';
+import NotebookUnlockPrompt from '@/components/NotebookUnlockPrompt';
+import BackupDialog from '@/components/BackupDialog';
+import PrintDialog from '@/components/PrintDialog';
+import PrintView, { PrintOptions } from '@/components/PrintView';
 import { Button } from '@/components/ui/button';
-import { CellType, MarkdownCell as MarkdownCellType, DrawingCell as DrawingCellType, ImageCell as ImageCellType, PDFCell as PDFCellType } from '@/types/notebook';
+import { mergeQuickLinks } from '@/lib/backup';
+import { getMarkdownHeadings } from '@/lib/cells';
+import { CellType, QuickLink, MarkdownCell as MarkdownCellType, DrawingCell as DrawingCellType, ImageCell as ImageCellType, PDFCell as PDFCellType, CodeCell as CodeCellType } from '@/types/notebook';
 
 // Quick links for footer
-interface QuickLink {
-  id: string;
-  name: string;
-  url: string;
-  icon?: string;
-}
-
 const defaultLinks: QuickLink[] = [
   { id: '1', name: 'Claude', url: 'https://claude.ai', icon: '🤖' },
   { id: '2', name: 'Gemini', url: 'https://gemini.google.com', icon: '✨' },
@@ -46,6 +57,7 @@ export default function Home() {
     store,
     isLoading,
     activeNotebook,
+    persistence,
     getProjectChildren,
     addProject,
     renameProject,
@@ -55,17 +67,59 @@ export default function Home() {
     deleteNotebook,
     moveNotebook,
     updateNotebookTitle,
+    isActiveNotebookLocked,
+    unlockNotebook,
+    lockNotebook,
+    changeNotebookPassword,
     addCell,
+    addImageCell,
     updateCell,
+    setCodeOutputs,
     deleteCell,
     moveCell,
+    restoreSnapshot,
+    restoreSnapshotCell,
+    restoreTrashItem,
+    deleteTrashItem,
+    emptyTrash,
+    setTrashRetentionDays,
     exportNotebook,
+    exportNotebookAsIpynb,
+    exportNotebookAsMarkdown,
+    exportNotebookAsHtml,
     importNotebook,
+    exportProject,
+    importProject,
+    importFolder,
+    importError,
+    dismissImportError,
+    exportBackup,
+    restoreBackup,
     clearNotebook,
+    undoStack,
+    redoStack,
+    undo,
+    redo,
+    retrySave,
+    isLocked,
+    isEncrypted,
+    unlock,
+    lock,
+    changePassphrase,
+    conflicts,
+    resolveConflict,
   } = useProjects();
 
-  const { theme, toggleTheme, mounted } = useTheme();
+  const { theme, toggleTheme, setTheme, mounted } = useTheme();
+  const { snapshots, takeSnapshot, removeSnapshot, loadSnapshot } = useSnapshots(activeNotebook);
+  const codeRunner = useCodeRunner(activeNotebook, setCodeOutputs);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showEncryption, setShowEncryption] = useState(false);
+  const [showNotebookPassword, setShowNotebookPassword] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showPrint, setShowPrint] = useState(false);
+  const [printOptions, setPrintOptions] = useState<PrintOptions | null>(null);
   const [quickLinks, setQuickLinks] = useState<QuickLink[]>(defaultLinks);
   const [showAddLink, setShowAddLink] = useState(false);
   const [newLinkName, setNewLinkName] = useState('');
@@ -80,6 +134,25 @@ export default function Home() {
     }
   }, []);
 
+  // Ctrl+Z / Ctrl+Shift+Z deshacen a nivel de notebook solo fuera de una celda en edición
+  // (los dibujos y los campos de texto tienen su propio historial)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || e.defaultPrevented) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (document.querySelector('[data-editing-cell]')) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   // Save links to localStorage
   const saveLinks = (links: QuickLink[]) => {
     setQuickLinks(links);
@@ -117,6 +190,10 @@ export default function Home() {
     );
   }
 
+  if (isLocked) {
+    return <LockScreen onUnlock={unlock} />;
+  }
+
   if (!store) {
     return null;
   }
@@ -148,6 +225,13 @@ export default function Home() {
         +Img
       </button>
       <span className="text-border">|</span>
+      <button
+        onClick={() => handleAddCell('code', afterId)}
+        className="px-2 py-0.5 text-xs text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors"
+      >
+        +Codigo
+      </button>
+      <span className="text-border">|</span>
       <button
         onClick={() => handleAddCell('pdf', afterId)}
         className="px-2 py-0.5 text-xs text-red-400 dark:text-red-500 hover:text-red-600 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/30 rounded transition-colors"
@@ -173,6 +257,16 @@ export default function Home() {
         onDeleteProject={deleteProject}
         onMoveNotebook={moveNotebook}
         onImportNotebook={importNotebook}
+        onExportProject={exportProject}
+        onImportProject={importProject}
+        onImportFolder={importFolder}
+        onOpenBackup={() => setShowBackup(true)}
+        trash={store.trash}
+        trashRetentionDays={store.trashRetentionDays}
+        onRestoreTrashItem={restoreTrashItem}
+        onDeleteTrashItem={deleteTrashItem}
+        onEmptyTrash={emptyTrash}
+        onSetTrashRetentionDays={setTrashRetentionDays}
         isCollapsed={sidebarCollapsed}
         onToggleCollapse={() => setSidebarCollapsed(!sidebarCollapsed)}
       />
@@ -188,13 +282,61 @@ export default function Home() {
               onChange={(e) => updateNotebookTitle(activeNotebook.id, e.target.value)}
               className="flex-1 text-sm font-medium text-foreground bg-transparent border-none focus:outline-none focus:ring-1 focus:ring-ring rounded px-1"
             />
+            <UndoMenu undoStack={undoStack} redoStack={redoStack} onUndo={undo} onRedo={redo} />
+            <StorageStatus status={persistence} notebook={activeNotebook} onRetry={retrySave} />
             <ThemeToggle />
-            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={exportNotebook} title="Exportar">
-              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+            {!isActiveNotebookLocked && (
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setShowHistory(true)} title="Versiones">
+                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+              </Button>
+            )}
+            {activeNotebook.lock && !isActiveNotebookLocked && (
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => lockNotebook(activeNotebook.id)} title="Bloquear notebook">
+                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setShowNotebookPassword(true)} title="Contrasena del notebook">
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" /></svg>
             </Button>
-            <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive hover:text-destructive" onClick={clearNotebook} title="Borrar contenido">
-              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setShowEncryption(true)} title="Cifrado">
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={isEncrypted ? 'M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z' : 'M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z'} /></svg>
             </Button>
+            {!isActiveNotebookLocked && activeNotebook.cells.some(cell => cell.type === 'code') && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={codeRunner.isRunning ? codeRunner.stop : codeRunner.runAll}
+                  title={codeRunner.isRunning ? 'Detener la ejecucion' : 'Ejecutar todas las celdas de codigo'}
+                >
+                  {codeRunner.isRunning ? (
+                    <svg className="h-4 w-4" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="6" width="12" height="12" rx="1" /></svg>
+                  ) : (
+                    <svg className="h-4 w-4" viewBox="0 0 24 24" fill="currentColor"><path d="M4 5v14l8-7zm8 0v14l8-7z" /></svg>
+                  )}
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={codeRunner.resetScope} title="Reiniciar las variables del codigo">
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                </Button>
+              </>
+            )}
+            {!isActiveNotebookLocked && (
+              <>
+                <ExportMenu
+                  onExportJson={exportNotebook}
+                  onExportIpynb={exportNotebookAsIpynb}
+                  onExportMarkdown={exportNotebookAsMarkdown}
+                  onExportHtml={exportNotebookAsHtml}
+                />
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setShowPrint(true)} title="Imprimir">
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" /></svg>
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive hover:text-destructive" onClick={clearNotebook} title="Borrar contenido">
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                </Button>
+              </>
+            )}
           </div>
         )}
 
@@ -229,6 +371,12 @@ export default function Home() {
                 + Nuevo Notebook
               </button>
             </div>
+          ) : isActiveNotebookLocked ? (
+            <NotebookUnlockPrompt
+              key={activeNotebook.id}
+              notebookTitle={activeNotebook.title}
+              onUnlock={(passphrase) => unlockNotebook(activeNotebook.id, passphrase)}
+            />
           ) : activeNotebook.cells.length === 0 ? (
             <div className="text-center py-16">
               <svg
@@ -249,7 +397,7 @@ export default function Home() {
                 Tu notebook esta vacio
               </h2>
               <p className="text-muted-foreground/70 mb-6">
-                Comienza agregando una celda de Markdown, dibujo o imagen
+                Comienza agregando una celda de Markdown, dibujo, imagen o codigo
               </p>
               <div className="flex items-center justify-center gap-3 flex-wrap">
                 <button
@@ -270,6 +418,12 @@ export default function Home() {
                 >
                   + Imagen
                 </button>
+                <button
+                  onClick={() => handleAddCell('code')}
+                  className="px-4 py-2 text-sm font-medium text-white bg-amber-600 rounded-lg hover:bg-amber-700 transition-colors"
+                >
+                  + Codigo
+                </button>
                 <button
                   onClick={() => handleAddCell('pdf')}
                   className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors"
@@ -291,6 +445,7 @@ export default function Home() {
                         onDelete={() => deleteCell(cell.id)}
                         onMoveUp={() => moveCell(cell.id, 'up')}
                         onMoveDown={() => moveCell(cell.id, 'down')}
+                        onInsertImage={(dataUrl, alt) => addImageCell(dataUrl, alt, cell.id)}
                       />
                     )}
                     {cell.type === 'drawing' && (
@@ -320,6 +475,21 @@ export default function Home() {
                         onMoveDown={() => moveCell(cell.id, 'down')}
                       />
                     )}
+                    {cell.type === 'code' && (
+                      <CodeCell
+                        cell={cell as CodeCellType}
+                        isRunning={codeRunner.runningCellId === cell.id}
+                        isQueued={codeRunner.queuedCellIds.includes(cell.id)}
+                        canRun={!codeRunner.isRunning}
+                        liveOutputs={codeRunner.liveOutputs}
+                        onUpdate={(updates) => updateCell(cell.id, updates)}
+                        onRun={() => codeRunner.runCell(cell.id)}
+                        onStop={codeRunner.stop}
+                        onDelete={() => deleteCell(cell.id)}
+                        onMoveUp={() => moveCell(cell.id, 'up')}
+                        onMoveDown={() => moveCell(cell.id, 'down')}
+                      />
+                    )}
                   </div>
                 ))}
               </div>
@@ -417,6 +587,77 @@ export default function Home() {
           </div>
         </footer>
       </div>
+
+      {showHistory && activeNotebook && !isActiveNotebookLocked && (
+        <HistoryPanel
+          notebook={activeNotebook}
+          snapshots={snapshots}
+          loadSnapshot={loadSnapshot}
+          onTakeSnapshot={takeSnapshot}
+          onDeleteSnapshot={removeSnapshot}
+          onRestore={restoreSnapshot}
+          onRestoreCell={(cell, index) => restoreSnapshotCell(activeNotebook.id, cell, index)}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showEncryption && (
+        <EncryptionDialog
+          isEncrypted={isEncrypted}
+          onChangePassphrase={changePassphrase}
+          onLock={() => {
+            setShowEncryption(false);
+            lock();
+          }}
+          onClose={() => setShowEncryption(false)}
+        />
+      )}
+
+      {showNotebookPassword && activeNotebook && (
+        <NotebookPasswordDialog
+          notebookTitle={activeNotebook.title}
+          hasPassword={!!activeNotebook.lock}
+          onChangePassword={(current, next) => changeNotebookPassword(activeNotebook.id, current, next)}
+          onClose={() => setShowNotebookPassword(false)}
+        />
+      )}
+
+      {showBackup && (
+        <BackupDialog
+          onExport={() => exportBackup({ quickLinks, theme: getStoredTheme() })}
+          onRestore={async (file, mode) => {
+            const settings = await restoreBackup(file, mode);
+            if (!settings) return false;
+            if (mode === 'merge') {
+              if (settings.quickLinks) saveLinks(mergeQuickLinks(quickLinks, settings.quickLinks));
+              return true;
+            }
+            if (settings.quickLinks) saveLinks(settings.quickLinks);
+            if (settings.theme) setTheme(settings.theme);
+            return true;
+          }}
+          onClose={() => setShowBackup(false)}
+        />
+      )}
+
+      {showPrint && activeNotebook && (
+        <PrintDialog
+          hasHeadings={activeNotebook.cells.some(cell => cell.type === 'markdown' && getMarkdownHeadings(cell.content).length > 0)}
+          onPrint={(options) => {
+            setShowPrint(false);
+            setPrintOptions(options);
+          }}
+          onClose={() => setShowPrint(false)}
+        />
+      )}
+
+      {printOptions && activeNotebook && !isActiveNotebookLocked && (
+        <PrintView notebook={activeNotebook} options={printOptions} onDone={() => setPrintOptions(null)} />
+      )}
+
+      {importError && <ImportErrorDialog error={importError} onClose={dismissImportError} />}
+
+      <ConflictDialog conflicts={conflicts} onResolve={resolveConflict} />
     </div>
   );
 }
@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { RestoreMode } from '@/lib/backup';
+
+interface Props {
+  onExport: () => Promise<void>;
+  onRestore: (file: File, mode: RestoreMode) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export default function BackupDialog({ onExport, onRestore, onClose }: Props) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isWorking) onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, isWorking]);
+
+  const handleExport = () => {
+    setIsWorking(true);
+    setMessage(null);
+    onExport()
+      .then(() => setMessage('Copia descargada'))
+      .catch(error => {
+        console.error('Error exporting backup:', error);
+        setMessage('No se pudo generar la copia');
+      })
+      .finally(() => setIsWorking(false));
+  };
+
+  const handleFile = (file: File) => {
+    if (mode === 'replace' && !confirm('Se reemplazaran todos los proyectos y notebooks actuales. Continuar?')) return;
+    setIsWorking(true);
+    setMessage(null);
+    onRestore(file, mode)
+      .then(restored => {
+        // Si falló, el detalle se muestra en el dialogo de errores de importacion
+        if (restored) onClose();
+      })
+      .finally(() => setIsWorking(false));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={() => !isWorking && onClose()}>
+      <div
+        role="dialog"
+        aria-labelledby="backup-title"
+        className="w-full max-w-md bg-card text-card-foreground border border-border rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-border">
+          <h2 id="backup-title" className="text-sm font-semibold">Copia de seguridad</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Un solo archivo con todos los proyectos y notebooks, los links rapidos y el tema. La papelera no se incluye.
+          </p>
+        </div>
+
+        <div className="px-4 py-3 border-b border-border">
+          <Button size="sm" onClick={handleExport} disabled={isWorking}>
+            Descargar copia
+          </Button>
+          {message && <p className="mt-2 text-sm text-muted-foreground">{message}</p>}
+        </div>
+
+        <div className="px-4 py-3 space-y-2">
+          <p className="text-sm font-medium">Restaurar</p>
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="radio"
+              name="restore-mode"
+              checked={mode === 'merge'}
+              onChange={() => setMode('merge')}
+              className="mt-1"
+            />
+            <span>
+              Combinar con lo actual
+              <span className="block text-xs text-muted-foreground">
+                Se agregan los proyectos, notebooks y accesos rapidos de la copia; se mantiene el tema actual
+              </span>
+            </span>
+          </label>
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="radio"
+              name="restore-mode"
+              checked={mode === 'replace'}
+              onChange={() => setMode('replace')}
+              className="mt-1"
+            />
+            <span>
+              Reemplazar todo
+              <span className="block text-xs text-muted-foreground">
+                Los proyectos, notebooks, accesos rapidos y el tema actuales se sustituyen por los de la copia
+              </span>
+            </span>
+          </label>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+          <div className="flex justify-end gap-2 pt-1">
+            <Button size="sm" variant="ghost" onClick={onClose} disabled={isWorking}>
+              Cerrar
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isWorking}>
+              {isWorking ? 'Restaurando...' : 'Elegir archivo...'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
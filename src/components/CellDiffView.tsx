@@ -0,0 +1,136 @@
+'use client';
+
+import { Cell, PDFCell } from '@/types/notebook';
+import { diffLines } from '@/lib/diff';
+
+interface Props {
+  before: Cell | null;
+  after: Cell | null;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+type Labels = { beforeLabel: string; afterLabel: string };
+
+function TextDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <pre className="max-h-64 overflow-auto text-xs font-mono bg-muted/50 rounded p-2 whitespace-pre-wrap">
+      {diffLines(before, after).map((line, idx) => (
+        <div
+          key={idx}
+          className={
+            line.type === 'added'
+              ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+              : line.type === 'removed'
+              ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300 line-through'
+              : 'text-muted-foreground'
+          }
+        >
+          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+          {line.text || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+function SideBySide({ before, after, beforeLabel, afterLabel }: { before?: string; after?: string } & Labels) {
+  const side = (label: string, src?: string) => (
+    <div className="flex-1 min-w-0">
+      <div className="text-[10px] uppercase text-muted-foreground mb-1">{label}</div>
+      {src ? (
+        // eslint-disable-next-line @next/next/no-img-element -- data URL de una versión guardada: next/image no la optimiza
+        <img src={src} alt={label} className="max-h-48 w-full object-contain border border-border rounded bg-white" />
+      ) : (
+        <div className="h-24 flex items-center justify-center border border-dashed border-border rounded text-xs text-muted-foreground">
+          Vacio
+        </div>
+      )}
+    </div>
+  );
+  return (
+    <div className="flex gap-2">
+      {side(beforeLabel, before)}
+      {side(afterLabel, after)}
+    </div>
+  );
+}
+
+// Páginas con anotaciones distintas entre las dos versiones del PDF
+function PdfDiff({ before, after, ...labels }: { before: PDFCell | null; after: PDFCell | null } & Labels) {
+  const pages = new Map<string, { before?: PDFCell['pages'][number]; after?: PDFCell['pages'][number] }>();
+  before?.pages.forEach(page => pages.set(page.id, { before: page }));
+  after?.pages.forEach(page => pages.set(page.id, { ...pages.get(page.id), after: page }));
+
+  const changed = [...pages.values()].filter(({ before: b, after: a }) =>
+    JSON.stringify(b) !== JSON.stringify(a)
+  );
+
+  return (
+    <div className="space-y-2 text-xs">
+      {before?.fileName !== after?.fileName && (
+        <p className="text-muted-foreground">
+          Archivo: {before?.fileName || '(ninguno)'} → {after?.fileName || '(ninguno)'}
+        </p>
+      )}
+      {changed.length === 0 ? (
+        <p className="text-muted-foreground italic">Sin cambios en las anotaciones</p>
+      ) : (
+        changed.map(({ before: b, after: a }) => {
+          const page = a ?? b!;
+          return (
+            <div key={page.id}>
+              <div className="font-medium mb-1">
+                {page.isCustomPage ? 'Hoja agregada' : `Pagina ${page.pageNumber}`}
+              </div>
+              <SideBySide
+                before={b?.customDrawingDataUrl || b?.drawingDataUrl}
+                after={a?.customDrawingDataUrl || a?.drawingDataUrl}
+                {...labels}
+              />
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
+
+/** Diferencias entre dos versiones de una celda: texto para Markdown y código, lado a lado para el resto. */
+export default function CellDiffView({ before, after, beforeLabel = 'Version', afterLabel = 'Actual' }: Props) {
+  const labels = { beforeLabel, afterLabel };
+  const type = (before ?? after)?.type;
+
+  if (type === 'markdown') {
+    return (
+      <TextDiff
+        before={before?.type === 'markdown' ? before.content : ''}
+        after={after?.type === 'markdown' ? after.content : ''}
+      />
+    );
+  }
+  if (type === 'code') {
+    return (
+      <TextDiff
+        before={before?.type === 'code' ? before.source : ''}
+        after={after?.type === 'code' ? after.source : ''}
+      />
+    );
+  }
+  if (type === 'pdf') {
+    return (
+      <PdfDiff
+        before={before?.type === 'pdf' ? before : null}
+        after={after?.type === 'pdf' ? after : null}
+        {...labels}
+      />
+    );
+  }
+  return (
+    <SideBySide
+      before={before && 'dataUrl' in before ? before.dataUrl : undefined}
+      after={after && 'dataUrl' in after ? after.dataUrl : undefined}
+      {...labels}
+    />
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useRef } from 'react';
+import { CodeCell as CodeCellType, CodeLanguage, CodeOutput } from '@/types/notebook';
+import CodeOutputs from '@/components/CodeOutputs';
+
+interface Props {
+  cell: CodeCellType;
+  isRunning: boolean;
+  isQueued: boolean;
+  canRun: boolean; // false mientras se ejecuta otra celda
+  liveOutputs: CodeOutput[]; // las salidas que van llegando mientras se ejecuta
+  onUpdate: (updates: Partial<Pick<CodeCellType, 'source' | 'language'>>) => void;
+  onRun: () => void;
+  onStop: () => void;
+  onDelete: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+}
+
+const languages: { value: CodeLanguage; label: string }[] = [
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'typescript', label: 'TypeScript' },
+];
+
+export default function CodeCell({
+  cell,
+  isRunning,
+  isQueued,
+  canRun,
+  liveOutputs,
+  onUpdate,
+  onRun,
+  onStop,
+  onDelete,
+  onMoveUp,
+  onMoveDown,
+}: Props) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const outputs = isRunning ? liveOutputs : cell.outputs;
+  const rows = Math.max(3, cell.source.split('\n').length);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      if (canRun) onRun();
+      return;
+    }
+    // Tab indenta en lugar de salir del campo
+    if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      const start = textarea.selectionStart;
+      const end = textarea.selectionEnd;
+      onUpdate({ source: `${cell.source.slice(0, start)}  ${cell.source.slice(end)}` });
+      setTimeout(() => textareaRef.current?.setSelectionRange(start + 2, start + 2), 0);
+    }
+  };
+
+  return (
+    <div className="group relative bg-card">
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border bg-muted/50">
+        <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Codigo</span>
+        <select
+          value={cell.language}
+          onChange={(e) => onUpdate({ language: e.target.value as CodeLanguage })}
+          className="text-xs bg-transparent text-muted-foreground border border-border rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-ring"
+          title="Lenguaje"
+        >
+          {languages.map(lang => (
+            <option key={lang.value} value={lang.value}>{lang.label}</option>
+          ))}
+        </select>
+        <span className="text-xs font-mono text-muted-foreground" title="Orden de ejecucion">
+          [{isRunning ? '*' : isQueued ? '…' : cell.executionCount ?? ' '}]
+        </span>
+        <div className="flex-1" />
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button onClick={onMoveUp} className="p-1 text-muted-foreground hover:text-foreground hover:bg-muted rounded" title="Mover arriba">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+            </svg>
+          </button>
+          <button onClick={onMoveDown} className="p-1 text-muted-foreground hover:text-foreground hover:bg-muted rounded" title="Mover abajo">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          <button onClick={onDelete} className="p-1 text-red-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded" title="Eliminar">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        </div>
+        {isRunning ? (
+          <button
+            onClick={onStop}
+            className="flex items-center gap-1 text-xs px-2 py-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded"
+            title="Detener (reinicia las variables)"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="currentColor">
+              <rect x="6" y="6" width="12" height="12" rx="1" />
+            </svg>
+            Detener
+          </button>
+        ) : (
+          <button
+            onClick={onRun}
+            disabled={!canRun}
+            className="flex items-center gap-1 text-xs px-2 py-1 text-primary hover:bg-primary/10 rounded disabled:opacity-50 disabled:hover:bg-transparent"
+            title="Ejecutar (Shift+Enter)"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M8 5v14l11-7z" />
+            </svg>
+            Ejecutar
+          </button>
+        )}
+      </div>
+
+      <textarea
+        ref={textareaRef}
+        value={cell.source}
+        onChange={(e) => onUpdate({ source: e.target.value })}
+        onKeyDown={handleKeyDown}
+        rows={rows}
+        spellCheck={false}
+        className="block w-full p-3 font-mono text-sm bg-background text-foreground border-none resize-none focus:outline-none focus:ring-1 focus:ring-inset focus:ring-ring placeholder-gray-400 dark:placeholder-gray-500"
+        placeholder={'console.log(\'Hola\')\n\n// Shift+Enter para ejecutar. table(datos) muestra una tabla y chart(datos, \'bar\' | \'line\') un grafico'}
+      />
+
+      {outputs.length > 0 && (
+        <div className="px-3 py-2 border-t border-border">
+          <CodeOutputs outputs={outputs} />
+        </div>
+      )}
+    </div>
+  );
+}
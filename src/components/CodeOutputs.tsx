@@ -0,0 +1,68 @@
+'use client';
+
+import { CodeOutput } from '@/types/notebook';
+import { chartToSvg } from '@/lib/codeOutputs';
+
+interface Props {
+  outputs: CodeOutput[];
+}
+
+const logColors: Record<string, string> = {
+  log: 'text-foreground',
+  info: 'text-blue-600 dark:text-blue-400',
+  warn: 'text-amber-600 dark:text-amber-400',
+  error: 'text-red-600 dark:text-red-400',
+  debug: 'text-muted-foreground',
+};
+
+function OutputItem({ output }: { output: CodeOutput }) {
+  switch (output.type) {
+    case 'log':
+      return <pre className={`code-output-text whitespace-pre-wrap break-words ${logColors[output.level]}`}>{output.text}</pre>;
+    case 'result':
+      return <pre className="code-output-text whitespace-pre-wrap break-words text-foreground font-semibold">{output.text}</pre>;
+    case 'error':
+      return (
+        <pre className="code-output-text whitespace-pre-wrap break-words px-2 py-1 rounded bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300">
+          {output.name}: {output.message}
+        </pre>
+      );
+    case 'table':
+      return (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="code-output-table text-xs border-collapse">
+            <thead>
+              <tr>
+                {output.columns.map((column, i) => (
+                  <th key={i} className="px-2 py-1 text-left font-semibold border-b border-border bg-muted/50">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {output.rows.map((row, i) => (
+                <tr key={i} className="border-b border-border/50">
+                  {row.map((value, j) => (
+                    <td key={j} className={`px-2 py-0.5 font-mono ${j === 0 ? 'text-muted-foreground' : ''}`}>{value}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'chart':
+      // El SVG lo arma chartToSvg con las etiquetas escapadas
+      return <div className="code-output-chart max-w-2xl text-muted-foreground" dangerouslySetInnerHTML={{ __html: chartToSvg(output) }} />;
+  }
+}
+
+/** Salidas de una celda de código; la usan la celda y la vista de impresión. */
+export default function CodeOutputs({ outputs }: Props) {
+  return (
+    <div className="space-y-1 text-sm font-mono">
+      {outputs.map((output, i) => (
+        <OutputItem key={i} output={output} />
+      ))}
+    </div>
+  );
+}
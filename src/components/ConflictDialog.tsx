@@ -0,0 +1,59 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import CellDiffView from '@/components/CellDiffView';
+import { cellTypeLabels, getCellLabel } from '@/lib/cells';
+import { SyncConflict } from '@/lib/sync';
+
+interface Props {
+  conflicts: SyncConflict[];
+  onResolve: (conflict: SyncConflict, keep: 'local' | 'remote') => void;
+}
+
+export default function ConflictDialog({ conflicts, onResolve }: Props) {
+  // Se muestra de a un conflicto; al resolverlo aparece el siguiente
+  const conflict = conflicts[0];
+  if (!conflict) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div
+        role="alertdialog"
+        aria-labelledby="conflict-title"
+        className="w-full max-w-3xl bg-card text-card-foreground border border-border rounded-lg shadow-lg"
+      >
+        <div className="px-4 py-3 border-b border-border">
+          <h2 id="conflict-title" className="text-sm font-semibold">
+            Cambios en conflicto
+            {conflicts.length > 1 && (
+              <span className="ml-2 text-xs font-normal text-muted-foreground">(1 de {conflicts.length})</span>
+            )}
+          </h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            La celda {cellTypeLabels[conflict.local.type]} &quot;{getCellLabel(conflict.local)}&quot; del notebook
+            &quot;{conflict.notebookTitle}&quot; se modifico en esta pestana y en otra al mismo tiempo.
+            Elige que version conservar.
+          </p>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto p-4">
+          <CellDiffView
+            before={conflict.local}
+            after={conflict.remote}
+            beforeLabel="Esta pestana"
+            afterLabel="Otra pestana"
+          />
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-border">
+          <Button size="sm" variant="outline" onClick={() => onResolve(conflict, 'local')}>
+            Mantener la de esta pestana
+          </Button>
+          <Button size="sm" onClick={() => onResolve(conflict, 'remote')}>
+            Usar la de la otra pestana
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -494,7 +494,7 @@ export default function DrawingCell({ cell, onUpdate, onDelete, onMoveUp, onMove
   ];
 
   return (
-    <div className="group relative bg-card">
+    <div className="group relative bg-card" data-editing-cell={isEditing || undefined}>
       <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border bg-muted/50">
         <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Dibujo</span>
         <div className="flex-1" />
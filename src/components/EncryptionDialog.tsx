@@ -0,0 +1,152 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/encryption';
+
+interface Props {
+  isEncrypted: boolean;
+  onChangePassphrase: (current: string | null, next: string | null) => Promise<boolean>;
+  onLock: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-border rounded bg-card text-foreground';
+
+export default function EncryptionDialog({ isEncrypted, onChangePassphrase, onLock, onClose }: Props) {
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isWorking) onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, isWorking]);
+
+  // Reescribe todos los datos con la contraseña nueva (o sin cifrar si `nextPassphrase` es null)
+  const run = (nextPassphrase: string | null, done: string) => {
+    setIsWorking(true);
+    setError(null);
+    setMessage(null);
+    onChangePassphrase(isEncrypted ? current : null, nextPassphrase)
+      .then(changed => {
+        if (!changed) {
+          setError('La contrasena actual no es correcta');
+          return;
+        }
+        setCurrent('');
+        setNext('');
+        setConfirmation('');
+        setMessage(done);
+      })
+      .catch(err => {
+        console.error('Error changing passphrase:', err);
+        setError('No se pudieron volver a cifrar los datos; no se cambio nada');
+      })
+      .finally(() => setIsWorking(false));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (next.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`La contrasena debe tener al menos ${MIN_PASSPHRASE_LENGTH} caracteres`);
+      return;
+    }
+    if (next !== confirmation) {
+      setError('Las contrasenas no coinciden');
+      return;
+    }
+    run(next, isEncrypted ? 'Contrasena cambiada' : 'Cifrado activado');
+  };
+
+  const handleDisable = () => {
+    if (!current) {
+      setError('Ingresa la contrasena actual');
+      return;
+    }
+    if (confirm('Los datos se guardaran sin cifrar. Continuar?')) {
+      run(null, 'Cifrado desactivado');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={() => !isWorking && onClose()}>
+      <div
+        role="dialog"
+        aria-labelledby="encryption-title"
+        className="w-full max-w-md bg-card text-card-foreground border border-border rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-border">
+          <h2 id="encryption-title" className="text-sm font-semibold">
+            Cifrado {isEncrypted ? 'activado' : 'desactivado'}
+          </h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {isEncrypted
+              ? 'Los datos se guardan cifrados y se bloquean despues de un tiempo sin actividad.'
+              : 'Cifra todos los notebooks guardados en este navegador con una contrasena.'}
+            {' '}Si olvidas la contrasena no hay forma de recuperar los datos.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="px-4 py-3 space-y-2">
+          {isEncrypted && (
+            <input
+              type="password"
+              value={current}
+              onChange={(e) => setCurrent(e.target.value)}
+              placeholder="Contrasena actual"
+              autoComplete="current-password"
+              className={inputClass}
+            />
+          )}
+          <input
+            type="password"
+            value={next}
+            onChange={(e) => setNext(e.target.value)}
+            placeholder={isEncrypted ? 'Contrasena nueva' : 'Contrasena'}
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Repetir contrasena"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {message && <p className="text-sm text-muted-foreground">{message}</p>}
+          <div className="flex justify-end gap-2 pt-1">
+            {isEncrypted && (
+              <Button type="button" size="sm" variant="outline" onClick={handleDisable} disabled={isWorking}>
+                Quitar cifrado
+              </Button>
+            )}
+            <Button type="submit" size="sm" disabled={isWorking || !next}>
+              {isWorking ? 'Cifrando...' : isEncrypted ? 'Cambiar contrasena' : 'Activar cifrado'}
+            </Button>
+          </div>
+        </form>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-border">
+          {isEncrypted && (
+            <Button size="sm" variant="outline" onClick={onLock} disabled={isWorking}>
+              Bloquear ahora
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" onClick={onClose} disabled={isWorking}>
+            Cerrar
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface Props {
+  onExportJson: () => void;
+  onExportIpynb: () => void;
+  onExportMarkdown: () => void;
+  onExportHtml: () => void;
+}
+
+export function ExportMenu({ onExportJson, onExportIpynb, onExportMarkdown, onExportHtml }: Props) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Exportar">
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={onExportJson}>
+          Notebook (.json)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={onExportIpynb}>
+          Jupyter (.ipynb)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={onExportMarkdown}>
+          Markdown con assets (.zip)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={onExportHtml}>
+          Pagina HTML (.html)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
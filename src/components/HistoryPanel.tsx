@@ -0,0 +1,231 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Cell, Notebook, NotebookSnapshot, SnapshotInfo } from '@/types/notebook';
+import { cellTypeLabels, getCellLabel } from '@/lib/cells';
+import { CellDiff, diffNotebooks } from '@/lib/diff';
+import CellDiffView from '@/components/CellDiffView';
+
+interface Props {
+  notebook: Notebook;
+  snapshots: SnapshotInfo[];
+  loadSnapshot: (id: string) => Promise<NotebookSnapshot | null>;
+  onTakeSnapshot: (name: string) => void;
+  onDeleteSnapshot: (id: string) => void;
+  onRestore: (snapshot: Notebook) => void;
+  onRestoreCell: (cell: Cell, index: number) => void;
+  onClose: () => void;
+}
+
+const changeLabels: Record<CellDiff['change'], string> = {
+  added: 'Nueva',
+  removed: 'Eliminada',
+  modified: 'Modificada',
+  unchanged: 'Sin cambios',
+};
+
+const changeStyles: Record<CellDiff['change'], string> = {
+  added: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  removed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  modified: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  unchanged: 'bg-muted text-muted-foreground',
+};
+
+function snapshotTitle(snapshot: SnapshotInfo): string {
+  return snapshot.name || 'Version automatica';
+}
+
+export default function HistoryPanel({
+  notebook,
+  snapshots,
+  loadSnapshot,
+  onTakeSnapshot,
+  onDeleteSnapshot,
+  onRestore,
+  onRestoreCell,
+  onClose,
+}: Props) {
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<NotebookSnapshot | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const selectSnapshot = (id: string) => {
+    setLoadingId(id);
+    loadSnapshot(id)
+      .then(setSelected)
+      .catch(error => console.error('Error loading snapshot:', error))
+      .finally(() => setLoadingId(null));
+  };
+
+  const handleTakeSnapshot = () => {
+    onTakeSnapshot(name);
+    setName('');
+  };
+
+  const diffs = selected ? diffNotebooks(selected.notebook, notebook) : [];
+  const visibleDiffs = showUnchanged ? diffs : diffs.filter(d => d.change !== 'unchanged');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-labelledby="history-title"
+        className="w-full max-w-5xl h-[85vh] flex flex-col bg-card text-card-foreground border border-border rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
+          <h2 id="history-title" className="flex-1 text-sm font-semibold">
+            Versiones de &quot;{notebook.title}&quot;
+          </h2>
+          <Button size="sm" variant="ghost" onClick={onClose}>
+            Cerrar
+          </Button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Lista de versiones */}
+          <div className="w-64 flex-shrink-0 flex flex-col border-r border-border">
+            <div className="flex gap-1 p-2 border-b border-border">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && name.trim() && handleTakeSnapshot()}
+                placeholder="Nombre de la version"
+                className="flex-1 min-w-0 px-2 py-1 text-xs border border-border rounded bg-card text-foreground"
+              />
+              <Button size="sm" className="h-7 text-xs" onClick={handleTakeSnapshot} disabled={!name.trim()}>
+                Guardar
+              </Button>
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {snapshots.length === 0 ? (
+                <p className="p-4 text-center text-xs text-muted-foreground">
+                  Todavia no hay versiones guardadas
+                </p>
+              ) : (
+                snapshots.map((snapshot) => (
+                  <div
+                    key={snapshot.id}
+                    className={`group flex items-center gap-1 px-3 py-1.5 cursor-pointer hover:bg-muted ${selected?.id === snapshot.id ? 'bg-muted' : ''}`}
+                    onClick={() => selectSnapshot(snapshot.id)}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className={`text-sm truncate ${snapshot.auto ? 'text-muted-foreground italic' : 'text-foreground'}`}>
+                        {snapshotTitle(snapshot)}
+                      </div>
+                      <div className="text-[10px] text-muted-foreground">
+                        {loadingId === snapshot.id ? 'Cargando...' : new Date(snapshot.createdAt).toLocaleString()}
+                      </div>
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (confirm(`Eliminar la version "${snapshotTitle(snapshot)}"?`)) {
+                          if (selected?.id === snapshot.id) setSelected(null);
+                          onDeleteSnapshot(snapshot.id);
+                        }
+                      }}
+                      className="opacity-0 group-hover:opacity-100 p-0.5 text-red-400 hover:text-red-600 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                      title="Eliminar version"
+                    >
+                      <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          {/* Diferencias con el estado actual */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            {!selected ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+                Selecciona una version para compararla con el estado actual
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 px-4 py-2 border-b border-border text-xs">
+                  <span className="flex-1 text-muted-foreground">
+                    {snapshotTitle(selected)} ({new Date(selected.createdAt).toLocaleString()}) comparada con el estado actual
+                  </span>
+                  <label className="flex items-center gap-1 text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={showUnchanged}
+                      onChange={(e) => setShowUnchanged(e.target.checked)}
+                    />
+                    Mostrar sin cambios
+                  </label>
+                  <Button
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => {
+                      if (confirm('Restaurar el notebook completo a esta version? Se puede deshacer con Ctrl+Z.')) {
+                        onRestore(selected.notebook);
+                      }
+                    }}
+                  >
+                    Restaurar notebook
+                  </Button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                  {selected.notebook.title !== notebook.title && (
+                    <p className="text-xs text-muted-foreground">
+                      Titulo: &quot;{selected.notebook.title}&quot; → &quot;{notebook.title}&quot;
+                    </p>
+                  )}
+                  {visibleDiffs.length === 0 ? (
+                    <p className="text-center text-sm text-muted-foreground py-8">
+                      No hay diferencias con el estado actual
+                    </p>
+                  ) : (
+                    visibleDiffs.map((diff) => {
+                      const cell = (diff.after ?? diff.before)!;
+                      return (
+                        <div key={diff.cellId} className="border border-border rounded-lg">
+                          <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border bg-muted/50">
+                            <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${changeStyles[diff.change]}`}>
+                              {changeLabels[diff.change]}
+                            </span>
+                            <span className="text-xs text-muted-foreground">{cellTypeLabels[cell.type]}</span>
+                            <span className="flex-1 text-xs truncate">{getCellLabel(cell)}</span>
+                            {diff.before && diff.change !== 'unchanged' && (
+                              <button
+                                onClick={() => onRestoreCell(diff.before!, diff.snapshotIndex)}
+                                className="px-1 text-xs text-primary hover:bg-primary/10 rounded"
+                              >
+                                Restaurar celda
+                              </button>
+                            )}
+                          </div>
+                          {diff.change !== 'unchanged' && (
+                            <div className="p-2">
+                              <CellDiffView before={diff.before} after={diff.after} />
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
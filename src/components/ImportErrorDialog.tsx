@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { ImportError } from '@/lib/validation';
+
+interface Props {
+  error: ImportError;
+  onClose: () => void;
+}
+
+const MAX_VISIBLE_ISSUES = 50;
+
+export default function ImportErrorDialog({ error, onClose }: Props) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const visibleIssues = error.issues.slice(0, MAX_VISIBLE_ISSUES);
+  const hiddenCount = error.issues.length - visibleIssues.length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        role="alertdialog"
+        aria-labelledby="import-error-title"
+        className="w-full max-w-lg bg-card text-card-foreground border border-border rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-border">
+          <h2 id="import-error-title" className="text-sm font-semibold text-destructive">
+            No se pudo importar &quot;{error.fileName}&quot;
+          </h2>
+          <p className="mt-1 text-sm text-muted-foreground">{error.message}</p>
+        </div>
+
+        {visibleIssues.length > 0 && (
+          <ul className="max-h-72 overflow-y-auto px-4 py-2 space-y-1 text-xs">
+            {visibleIssues.map((issue, idx) => (
+              <li key={idx} className="flex gap-2">
+                <code className="flex-shrink-0 font-mono text-foreground">{issue.path}</code>
+                <span className="text-muted-foreground">{issue.message}</span>
+              </li>
+            ))}
+            {hiddenCount > 0 && (
+              <li className="text-muted-foreground italic">y {hiddenCount} errores mas...</li>
+            )}
+          </ul>
+        )}
+
+        <div className="flex justify-end px-4 py-3 border-t border-border">
+          <Button size="sm" onClick={onClose} autoFocus>
+            Cerrar
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
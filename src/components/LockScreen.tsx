@@ -0,0 +1,61 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface Props {
+  onUnlock: (passphrase: string) => Promise<boolean>;
+}
+
+export default function LockScreen({ onUnlock }: Props) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    onUnlock(passphrase)
+      .then(unlocked => {
+        if (!unlocked) setError('Contrasena incorrecta');
+      })
+      .catch(() => setError('No se pudieron descifrar los datos'))
+      .finally(() => {
+        setIsUnlocking(false);
+        setPassphrase('');
+      });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-card text-card-foreground border border-border rounded-lg shadow-lg p-6 space-y-4"
+      >
+        <div className="flex flex-col items-center gap-2 text-center">
+          <Lock className="h-8 w-8 text-muted-foreground" />
+          <h1 className="text-lg font-semibold">Notebooks bloqueados</h1>
+          <p className="text-sm text-muted-foreground">
+            Los datos estan cifrados. Ingresa la contrasena para abrirlos.
+          </p>
+        </div>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Contrasena"
+          autoFocus
+          autoComplete="current-password"
+          className="w-full px-3 py-2 text-sm border border-border rounded bg-card text-foreground"
+        />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Button type="submit" className="w-full" disabled={!passphrase || isUnlocking}>
+          {isUnlocking ? 'Desbloqueando...' : 'Desbloquear'}
+        </Button>
+      </form>
+    </div>
+  );
+}
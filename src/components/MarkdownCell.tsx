@@ -1,10 +1,9 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
-import rehypeRaw from 'rehype-raw';
 import { MarkdownCell as MarkdownCellType } from '@/types/notebook';
+import MarkdownPreview from '@/components/MarkdownPreview';
+import { codeBlockLanguages } from '@/lib/markdown';
 
 interface Props {
   cell: MarkdownCellType;
@@ -12,6 +11,7 @@ interface Props {
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
+  onInsertImage: (dataUrl: string, alt: string) => void; // agrega una celda de imagen debajo
 }
 
 const textColors = [
@@ -26,11 +26,12 @@ const textColors = [
   { color: '#ec4899', label: 'Rosa' },
 ];
 
-export default function MarkdownCell({ cell, onUpdate, onDelete, onMoveUp, onMoveDown }: Props) {
+export default function MarkdownCell({ cell, onUpdate, onDelete, onMoveUp, onMoveDown, onInsertImage }: Props) {
   const [isEditing, setIsEditing] = useState(!cell.content);
   const [content, setContent] = useState(cell.content);
   const [selectedColor, setSelectedColor] = useState('#ffffff');
   const [showColorPicker, setShowColorPicker] = useState(false);
+  const [showLanguagePicker, setShowLanguagePicker] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const handleSave = () => {
@@ -98,6 +99,11 @@ export default function MarkdownCell({ cell, onUpdate, onDelete, onMoveUp, onMov
     }, 0);
   };
 
+  const insertCodeBlock = (language: string) => {
+    setShowLanguagePicker(false);
+    insertAtCursor('\n```' + language + '\n', '\n```\n', 'codigo');
+  };
+
   const insertAtLineStart = (prefix: string) => {
     const textarea = textareaRef.current;
     if (!textarea) return;
@@ -147,6 +153,16 @@ export default function MarkdownCell({ cell, onUpdate, onDelete, onMoveUp, onMov
       action: () => insertAtCursor('`', '`', 'codigo'),
       className: 'font-mono text-xs'
     },
+    {
+      label: '∑',
+      title: 'Formula en linea (LaTeX)',
+      action: () => insertAtCursor('$', '$', 'x^2'),
+    },
+    {
+      label: '∑∑',
+      title: 'Formula en bloque (LaTeX)',
+      action: () => insertAtCursor('\n$$\n', '\n$$\n', '\\frac{a}{b}'),
+    },
     { type: 'separator' },
     { type: 'colorPicker' },
     { type: 'separator' },
@@ -181,11 +197,11 @@ export default function MarkdownCell({ cell, onUpdate, onDelete, onMoveUp, onMov
       title: 'Enlace',
       action: () => insertAtCursor('[', '](url)', 'texto'),
     },
+    { type: 'codeBlock' },
     {
-      label: '```',
-      title: 'Bloque de codigo',
-      action: () => insertAtCursor('\n```\n', '\n```\n', 'codigo'),
-      className: 'font-mono text-xs'
+      label: '◇',
+      title: 'Diagrama (Mermaid)',
+      action: () => insertAtCursor('\n```mermaid\n', '\n```\n', 'flowchart TD\n  A[Inicio] --> B[Fin]'),
     },
     {
       label: '📊',
@@ -273,6 +289,29 @@ export default function MarkdownCell({ cell, onUpdate, onDelete, onMoveUp, onMov
                     </div>
                   )}
                 </div>
+              ) : btn.type === 'codeBlock' ? (
+                <div key={idx} className="relative">
+                  <button
+                    onClick={() => setShowLanguagePicker(!showLanguagePicker)}
+                    className="px-2 py-1 text-xs font-mono text-muted-foreground hover:bg-muted rounded transition-colors"
+                    title="Bloque de codigo"
+                  >
+                    ```
+                  </button>
+                  {showLanguagePicker && (
+                    <div className="absolute top-full left-0 mt-1 py-1 w-40 max-h-64 overflow-y-auto bg-card border border-border rounded-lg shadow-lg z-10">
+                      {codeBlockLanguages.map((lang) => (
+                        <button
+                          key={lang.value}
+                          onClick={() => insertCodeBlock(lang.value)}
+                          className="block w-full px-3 py-1 text-left text-sm text-foreground hover:bg-muted"
+                        >
+                          {lang.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
               ) : (
                 <button
                   key={idx}
@@ -324,7 +363,7 @@ export default function MarkdownCell({ cell, onUpdate, onDelete, onMoveUp, onMov
           onClick={() => setIsEditing(true)}
         >
           {content ? (
-            <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw]}>{content}</ReactMarkdown>
+            <MarkdownPreview content={content} onDiagramToImage={onInsertImage} />
           ) : (
             <p className="text-muted-foreground italic">Haz clic para editar...</p>
           )}
@@ -0,0 +1,97 @@
+'use client';
+
+import { createContext, useContext, useState } from 'react';
+import ReactMarkdown, { Components, ExtraProps } from 'react-markdown';
+import MermaidDiagram from '@/components/MermaidDiagram';
+import { codeLanguageLabel, previewRehypePlugins, remarkPlugins } from '@/lib/markdown';
+
+type HastElement = NonNullable<ExtraProps['node']>;
+
+interface Props {
+  content: string;
+  onDiagramToImage?: (dataUrl: string, alt: string) => void;
+}
+
+// Por contexto y no en los componentes: si cambian en cada render, ReactMarkdown vuelve a montar los diagramas
+const DiagramToImageContext = createContext<Props['onDiagramToImage']>(undefined);
+
+function textContent(node: HastElement): string {
+  return node.children.map(child => (child.type === 'text' ? child.value : child.type === 'element' ? textContent(child) : '')).join('');
+}
+
+// El <code> de un bloque ``` y su lenguaje ('' si no tiene)
+function codeBlock(pre: HastElement | undefined): { language: string; text: string } | null {
+  const code = pre?.children[0];
+  if (code?.type !== 'element' || code.tagName !== 'code') return null;
+  const classes = Array.isArray(code.properties.className) ? code.properties.className.map(String) : [];
+  const language = classes.find(name => name.startsWith('language-'))?.slice('language-'.length) ?? '';
+  return { language, text: textContent(code).replace(/\n$/, '') };
+}
+
+function CodeBlock({ language, text, children }: { language: string; text: string; children: React.ReactNode }) {
+  const [copied, setCopied] = useState(false);
+  const lineCount = text.split('\n').length;
+
+  const handleCopy = async (e: React.MouseEvent) => {
+    // La vista previa abre el editor al hacer clic
+    e.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Sin permiso para el portapapeles no hay nada que avisar: el código se puede seleccionar
+    }
+  };
+
+  return (
+    <div className="code-block">
+      <div className="code-block-header">
+        <span>{language ? codeLanguageLabel(language) : 'Codigo'}</span>
+        <button onClick={handleCopy} className="hover:text-foreground transition-colors" title="Copiar al portapapeles">
+          {copied ? 'Copiado' : 'Copiar'}
+        </button>
+      </div>
+      <div className="flex overflow-x-auto">
+        <pre className="code-block-lines" aria-hidden="true">
+          {Array.from({ length: lineCount }, (_, i) => i + 1).join('\n')}
+        </pre>
+        <pre className="flex-1">{children}</pre>
+      </div>
+    </div>
+  );
+}
+
+function Pre({ node, children, ...props }: React.ComponentProps<'pre'> & ExtraProps) {
+  const onDiagramToImage = useContext(DiagramToImageContext);
+  const block = codeBlock(node);
+  if (!block) return <pre {...props}>{children}</pre>;
+
+  if (block.language === 'mermaid') {
+    return (
+      <MermaidDiagram
+        code={block.text}
+        onConvertToImage={onDiagramToImage && (dataUrl => onDiagramToImage(dataUrl, 'Diagrama'))}
+      />
+    );
+  }
+  return <CodeBlock language={block.language} text={block.text}>{children}</CodeBlock>;
+}
+
+const components: Components = { pre: Pre };
+
+/**
+ * Vista previa del Markdown de las celdas y de las notas de las páginas de
+ * PDF. Los bloques de código se colorean según su lenguaje, con números de
+ * línea y un botón para copiarlos; los ```mermaid se dibujan como diagramas y,
+ * con `onDiagramToImage`, ofrecen convertirse en una imagen.
+ */
+export default function MarkdownPreview({ content, onDiagramToImage }: Props) {
+  return (
+    <DiagramToImageContext.Provider value={onDiagramToImage}>
+      <ReactMarkdown remarkPlugins={remarkPlugins} rehypePlugins={previewRehypePlugins} components={components}>
+        {content}
+      </ReactMarkdown>
+    </DiagramToImageContext.Provider>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useIsDarkTheme } from '@/hooks/useTheme';
+import { mermaidToPng, renderMermaid } from '@/lib/mermaid';
+
+interface Props {
+  code: string;
+  onConvertToImage?: (dataUrl: string) => void;
+}
+
+interface Rendered {
+  code: string;
+  dark: boolean;
+  svg: string | null;
+  error: string | null;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Un bloque ```mermaid de Markdown dibujado como diagrama, con los colores del
+ * tema activo. Si el código tiene errores se muestra el mensaje en lugar del
+ * diagrama, sin romper el resto de la celda.
+ */
+export default function MermaidDiagram({ code, onConvertToImage }: Props) {
+  const dark = useIsDarkTheme();
+  const [rendered, setRendered] = useState<Rendered | null>(null);
+  const [isConverting, setIsConverting] = useState(false);
+  const [convertError, setConvertError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    renderMermaid(code, dark).then(
+      svg => {
+        if (!cancelled) setRendered({ code, dark, svg, error: null });
+      },
+      (error: unknown) => {
+        if (!cancelled) setRendered({ code, dark, svg: null, error: errorMessage(error) });
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [code, dark]);
+
+  const handleConvert = async (e: React.MouseEvent) => {
+    // La vista previa abre el editor al hacer clic
+    e.stopPropagation();
+    if (!onConvertToImage || isConverting) return;
+    setIsConverting(true);
+    setConvertError(null);
+    try {
+      onConvertToImage(await mermaidToPng(code));
+    } catch (error) {
+      setConvertError(errorMessage(error));
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  if (!rendered) {
+    return <div className="my-2 text-xs text-muted-foreground italic">Generando diagrama...</div>;
+  }
+
+  if (rendered.error !== null) {
+    return (
+      <div className="my-2 rounded border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-900/30 p-2 text-xs">
+        {/* div y no pre/p: dentro de .prose tomarían los estilos de los bloques de código */}
+        <div className="font-medium text-red-700 dark:text-red-300">Error en el diagrama</div>
+        <div className="mt-1 whitespace-pre-wrap break-words font-mono text-red-700 dark:text-red-300">{rendered.error}</div>
+        <div className="mt-2 whitespace-pre-wrap break-words font-mono text-muted-foreground">{code}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mermaid-diagram group/diagram relative my-2">
+      {/* Mermaid limpia el SVG con securityLevel 'strict' */}
+      <div className="overflow-x-auto [&_svg]:mx-auto" dangerouslySetInnerHTML={{ __html: rendered.svg ?? '' }} />
+      {onConvertToImage && (
+        <button
+          onClick={handleConvert}
+          disabled={isConverting}
+          className="absolute top-1 right-1 p-1 rounded bg-card/90 border border-border text-muted-foreground hover:text-foreground opacity-0 group-hover/diagram:opacity-100 transition-opacity disabled:opacity-100"
+          title="Convertir en imagen (agrega una celda de imagen)"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className={`h-3.5 w-3.5 ${isConverting ? 'animate-pulse' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+          </svg>
+        </button>
+      )}
+      {convertError && <div className="mt-1 text-xs text-red-600 dark:text-red-400">No se pudo convertir: {convertError}</div>}
+    </div>
+  );
+}
@@ -1,10 +1,8 @@
 'use client';
 
 import { useState, useRef, useCallback, useEffect } from 'react';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
-import rehypeRaw from 'rehype-raw';
 import { MiniCell, MiniCellType, MiniMarkdownCell, MiniDrawingCell, MiniImageCell, MiniBackgroundType } from '@/types/notebook';
+import MarkdownPreview from '@/components/MarkdownPreview';
 import { v4 as uuidv4 } from 'uuid';
 
 interface Props {
@@ -23,9 +21,10 @@ const textColors = [
 ];
 
 // Mini Markdown Cell Component
-function MiniMarkdown({ cell, onUpdate, onDelete, onMoveUp, onMoveDown, isFirst, isLast }: {
+function MiniMarkdown({ cell, onUpdate, onInsertImage, onDelete, onMoveUp, onMoveDown, isFirst, isLast }: {
   cell: MiniMarkdownCell;
   onUpdate: (content: string) => void;
+  onInsertImage: (dataUrl: string, alt: string) => void;
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
@@ -122,6 +121,8 @@ function MiniMarkdown({ cell, onUpdate, onDelete, onMoveUp, onMoveDown, isFirst,
             <button onClick={() => insertAtCursor('**', '**', 'texto')} className="px-1 py-0.5 text-[10px] font-bold text-muted-foreground hover:bg-muted rounded" title="Negrita">B</button>
             <button onClick={() => insertAtCursor('*', '*', 'texto')} className="px-1 py-0.5 text-[10px] italic text-muted-foreground hover:bg-muted rounded" title="Cursiva">I</button>
             <button onClick={() => insertAtCursor('`', '`', 'codigo')} className="px-1 py-0.5 text-[10px] font-mono text-muted-foreground hover:bg-muted rounded" title="Codigo">&lt;&gt;</button>
+            <button onClick={() => insertAtCursor('$', '$', 'x^2')} className="px-1 py-0.5 text-[10px] text-muted-foreground hover:bg-muted rounded" title="Formula (LaTeX)">∑</button>
+            <button onClick={() => insertAtCursor('\n```mermaid\n', '\n```\n', 'flowchart TD\n  A --> B')} className="px-1 py-0.5 text-[10px] text-muted-foreground hover:bg-muted rounded" title="Diagrama (Mermaid)">◇</button>
             <div className="relative">
               <button onClick={() => setShowColorPicker(!showColorPicker)} className="px-1 py-0.5 text-[10px] text-muted-foreground hover:bg-muted rounded" title="Color">A</button>
               {showColorPicker && (
@@ -151,7 +152,7 @@ function MiniMarkdown({ cell, onUpdate, onDelete, onMoveUp, onMoveDown, isFirst,
         </div>
       ) : (
         <div className="p-1 prose prose-xs max-w-none cursor-pointer hover:bg-muted/50 min-h-[20px] text-foreground text-xs" onClick={() => setIsEditing(true)}>
-          {content ? <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw]}>{content}</ReactMarkdown> : <p className="text-muted-foreground italic text-[10px]">Clic para editar...</p>}
+          {content ? <MarkdownPreview content={content} onDiagramToImage={onInsertImage} /> : <p className="text-muted-foreground italic text-[10px]">Clic para editar...</p>}
         </div>
       )}
     </div>
@@ -420,7 +421,7 @@ function MiniDrawing({ cell, onUpdate, onDelete, onMoveUp, onMoveDown, isFirst,
   ];
 
   return (
-    <div className="group/mini relative bg-card border border-border rounded">
+    <div className="group/mini relative bg-card border border-border rounded" data-editing-cell={isEditing || undefined}>
       <div className="flex items-center gap-1 px-1 py-0.5 border-b border-border bg-muted/50">
         <span className="text-[10px] font-medium text-muted-foreground uppercase">Dibujo</span>
         <div className="flex-1" />
@@ -623,6 +624,12 @@ export default function MiniNotebook({ cells, onUpdate }: Props) {
     onUpdate([...cells, newCell]);
   };
 
+  const insertImageAfter = (id: string, dataUrl: string, alt: string) => {
+    const index = cells.findIndex(c => c.id === id);
+    const image: MiniCell = { id: uuidv4(), type: 'image', dataUrl, alt };
+    onUpdate([...cells.slice(0, index + 1), image, ...cells.slice(index + 1)]);
+  };
+
   const updateCell = (id: string, updates: Partial<MiniCell>) => {
     onUpdate(cells.map(c => c.id === id ? { ...c, ...updates } as MiniCell : c));
   };
@@ -662,6 +669,7 @@ export default function MiniNotebook({ cells, onUpdate }: Props) {
                 <MiniMarkdown
                   cell={cell}
                   onUpdate={(content) => updateCell(cell.id, { content })}
+                  onInsertImage={(dataUrl, alt) => insertImageAfter(cell.id, dataUrl, alt)}
                   onDelete={() => deleteCell(cell.id)}
                   onMoveUp={() => moveCell(cell.id, 'up')}
                   onMoveDown={() => moveCell(cell.id, 'down')}
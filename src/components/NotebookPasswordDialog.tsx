@@ -0,0 +1,136 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/encryption';
+
+interface Props {
+  notebookTitle: string;
+  hasPassword: boolean;
+  onChangePassword: (current: string | null, next: string | null) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-border rounded bg-card text-foreground';
+
+export default function NotebookPasswordDialog({ notebookTitle, hasPassword, onChangePassword, onClose }: Props) {
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isWorking) onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, isWorking]);
+
+  // Con `nextPassword` null se quita la contraseña
+  const run = (nextPassword: string | null) => {
+    setIsWorking(true);
+    setError(null);
+    onChangePassword(hasPassword ? current : null, nextPassword)
+      .then(changed => {
+        if (changed) {
+          onClose();
+        } else {
+          setError('La contrasena actual no es correcta');
+        }
+      })
+      .catch(err => {
+        console.error('Error changing notebook password:', err);
+        setError('No se pudo cifrar el notebook; no se cambio nada');
+      })
+      .finally(() => setIsWorking(false));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (next.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`La contrasena debe tener al menos ${MIN_PASSPHRASE_LENGTH} caracteres`);
+      return;
+    }
+    if (next !== confirmation) {
+      setError('Las contrasenas no coinciden');
+      return;
+    }
+    run(next);
+  };
+
+  const handleRemove = () => {
+    if (!current) {
+      setError('Ingresa la contrasena actual');
+      return;
+    }
+    if (confirm('El notebook se guardara sin contrasena. Continuar?')) {
+      run(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={() => !isWorking && onClose()}>
+      <div
+        role="dialog"
+        aria-labelledby="notebook-password-title"
+        className="w-full max-w-md bg-card text-card-foreground border border-border rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-border">
+          <h2 id="notebook-password-title" className="text-sm font-semibold truncate">
+            Contrasena de &quot;{notebookTitle}&quot;
+          </h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            El contenido del notebook se guarda cifrado y hay que ingresar la contrasena cada vez que se abre.
+            {' '}Si la olvidas no hay forma de recuperarlo.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="px-4 py-3 space-y-2">
+          {hasPassword && (
+            <input
+              type="password"
+              value={current}
+              onChange={(e) => setCurrent(e.target.value)}
+              placeholder="Contrasena actual"
+              autoComplete="current-password"
+              className={inputClass}
+            />
+          )}
+          <input
+            type="password"
+            value={next}
+            onChange={(e) => setNext(e.target.value)}
+            placeholder={hasPassword ? 'Contrasena nueva' : 'Contrasena'}
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Repetir contrasena"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <div className="flex justify-end gap-2 pt-1">
+            {hasPassword && (
+              <Button type="button" size="sm" variant="outline" onClick={handleRemove} disabled={isWorking}>
+                Quitar contrasena
+              </Button>
+            )}
+            <Button type="button" size="sm" variant="ghost" onClick={onClose} disabled={isWorking}>
+              Cancelar
+            </Button>
+            <Button type="submit" size="sm" disabled={isWorking || !next}>
+              {isWorking ? 'Cifrando...' : hasPassword ? 'Cambiar contrasena' : 'Poner contrasena'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
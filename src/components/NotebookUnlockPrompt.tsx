@@ -0,0 +1,58 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface Props {
+  notebookTitle: string;
+  onUnlock: (passphrase: string) => Promise<boolean>;
+}
+
+// Se muestra en lugar de las celdas de un notebook con contraseña todavía cifrado
+export default function NotebookUnlockPrompt({ notebookTitle, onUnlock }: Props) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    onUnlock(passphrase)
+      .then(unlocked => {
+        if (!unlocked) setError('Contrasena incorrecta');
+      })
+      .catch(() => setError('No se pudo descifrar el notebook'))
+      .finally(() => {
+        setIsUnlocking(false);
+        setPassphrase('');
+      });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-sm mx-auto py-16 space-y-4">
+      <div className="flex flex-col items-center gap-2 text-center">
+        <Lock className="h-10 w-10 text-muted-foreground/50" />
+        <h2 className="text-lg font-semibold text-muted-foreground">{notebookTitle}</h2>
+        <p className="text-sm text-muted-foreground/70">
+          Este notebook tiene contrasena. Ingresala para ver su contenido.
+        </p>
+      </div>
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder="Contrasena del notebook"
+        autoFocus
+        autoComplete="current-password"
+        className="w-full px-3 py-2 text-sm border border-border rounded bg-card text-foreground"
+      />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <Button type="submit" className="w-full" disabled={!passphrase || isUnlocking}>
+        {isUnlocking ? 'Desbloqueando...' : 'Abrir notebook'}
+      </Button>
+    </form>
+  );
+}
@@ -49,6 +49,9 @@ export default function PDFCell({ cell, onUpdate, onDelete, onMoveUp, onMoveDown
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 1000 });
   const [showAddPageMenu, setShowAddPageMenu] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
   const [customPageBackground, setCustomPageBackground] = useState<BackgroundType>('lines');
   const [isPdfLoaded, setIsPdfLoaded] = useState(false);
   const [notesWidth, setNotesWidth] = useState(320);
@@ -477,6 +480,27 @@ export default function PDFCell({ cell, onUpdate, onDelete, onMoveUp, onMoveDown
     e.target.value = '';
   };
 
+  // PDF con los dibujos estampados en las páginas (pdf-lib se carga al exportar)
+  const handleExportPdf = async (includeNotes: boolean) => {
+    setShowExportMenu(false);
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const { exportAnnotatedPdf } = await import('@/lib/pdfExport');
+      const data = await exportAnnotatedPdf(cell, { includeNotes });
+      const url = URL.createObjectURL(new Blob([data.slice()], { type: 'application/pdf' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${cell.fileName.replace(/\.pdf$/i, '') || 'documento'}-anotado.pdf`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const addPageAfterCurrent = (type: 'blank' | 'grid' | 'lines' | 'dots') => {
     const newPage: PDFPage = {
       id: uuidv4(),
@@ -578,7 +602,7 @@ export default function PDFCell({ cell, onUpdate, onDelete, onMoveUp, onMoveDown
   }
 
   return (
-    <div className="group relative bg-card">
+    <div className="group relative bg-card" data-editing-cell={isEditingDrawing || undefined}>
       {/* Header */}
       <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border bg-muted/50">
         <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -683,6 +707,32 @@ export default function PDFCell({ cell, onUpdate, onDelete, onMoveUp, onMoveDown
           )}
         </div>
 
+        {/* Export menu */}
+        <div className="relative">
+          <button
+            onClick={() => setShowExportMenu(!showExportMenu)}
+            disabled={isExporting}
+            className="p-1 hover:bg-muted rounded disabled:opacity-50"
+            title={isExporting ? 'Exportando...' : 'Exportar PDF anotado'}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+          </button>
+
+          {showExportMenu && (
+            <div className="absolute right-0 top-full mt-1 bg-popover border border-border rounded-lg shadow-lg z-10 py-1 min-w-[200px]">
+              <p className="px-3 py-1 text-xs text-muted-foreground font-medium">Exportar PDF anotado:</p>
+              <button onClick={() => handleExportPdf(false)} className="w-full px-3 py-1.5 text-left text-sm hover:bg-muted">
+                Solo paginas
+              </button>
+              <button onClick={() => handleExportPdf(true)} className="w-full px-3 py-1.5 text-left text-sm hover:bg-muted">
+                Con una pagina de notas
+              </button>
+            </div>
+          )}
+        </div>
+
         {/* Delete current page */}
         {currentPage?.isCustomPage && (
           <button
@@ -697,6 +747,17 @@ export default function PDFCell({ cell, onUpdate, onDelete, onMoveUp, onMoveDown
         )}
       </div>
 
+      {exportError && (
+        <div className="flex items-center gap-2 px-3 py-1 border-b border-border text-xs text-red-600 dark:text-red-400">
+          <span className="flex-1">No se pudo exportar el PDF: {exportError}</span>
+          <button onClick={() => setExportError(null)} className="p-0.5 hover:bg-muted rounded" title="Cerrar">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      )}
+
       {/* Drawing toolbar */}
       {isEditingDrawing && (
         <div className="flex flex-wrap items-center gap-3 px-3 py-2 border-b border-border bg-muted/50">
@@ -0,0 +1,101 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { PrintOptions } from '@/components/PrintView';
+
+interface Props {
+  hasHeadings: boolean;
+  onPrint: (options: PrintOptions) => void;
+  onClose: () => void;
+}
+
+export default function PrintDialog({ hasHeadings, onPrint, onClose }: Props) {
+  const [tableOfContents, setTableOfContents] = useState(hasHeadings);
+  const [pageBreaks, setPageBreaks] = useState<PrintOptions['pageBreaks']>('auto');
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-labelledby="print-title"
+        className="w-full max-w-md bg-card text-card-foreground border border-border rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-border">
+          <h2 id="print-title" className="text-sm font-semibold">Imprimir notebook</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Solo el contenido, sin la barra lateral ni los botones. Para guardarlo como PDF elige esa opcion en el dialogo de impresion.
+          </p>
+        </div>
+
+        <div className="px-4 py-3 space-y-2">
+          <p className="text-sm font-medium">Saltos de pagina</p>
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="radio"
+              name="page-breaks"
+              checked={pageBreaks === 'auto'}
+              onChange={() => setPageBreaks('auto')}
+              className="mt-1"
+            />
+            <span>
+              Seguidas
+              <span className="block text-xs text-muted-foreground">
+                Las celdas van una detras de otra; los dibujos, imagenes y paginas de PDF no se cortan
+              </span>
+            </span>
+          </label>
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="radio"
+              name="page-breaks"
+              checked={pageBreaks === 'cell'}
+              onChange={() => setPageBreaks('cell')}
+              className="mt-1"
+            />
+            <span>
+              Una celda por pagina
+              <span className="block text-xs text-muted-foreground">
+                Cada celda empieza en una hoja nueva
+              </span>
+            </span>
+          </label>
+
+          <label className="flex items-start gap-2 text-sm pt-2">
+            <input
+              type="checkbox"
+              checked={tableOfContents}
+              onChange={(e) => setTableOfContents(e.target.checked)}
+              disabled={!hasHeadings}
+              className="mt-1"
+            />
+            <span className={hasHeadings ? undefined : 'text-muted-foreground'}>
+              Indice al principio
+              <span className="block text-xs text-muted-foreground">
+                {hasHeadings ? 'Con los titulos de las celdas de Markdown' : 'El notebook no tiene titulos de Markdown'}
+              </span>
+            </span>
+          </label>
+
+          <div className="flex justify-end gap-2 pt-1">
+            <Button size="sm" variant="ghost" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button size="sm" onClick={() => onPrint({ tableOfContents: tableOfContents && hasHeadings, pageBreaks })}>
+              Imprimir
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
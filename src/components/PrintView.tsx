@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import ReactMarkdown from 'react-markdown';
+import { Cell, Notebook, PDFCell } from '@/types/notebook';
+import CodeOutputs from '@/components/CodeOutputs';
+import { dataUrlToBlob } from '@/lib/assets';
+import { getMarkdownHeadings } from '@/lib/cells';
+import { rehypePlugins, remarkPlugins } from '@/lib/markdown';
+import { renderPdfPages } from '@/lib/pdf';
+
+/* eslint-disable @next/next/no-img-element -- la impresión espera a que cada <img> termine de decodificar; next/image las carga en diferido y no optimiza data URLs */
+
+export interface PrintOptions {
+  tableOfContents: boolean;
+  pageBreaks: 'auto' | 'cell'; // 'cell': cada celda empieza en una página nueva
+}
+
+interface Props {
+  notebook: Notebook;
+  options: PrintOptions;
+  onDone: () => void;
+}
+
+// El doble del ancho de pantalla de PDFCell, para que las páginas salgan nítidas en papel
+const PDF_PRINT_WIDTH = 1600;
+
+type PageImages = Map<string, Map<number, string>>; // id de celda -> número de página -> imagen
+
+// Texto entre comillas para `content:` de CSS
+function cssString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\s+/g, ' ')}"`;
+}
+
+async function renderPdfCells(cells: Cell[]): Promise<PageImages> {
+  const images: PageImages = new Map();
+  for (const cell of cells) {
+    if (cell.type !== 'pdf' || !cell.pdfData) continue;
+    try {
+      const data = new Uint8Array(await dataUrlToBlob(cell.pdfData).arrayBuffer());
+      const pageNumbers = cell.pages.flatMap(page => (page.pageNumber !== null && !page.isCustomPage ? [page.pageNumber] : []));
+      images.set(cell.id, await renderPdfPages(data, pageNumbers, PDF_PRINT_WIDTH));
+    } catch (error) {
+      console.error('Error rendering PDF for print:', error);
+    }
+  }
+  return images;
+}
+
+function PrintPdfCell({ cell, images }: { cell: PDFCell; images: Map<number, string> | undefined }) {
+  return (
+    <>
+      {cell.pages.map((page, i) => {
+        const background = page.pageNumber !== null && !page.isCustomPage ? images?.get(page.pageNumber) : undefined;
+        const overlay = page.isCustomPage ? page.customDrawingDataUrl : page.drawingDataUrl;
+        return (
+          <figure key={page.id} className="print-pdf-page">
+            <div className={`print-pdf-sheet${background ? '' : ' custom'}`}>
+              {background && <img src={background} alt={`${cell.fileName} - pagina ${i + 1}`} />}
+              {overlay && <img src={overlay} alt="" className={background ? 'overlay' : undefined} />}
+            </div>
+            <figcaption>{cell.fileName} - pagina {i + 1} de {cell.pages.length}</figcaption>
+          </figure>
+        );
+      })}
+    </>
+  );
+}
+
+function PrintCell({ cell, images }: { cell: Cell; images: PageImages }) {
+  switch (cell.type) {
+    case 'markdown':
+      return (
+        <div className="prose max-w-none">
+          <ReactMarkdown remarkPlugins={remarkPlugins} rehypePlugins={rehypePlugins}>{cell.content}</ReactMarkdown>
+        </div>
+      );
+    case 'drawing':
+      return cell.dataUrl ? <img src={cell.dataUrl} alt="Dibujo" className="print-media" /> : null;
+    case 'image':
+      return cell.dataUrl ? <img src={cell.dataUrl} alt={cell.alt || 'Imagen'} className="print-media" /> : null;
+    case 'pdf':
+      return <PrintPdfCell cell={cell} images={images.get(cell.id)} />;
+    case 'code':
+      return (
+        <>
+          <pre className="print-code"><code>{cell.source}</code></pre>
+          {cell.outputs.length > 0 && <CodeOutputs outputs={cell.outputs} />}
+        </>
+      );
+  }
+}
+
+function isEmpty(cell: Cell): boolean {
+  switch (cell.type) {
+    case 'markdown':
+      return !cell.content.trim();
+    case 'drawing':
+    case 'image':
+      return !cell.dataUrl;
+    case 'pdf':
+      return cell.pages.length === 0;
+    case 'code':
+      return !cell.source.trim() && cell.outputs.length === 0;
+  }
+}
+
+/**
+ * Versión para imprimir (o guardar como PDF) del notebook. Se monta fuera de
+ * la app con un portal; en pantalla no se ve y al imprimir es lo único
+ * visible (ver `.print-view` en globals.css). Cuando las páginas de los PDFs
+ * están renderizadas y las imágenes decodificadas abre el diálogo de
+ * impresión, y al cerrarlo llama a `onDone`.
+ */
+export default function PrintView({ notebook, options, onDone }: Props) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onDoneRef = useRef(onDone);
+  const [pageImages, setPageImages] = useState<PageImages | null>(null);
+
+  useEffect(() => {
+    onDoneRef.current = onDone;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    renderPdfCells(notebook.cells).then(images => {
+      if (!cancelled) setPageImages(images);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [notebook.cells]);
+
+  useEffect(() => {
+    if (!pageImages) return;
+    let cancelled = false;
+    const handleAfterPrint = () => onDoneRef.current();
+    const images = Array.from(containerRef.current?.querySelectorAll('img') ?? []);
+    Promise.all(images.map(img => img.decode().catch(() => undefined))).then(() => {
+      if (cancelled) return;
+      window.addEventListener('afterprint', handleAfterPrint, { once: true });
+      window.print();
+    });
+    return () => {
+      cancelled = true;
+      window.removeEventListener('afterprint', handleAfterPrint);
+    };
+  }, [pageImages]);
+
+  const cells = notebook.cells.filter(cell => !isEmpty(cell));
+  const headings = options.tableOfContents
+    ? cells.flatMap(cell => (cell.type === 'markdown' ? getMarkdownHeadings(cell.content).map(h => ({ ...h, cellId: cell.id })) : []))
+    : [];
+  const minLevel = Math.min(...headings.map(h => h.level));
+
+  // Encabezado y pie de cada hoja; los navegadores sin cajas de margen de @page solo los ignoran
+  const pageStyle = `@page {
+  margin: 18mm 15mm;
+  @top-center { content: ${cssString(notebook.title)}; font-size: 9pt; color: #6b7280; }
+  @bottom-center { content: "Pagina " counter(page) " de " counter(pages); font-size: 9pt; color: #6b7280; }
+}`;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 print:hidden">
+        <p className="px-4 py-3 text-sm bg-card text-card-foreground border border-border rounded-lg shadow-lg">
+          {pageImages ? 'Imprimiendo...' : 'Preparando impresion...'}
+        </p>
+      </div>
+      {createPortal(
+        <div
+          ref={containerRef}
+          className={`print-view${options.pageBreaks === 'cell' ? ' print-break-cells' : ''}`}
+        >
+          <style>{pageStyle}</style>
+          <h1 className="print-title">{notebook.title}</h1>
+          {headings.length > 0 && (
+            <nav className="print-toc">
+              <h2>Indice</h2>
+              <ol>
+                {headings.map((heading, i) => (
+                  <li key={i} style={{ marginLeft: `${(heading.level - minLevel) * 1.25}rem` }}>
+                    <a href={`#print-cell-${heading.cellId}`}>{heading.text}</a>
+                  </li>
+                ))}
+              </ol>
+            </nav>
+          )}
+          {pageImages && cells.map(cell => (
+            <section key={cell.id} id={`print-cell-${cell.id}`} className={`print-cell print-cell-${cell.type}`}>
+              <PrintCell cell={cell} images={pageImages} />
+            </section>
+          ))}
+        </div>,
+        document.body
+      )}
+    </>
+  );
+}
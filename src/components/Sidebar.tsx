@@ -1,7 +1,12 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import { Project, Notebook } from '@/types/notebook';
+import { Project, Notebook, TrashItem } from '@/types/notebook';
+import { isXournalFile } from '@/lib/xournal';
+import TrashPanel from './TrashPanel';
+
+// webkitdirectory no está en los tipos de React; permite elegir una carpeta entera
+const folderInputProps = { webkitdirectory: '' };
 
 interface SidebarProps {
   projects: Project[];
@@ -15,7 +20,17 @@ interface SidebarProps {
   onRenameProject: (id: string, name: string) => void;
   onDeleteProject: (id: string) => void;
   onMoveNotebook: (id: string, projectId: string | undefined) => void;
-  onImportNotebook: (file: File, projectId?: string) => void;
+  onImportNotebook: (file: File, projectId?: string, background?: File) => void;
+  onExportProject: (id: string) => void;
+  onImportProject: (file: File, parentId: string | null) => void;
+  onImportFolder: (files: File[], parentId: string | null) => void;
+  onOpenBackup: () => void;
+  trash: TrashItem[];
+  trashRetentionDays: number;
+  onRestoreTrashItem: (id: string) => void;
+  onDeleteTrashItem: (id: string) => void;
+  onEmptyTrash: () => void;
+  onSetTrashRetentionDays: (days: number) => void;
   isCollapsed: boolean;
   onToggleCollapse: () => void;
 }
@@ -31,6 +46,9 @@ interface ProjectItemProps {
   onRenameProject: (id: string, name: string) => void;
   onDeleteProject: (id: string) => void;
   onMoveNotebook: (id: string, projectId: string | undefined) => void;
+  onExportProject: (id: string) => void;
+  onImportProject: (file: File, parentId: string | null) => void;
+  onImportFolder: (files: File[], parentId: string | null) => void;
   activeNotebookId: string | null;
 }
 
@@ -45,6 +63,9 @@ function ProjectItem({
   onRenameProject,
   onDeleteProject,
   onMoveNotebook,
+  onExportProject,
+  onImportProject,
+  onImportFolder,
   activeNotebookId,
 }: ProjectItemProps) {
   const [isExpanded, setIsExpanded] = useState(true);
@@ -52,6 +73,8 @@ function ProjectItem({
   const [editName, setEditName] = useState(project.name);
   const [showMenu, setShowMenu] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
   const children = getProjectChildren(project.id);
   const hasChildren = children.projects.length > 0 || children.notebooks.length > 0;
@@ -191,6 +214,34 @@ function ProjectItem({
               + Nueva Subcarpeta
             </button>
             <hr className="my-1 border-border" />
+            <button
+              onClick={() => {
+                onExportProject(project.id);
+                setShowMenu(false);
+              }}
+              className="w-full text-left px-3 py-1.5 text-sm text-popover-foreground hover:bg-muted"
+            >
+              Exportar proyecto
+            </button>
+            <button
+              onClick={() => {
+                importInputRef.current?.click();
+                setShowMenu(false);
+              }}
+              className="w-full text-left px-3 py-1.5 text-sm text-popover-foreground hover:bg-muted"
+            >
+              Importar proyecto aqui
+            </button>
+            <button
+              onClick={() => {
+                folderInputRef.current?.click();
+                setShowMenu(false);
+              }}
+              className="w-full text-left px-3 py-1.5 text-sm text-popover-foreground hover:bg-muted"
+            >
+              Importar carpeta de Markdown aqui
+            </button>
+            <hr className="my-1 border-border" />
             <button
               onClick={() => {
                 setIsEditing(true);
@@ -202,7 +253,7 @@ function ProjectItem({
             </button>
             <button
               onClick={() => {
-                if (confirm(`Eliminar el proyecto "${project.name}" y todas sus subcarpetas?`)) {
+                if (confirm(`Mover el proyecto "${project.name}" y todas sus subcarpetas a la papelera?`)) {
                   onDeleteProject(project.id);
                 }
                 setShowMenu(false);
@@ -213,6 +264,29 @@ function ProjectItem({
             </button>
           </div>
         )}
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportProject(file, project.id);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          {...folderInputProps}
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            if (files.length > 0) onImportFolder(files, project.id);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
       </div>
 
       {isExpanded && hasChildren && (
@@ -230,6 +304,9 @@ function ProjectItem({
               onRenameProject={onRenameProject}
               onDeleteProject={onDeleteProject}
               onMoveNotebook={onMoveNotebook}
+              onExportProject={onExportProject}
+              onImportProject={onImportProject}
+              onImportFolder={onImportFolder}
               activeNotebookId={activeNotebookId}
             />
           ))}
@@ -269,9 +346,7 @@ function NotebookItem({
 
   const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (confirm(`Eliminar el notebook "${notebook.title}"?`)) {
-      onDeleteNotebook(notebook.id);
-    }
+    onDeleteNotebook(notebook.id);
   };
 
   return (
@@ -303,11 +378,28 @@ function NotebookItem({
 
       <span className="flex-1 text-sm truncate">{notebook.title}</span>
 
+      {notebook.lock && (
+        <svg
+          className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          aria-label="Protegido con contrasena"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+          />
+        </svg>
+      )}
+
       {/* Direct delete button - visible on hover */}
       <button
         onClick={handleDelete}
         className="opacity-0 group-hover:opacity-100 p-0.5 text-red-400 hover:text-red-600 hover:bg-red-100 dark:hover:bg-red-900/30 rounded flex-shrink-0"
-        title="Eliminar notebook"
+        title="Mover a la papelera"
       >
         <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -330,10 +422,21 @@ export default function Sidebar({
   onDeleteProject,
   onMoveNotebook,
   onImportNotebook,
+  onExportProject,
+  onImportProject,
+  onImportFolder,
+  onOpenBackup,
+  trash,
+  trashRetentionDays,
+  onRestoreTrashItem,
+  onDeleteTrashItem,
+  onEmptyTrash,
+  onSetTrashRetentionDays,
   isCollapsed,
   onToggleCollapse,
 }: SidebarProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const rootChildren = getProjectChildren(null);
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -394,7 +497,7 @@ export default function Sidebar({
           <button
             onClick={() => fileInputRef.current?.click()}
             className="p-1 hover:bg-sidebar-accent rounded"
-            title="Importar notebook"
+            title="Importar notebook o proyecto"
           >
             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-sidebar-foreground" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
@@ -403,14 +506,55 @@ export default function Sidebar({
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json"
+            accept=".json,.ipynb,.zip,.xopp,.xoj,.pdf"
+            multiple
+            onChange={(e) => {
+              // Un PDF elegido junto con un .xopp es su fondo; con varios no se sabe de cuál
+              const files = Array.from(e.target.files ?? []);
+              e.target.value = '';
+              const pdf = files.find(file => /\.pdf$/i.test(file.name));
+              const others = files.filter(file => file !== pdf);
+              const xournal = others.filter(file => isXournalFile(file.name));
+              if (pdf && xournal.length > 1) {
+                alert('Elegiste un PDF con varios archivos de Xournal. Importa cada archivo de Xournal junto con su PDF de fondo por separado.');
+                return;
+              }
+              others.forEach(file => onImportNotebook(file, undefined, xournal.includes(file) ? pdf : undefined));
+              // Sin un .xopp el PDF se importa solo, y la importación explica por qué no se puede
+              if (pdf && xournal.length === 0) onImportNotebook(pdf);
+            }}
+            className="hidden"
+          />
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            className="p-1 hover:bg-sidebar-accent rounded"
+            title="Importar carpeta de Markdown (Obsidian)"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-sidebar-foreground" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2zm9 10v-6m0 0l-3 3m3-3l3 3" />
+            </svg>
+          </button>
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            {...folderInputProps}
             onChange={(e) => {
-              const file = e.target.files?.[0];
-              if (file) onImportNotebook(file);
+              const files = Array.from(e.target.files ?? []);
+              if (files.length > 0) onImportFolder(files, null);
               e.target.value = '';
             }}
             className="hidden"
           />
+          <button
+            onClick={onOpenBackup}
+            className="p-1 hover:bg-sidebar-accent rounded"
+            title="Copia de seguridad"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-sidebar-foreground" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+            </svg>
+          </button>
           <button
             onClick={onToggleCollapse}
             className="p-1 hover:bg-sidebar-accent rounded"
@@ -443,6 +587,9 @@ export default function Sidebar({
             onRenameProject={onRenameProject}
             onDeleteProject={onDeleteProject}
             onMoveNotebook={onMoveNotebook}
+            onExportProject={onExportProject}
+            onImportProject={onImportProject}
+            onImportFolder={onImportFolder}
             activeNotebookId={activeNotebookId}
           />
         ))}
@@ -465,6 +612,16 @@ export default function Sidebar({
           </div>
         )}
       </div>
+
+      {/* Trash */}
+      <TrashPanel
+        items={trash}
+        retentionDays={trashRetentionDays}
+        onRestore={onRestoreTrashItem}
+        onDelete={onDeleteTrashItem}
+        onEmpty={onEmptyTrash}
+        onSetRetentionDays={onSetTrashRetentionDays}
+      />
     </div>
   );
 }
@@ -0,0 +1,118 @@
+'use client';
+
+import { AlertTriangle, Check, HardDrive, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Notebook } from '@/types/notebook';
+import { PersistenceStatus } from '@/lib/storage';
+import { formatBytes, getNotebookSize } from '@/lib/storageSize';
+
+interface Props {
+  status: PersistenceStatus;
+  notebook: Notebook | null;
+  onRetry: () => void;
+}
+
+const cellTypeLabels = {
+  markdown: 'Md',
+  drawing: 'Dibujo',
+  image: 'Img',
+  pdf: 'PDF',
+  code: 'Cod',
+};
+
+const stateLabels = {
+  saved: 'Guardado',
+  saving: 'Guardando...',
+  failed: 'Error al guardar',
+  'near-quota': 'Casi sin espacio',
+};
+
+export function StorageStatus({ status, notebook, onRetry }: Props) {
+  const size = notebook ? getNotebookSize(notebook) : null;
+  const usageRatio = status.estimate ? status.estimate.usage / status.estimate.quota : 0;
+
+  const icon =
+    status.state === 'saving' ? <Loader2 className="h-4 w-4 animate-spin" /> :
+    status.state === 'failed' ? <AlertTriangle className="h-4 w-4 text-destructive" /> :
+    status.state === 'near-quota' ? <HardDrive className="h-4 w-4 text-amber-500" /> :
+    <Check className="h-4 w-4 text-green-600 dark:text-green-400" />;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-8 px-2 text-xs ${status.state === 'failed' ? 'text-destructive hover:text-destructive' : 'text-muted-foreground'}`}
+          title={status.error || stateLabels[status.state]}
+        >
+          {icon}
+          <span className="hidden sm:inline">{stateLabels[status.state]}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>{stateLabels[status.state]}</DropdownMenuLabel>
+        {status.error && (
+          <p className="px-2 pb-1.5 text-xs text-destructive">
+            {status.error}. Los cambios siguen en memoria; no cierres la pestaña hasta que se guarden.
+          </p>
+        )}
+        {status.lastSavedAt && (
+          <p className="px-2 pb-1.5 text-xs text-muted-foreground">
+            Ultimo guardado: {new Date(status.lastSavedAt).toLocaleTimeString()}
+          </p>
+        )}
+        {status.estimate && (
+          <div className="px-2 pb-2">
+            <div className="flex justify-between text-xs text-muted-foreground mb-1">
+              <span>Almacenamiento usado</span>
+              <span>{formatBytes(status.estimate.usage)} / {formatBytes(status.estimate.quota)}</span>
+            </div>
+            <div className="h-1.5 rounded bg-muted overflow-hidden">
+              <div
+                className={`h-full ${status.state === 'near-quota' ? 'bg-amber-500' : 'bg-primary'}`}
+                style={{ width: `${Math.min(100, usageRatio * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {(status.state === 'failed' || status.state === 'near-quota') && (
+          <DropdownMenuItem onClick={onRetry}>
+            Reintentar guardado
+          </DropdownMenuItem>
+        )}
+
+        {size && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="flex justify-between text-xs">
+              <span>Espacio del notebook</span>
+              <span className="text-muted-foreground">{formatBytes(size.total)}</span>
+            </DropdownMenuLabel>
+            {size.cells.length === 0 ? (
+              <p className="px-2 pb-1.5 text-xs text-muted-foreground italic">Sin celdas</p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto">
+                {size.cells.map((cell) => (
+                  <div key={cell.cellId} className="flex items-center gap-2 px-2 py-0.5 text-xs">
+                    <span className="w-12 flex-shrink-0 text-muted-foreground">{cellTypeLabels[cell.type]}</span>
+                    <span className="flex-1 truncate" title={cell.label}>#{cell.index + 1} {cell.label}</span>
+                    <span className="flex-shrink-0 text-muted-foreground">{formatBytes(cell.bytes)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
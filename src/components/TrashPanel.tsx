@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { TrashItem } from '@/types/notebook';
+import { cellTypeLabels, getCellLabel } from '@/lib/cells';
+
+interface Props {
+  items: TrashItem[];
+  retentionDays: number;
+  onRestore: (id: string) => void;
+  onDelete: (id: string) => void;
+  onEmpty: () => void;
+  onSetRetentionDays: (days: number) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function itemTitle(item: TrashItem): string {
+  switch (item.kind) {
+    case 'notebook':
+      return item.notebook.title;
+    case 'project': {
+      // El proyecto raíz del subárbol es el que no tiene padre dentro del mismo
+      const ids = new Set(item.projects.map(p => p.id));
+      const root = item.projects.find(p => !p.parentId || !ids.has(p.parentId));
+      return root?.name || 'Proyecto';
+    }
+    case 'cell':
+      return item.cell ? `${cellTypeLabels[item.cell.type]}: ${getCellLabel(item.cell)}` : 'Celda protegida con contrasena';
+  }
+}
+
+// Las celdas de un notebook con contraseña siguen cifradas hasta que se desbloquea
+function isSealed(item: TrashItem): boolean {
+  return item.kind === 'cell' && !item.cell;
+}
+
+function itemLocation(item: TrashItem): string {
+  const path = item.location.length > 0 ? item.location.join(' / ') : 'Raiz';
+  if (item.kind === 'cell') {
+    return `${path} / ${item.notebookTitle} (celda ${item.index + 1})`;
+  }
+  return path;
+}
+
+function TrashIcon({ kind }: { kind: TrashItem['kind'] }) {
+  const d =
+    kind === 'project'
+      ? 'M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z'
+      : kind === 'notebook'
+      ? 'M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z'
+      : 'M4 6h16M4 12h16M4 18h7';
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={d} />
+    </svg>
+  );
+}
+
+export default function TrashPanel({
+  items,
+  retentionDays,
+  onRestore,
+  onDelete,
+  onEmpty,
+  onSetRetentionDays,
+}: Props) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="border-t border-sidebar-border">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-sidebar-foreground hover:bg-sidebar-accent"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+        </svg>
+        <span className="flex-1 text-left">Papelera</span>
+        {items.length > 0 && (
+          <span className="text-xs text-muted-foreground">{items.length}</span>
+        )}
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-3 w-3 text-muted-foreground transition-transform ${isExpanded ? '-rotate-90' : 'rotate-90'}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div className="pb-2">
+          <div className="max-h-64 overflow-y-auto">
+            {items.length === 0 ? (
+              <div className="text-center py-4 text-muted-foreground text-xs">
+                La papelera esta vacia
+              </div>
+            ) : (
+              items.map((item) => (
+                <div key={item.id} className="group px-3 py-1 hover:bg-muted">
+                  <div className="flex items-center gap-1">
+                    <TrashIcon kind={item.kind} />
+                    <span className="flex-1 text-sm text-foreground truncate" title={itemTitle(item)}>
+                      {itemTitle(item)}
+                    </span>
+                    <button
+                      onClick={() => onRestore(item.id)}
+                      disabled={isSealed(item)}
+                      className="opacity-0 group-hover:opacity-100 px-1 text-xs text-primary hover:bg-primary/10 rounded disabled:text-muted-foreground disabled:hover:bg-transparent"
+                      title={isSealed(item) ? 'Desbloquea el notebook para restaurarla' : 'Restaurar'}
+                    >
+                      Restaurar
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm(`Eliminar definitivamente "${itemTitle(item)}"?`)) {
+                          onDelete(item.id);
+                        }
+                      }}
+                      className="opacity-0 group-hover:opacity-100 p-0.5 text-red-400 hover:text-red-600 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                      title="Eliminar definitivamente"
+                    >
+                      <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                  <div className="pl-4.5 text-[10px] text-muted-foreground truncate" title={itemLocation(item)}>
+                    {itemLocation(item)}
+                  </div>
+                  <div className="pl-4.5 text-[10px] text-muted-foreground">
+                    Se borra el {new Date(item.deletedAt + retentionDays * DAY_MS).toLocaleDateString()}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="flex items-center gap-1 px-3 pt-2 text-xs text-muted-foreground">
+            <span>Borrar despues de</span>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={retentionDays}
+              onChange={(e) => {
+                const days = parseInt(e.target.value, 10);
+                if (days >= 1 && days <= 365) onSetRetentionDays(days);
+              }}
+              className="w-12 px-1 py-0.5 border border-border rounded bg-card text-foreground"
+            />
+            <span>dias</span>
+            <div className="flex-1" />
+            {items.length > 0 && (
+              <button
+                onClick={() => {
+                  if (confirm('Vaciar la papelera? Esta accion no se puede deshacer.')) {
+                    onEmpty();
+                  }
+                }}
+                className="px-1 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded"
+              >
+                Vaciar
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { ChevronDown, Redo2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { HistoryEntry } from '@/lib/history';
+
+interface Props {
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  onUndo: (entryId?: string) => void;
+  onRedo: (entryId?: string) => void;
+}
+
+function EntryItem({ entry, onSelect }: { entry: HistoryEntry; onSelect: () => void }) {
+  return (
+    <DropdownMenuItem onClick={onSelect} className="flex justify-between gap-2 text-xs">
+      <span className="truncate">{entry.label}</span>
+      <span className="flex-shrink-0 text-muted-foreground">
+        {new Date(entry.timestamp).toLocaleTimeString()}
+      </span>
+    </DropdownMenuItem>
+  );
+}
+
+export function UndoMenu({ undoStack, redoStack, onUndo, onRedo }: Props) {
+  const lastUndo = undoStack[undoStack.length - 1];
+  const nextRedo = redoStack[0];
+
+  return (
+    <div className="flex items-center">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={() => onUndo()}
+        disabled={!lastUndo}
+        title={lastUndo ? `Deshacer: ${lastUndo.label} (Ctrl+Z)` : 'Deshacer'}
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={() => onRedo()}
+        disabled={!nextRedo}
+        title={nextRedo ? `Rehacer: ${nextRedo.label} (Ctrl+Shift+Z)` : 'Rehacer'}
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-5"
+            disabled={!lastUndo && !nextRedo}
+            title="Historial de cambios"
+          >
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          {/* Elegir un paso deshace (o rehace) todos los que hay hasta él */}
+          {redoStack.length > 0 && (
+            <>
+              <DropdownMenuLabel className="text-xs">Rehacer</DropdownMenuLabel>
+              <div className="max-h-40 overflow-y-auto">
+                {[...redoStack].reverse().map((entry) => (
+                  <EntryItem key={entry.id} entry={entry} onSelect={() => onRedo(entry.id)} />
+                ))}
+              </div>
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuLabel className="text-xs">Deshacer</DropdownMenuLabel>
+          {undoStack.length === 0 ? (
+            <p className="px-2 pb-1.5 text-xs text-muted-foreground italic">Sin cambios</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto">
+              {[...undoStack].reverse().map((entry) => (
+                <EntryItem key={entry.id} entry={entry} onSelect={() => onUndo(entry.id)} />
+              ))}
+            </div>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
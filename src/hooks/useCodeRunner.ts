@@ -0,0 +1,92 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { CodeCell, CodeOutput, Notebook } from '@/types/notebook';
+import { resetCodeScope, runCode, stopCode } from '@/lib/codeRunner';
+
+type SaveOutputs = (notebookId: string, cellId: string, outputs: CodeOutput[], executionCount: number) => void;
+
+interface RunState {
+  notebookId: string;
+  cellId: string;
+  outputs: CodeOutput[]; // las que llegaron hasta ahora de la celda en ejecución
+  queued: string[]; // las celdas que faltan de "Ejecutar todo"
+}
+
+/**
+ * Ejecución de las celdas de código del notebook activo, de a una por vez.
+ * Las salidas se ven a medida que llegan y se guardan en la celda al
+ * terminar. "Ejecutar todo" recorre las celdas en orden y se detiene en la
+ * primera que termina con un error.
+ */
+export function useCodeRunner(notebook: Notebook | null, saveOutputs: SaveOutputs) {
+  const [run, setRun] = useState<RunState | null>(null);
+  const busyRef = useRef(false);
+  const cancelledRef = useRef(false);
+
+  // Cada celda se ejecuta con el código que tiene en ese momento, no el del clic
+  const notebookRef = useRef(notebook);
+  useEffect(() => {
+    notebookRef.current = notebook;
+  });
+
+  const execute = useCallback(async (cellIds: string[]) => {
+    const notebookId = notebookRef.current?.id;
+    if (!notebookId || busyRef.current) return;
+    busyRef.current = true;
+    cancelledRef.current = false;
+
+    for (let i = 0; i < cellIds.length; i++) {
+      const current = notebookRef.current;
+      // Cambiar de notebook o detener cancela las celdas que faltan
+      if (cancelledRef.current || current?.id !== notebookId) break;
+      const cell = current.cells.find((c): c is CodeCell => c.id === cellIds[i] && c.type === 'code');
+      if (!cell) continue;
+
+      setRun({ notebookId, cellId: cell.id, outputs: [], queued: cellIds.slice(i + 1) });
+      const result = await runCode(notebookId, cell.source, cell.language, output => {
+        setRun(prev => (prev?.cellId === cell.id ? { ...prev, outputs: [...prev.outputs, output] } : prev));
+      });
+      saveOutputs(notebookId, cell.id, result.outputs, result.executionCount);
+      if (result.outputs.some(output => output.type === 'error')) break;
+    }
+
+    setRun(null);
+    busyRef.current = false;
+  }, [saveOutputs]);
+
+  const runCell = useCallback((cellId: string) => {
+    execute([cellId]);
+  }, [execute]);
+
+  const runAll = useCallback(() => {
+    const cells = notebookRef.current?.cells ?? [];
+    execute(cells.filter(cell => cell.type === 'code').map(cell => cell.id));
+  }, [execute]);
+
+  const stop = useCallback(() => {
+    if (!run) return;
+    cancelledRef.current = true;
+    stopCode(run.notebookId);
+  }, [run]);
+
+  // Empieza de cero: se pierden las variables de las celdas ya ejecutadas
+  const resetScope = useCallback(() => {
+    if (!notebook) return;
+    cancelledRef.current = true;
+    resetCodeScope(notebook.id);
+  }, [notebook]);
+
+  const isActive = run !== null && run.notebookId === notebook?.id;
+
+  return {
+    isRunning: run !== null,
+    runningCellId: isActive ? run.cellId : null,
+    queuedCellIds: isActive ? run.queued : [],
+    liveOutputs: isActive ? run.outputs : [],
+    runCell,
+    runAll,
+    stop,
+    resetScope,
+  };
+}
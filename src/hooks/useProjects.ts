@@ -1,13 +1,122 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, SetStateAction } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Project, ProjectStore, Notebook, Cell, CellType } from '@/types/notebook';
+import {
+  Project,
+  ProjectStore,
+  Notebook,
+  Cell,
+  CellType,
+  CodeOutput,
+  BackupSettings,
+  ExportedNotebook,
+  TrashedCell,
+  TrashedNotebook,
+  TrashedProject,
+  TrashItem,
+} from '@/types/notebook';
+import {
+  loadProjectStore,
+  saveProjectStore,
+  writeJournal,
+  clearJournal,
+  getStorageEstimate,
+  isQuotaExceededError,
+  NEAR_QUOTA_RATIO,
+  PersistenceStatus,
+  StorageEstimate,
+  StoreLockedError,
+  changeStorePassphrase,
+  isStoreEncrypted,
+  lockStore,
+  unlockStore,
+  loadReadableSnapshots,
+  saveSnapshot,
+  packSyncMessage,
+  unpackSyncMessage,
+} from '@/lib/storage';
+import {
+  CURRENT_SCHEMA_VERSION,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  migrateNotebook,
+  SchemaVersionError,
+} from '@/lib/migrations';
+import { validateNotebook, ImportError, ValidationIssue } from '@/lib/validation';
+import { ipynbToNotebook, isIpynb, notebookToIpynb } from '@/lib/jupyter';
+import { markdownZipToNotebook, notebookToMarkdownZip } from '@/lib/markdownArchive';
+import { notebookToHtml } from '@/lib/htmlExport';
+import { readVault, VaultFolder } from '@/lib/vault';
+import { isXournalFile, xournalToNotebook } from '@/lib/xournal';
+import { bundleNotebookAssets, resolveAssetRefs } from '@/lib/assets';
+import {
+  createBackup,
+  createProjectArchive,
+  importProjectTree,
+  isProjectArchive,
+  mergeBackup,
+  openBackup,
+  parseBackup,
+  parseProjectArchive,
+  replaceWithBackup,
+  RestoreMode,
+} from '@/lib/backup';
+import {
+  checkNotebookPassphrase,
+  forgetNotebookKey,
+  forgetNotebookKeys,
+  isNotebookLocked,
+  openSyncMessage,
+  openTrashItem,
+  protectNotebook,
+  sealNotebook,
+  sealSyncMessage,
+  sealTrashItem,
+  unlockedNotebookIds,
+  unlockNotebookCells,
+} from '@/lib/notebookLock';
+import {
+  getNotebookHistory,
+  HistoryChange,
+  HistoryMap,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+} from '@/lib/history';
+import {
+  advanceSyncBase,
+  applySyncMessage,
+  bumpRevisions,
+  collectSyncMessage,
+  createSyncBase,
+  SYNC_CHANNEL,
+  SyncBase,
+  SyncConflict,
+  SyncMessage,
+} from '@/lib/sync';
 
-const STORAGE_KEY = 'personal-notebook-projects';
-const OLD_STORAGE_KEY = 'personal-notebook-data';
 const DEFAULT_CANVAS_WIDTH = 800;
 const DEFAULT_CANVAS_HEIGHT = 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Con la pestaña abierta, cada cuánto se elimina lo que venció en la papelera
+const TRASH_PURGE_CHECK_MS = 60 * 60 * 1000;
+// Los cambios seguidos (por ejemplo, escribir el título) se guardan juntos
+const SAVE_DEBOUNCE_MS = 500;
+// Con cifrado, el store se bloquea tras este tiempo sin actividad
+const AUTO_LOCK_MS = 10 * 60 * 1000;
+const AUTO_LOCK_CHECK_MS = 30 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Celdas en la papelera que se borraron del notebook
+function trashedCellsOf(trash: TrashItem[], notebookId: string): TrashedCell[] {
+  return trash.filter((item): item is TrashedCell => item.kind === 'cell' && item.notebookId === notebookId);
+}
+
+// Reemplaza los elementos de la papelera con el mismo id; los demás quedan igual
+function replaceTrashItems(trash: TrashItem[], items: TrashItem[]): TrashItem[] {
+  const byId = new Map(items.map(item => [item.id, item]));
+  return trash.map(item => byId.get(item.id) ?? item);
+}
 
 function createCell(type: CellType): Cell {
   const now = Date.now();
@@ -39,6 +148,8 @@ function createCell(type: CellType): Cell {
         pages: [],
         totalOriginalPages: 0,
       };
+    case 'code':
+      return { ...base, type: 'code', language: 'javascript', source: '', outputs: [], executionCount: null };
   }
 }
 
@@ -71,62 +182,418 @@ function createInitialStore(): ProjectStore {
     projects: [],
     notebooks: [notebook],
     activeNotebookId: notebook.id,
+    trash: [],
+    trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
   };
 }
 
-function migrateOldData(): ProjectStore | null {
-  try {
-    const oldData = localStorage.getItem(OLD_STORAGE_KEY);
-    if (oldData) {
-      const oldNotebook = JSON.parse(oldData) as Notebook;
-      // Asignar projectId como undefined (sin proyecto)
-      oldNotebook.projectId = undefined;
-      return {
-        projects: [],
-        notebooks: [oldNotebook],
-        activeNotebookId: oldNotebook.id,
-      };
-    }
-  } catch {
-    // Ignorar errores de migración
+function downloadJson(data: unknown, fileName: string) {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), fileName);
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function findProjectPath(projects: Project[], projectId: string | null | undefined): Project[] {
+  if (!projectId) return [];
+  const path: Project[] = [];
+  let current = projects.find(p => p.id === projectId);
+  while (current) {
+    path.unshift(current);
+    current = current.parentId
+      ? projects.find(p => p.id === current!.parentId)
+      : undefined;
+  }
+  return path;
+}
+
+// Elimina definitivamente lo que lleva en la papelera más días que los configurados
+function purgeExpiredTrash(store: ProjectStore, now = Date.now()): ProjectStore {
+  const limit = now - store.trashRetentionDays * DAY_MS;
+  const trash = store.trash.filter(item => item.deletedAt >= limit);
+  return trash.length === store.trash.length ? store : { ...store, trash };
+}
+
+function describeSaveError(error: unknown): string {
+  if (isQuotaExceededError(error)) {
+    return 'No hay espacio suficiente en el almacenamiento del navegador';
+  }
+  return error instanceof Error ? error.message : 'Error desconocido al guardar';
+}
+
+function describeLoadError(error: unknown): string {
+  if (error instanceof SchemaVersionError) {
+    return 'Los datos guardados son de una version mas nueva de la aplicacion';
   }
-  return null;
+  return `No se pudieron cargar los datos guardados${error instanceof Error ? `: ${error.message}` : ''}`;
+}
+
+const cellTypeNames: Record<CellType, string> = {
+  markdown: 'Markdown',
+  drawing: 'dibujo',
+  image: 'imagen',
+  pdf: 'PDF',
+  code: 'codigo',
+};
+
+const trashRestoreLabels: Record<TrashItem['kind'], string> = {
+  notebook: 'Restaurar notebook',
+  project: 'Restaurar proyecto',
+  cell: 'Restaurar celda',
+};
+
+interface ProjectsState {
+  store: ProjectStore | null;
+  history: HistoryMap;
+  conflicts: SyncConflict[]; // celdas editadas a la vez en otra pestaña, pendientes de resolver
+}
+
+interface SaveResult {
+  store: ProjectStore;
+  error: string | null;
+  savedAt: number | null;
 }
 
 export function useProjects() {
-  const [store, setStore] = useState<ProjectStore | null>(null);
+  const [state, setState] = useState<ProjectsState>({ store: null, history: {}, conflicts: [] });
+  const { store, history, conflicts } = state;
   const [isLoading, setIsLoading] = useState(true);
+  // Si la carga falla no se guarda nada, para no pisar los datos existentes
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [importError, setImportError] = useState<ImportError | null>(null);
+  // Datos cifrados sin desbloquear: no hay store en memoria hasta ingresar la contraseña
+  const [isLocked, setIsLocked] = useState(false);
+  const [isEncrypted, setIsEncrypted] = useState(false);
+
+  // Las mutaciones con `change` quedan en el historial de cada notebook que modifican
+  // `change` puede depender del store anterior (p. ej. qué se restauró de la papelera)
+  const setStore = useCallback((
+    action: SetStateAction<ProjectStore | null>,
+    change?: HistoryChange | ((prev: ProjectStore) => HistoryChange)
+  ) => {
+    setState(prev => {
+      const next = bumpRevisions(prev.store, typeof action === 'function' ? action(prev.store) : action);
+      if (next === prev.store) return prev;
+      return {
+        ...prev,
+        store: next,
+        history: change && prev.store && next
+          ? recordHistory(prev.history, prev.store, next, typeof change === 'function' ? change(prev.store) : change)
+          : prev.history,
+      };
+    });
+  }, []);
 
-  // Load from localStorage on mount
+  // Lo último que se guardó bien: los guardados siguientes solo escriben la diferencia
+  const savedRef = useRef<ProjectStore | null>(null);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Load from IndexedDB on mount (migra localStorage la primera vez)
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        setStore(JSON.parse(saved));
-      } else {
-        // Intentar migrar datos antiguos
-        const migrated = migrateOldData();
-        if (migrated) {
-          setStore(migrated);
-        } else {
-          setStore(createInitialStore());
+    let cancelled = false;
+    loadProjectStore()
+      .then(loaded => {
+        if (cancelled) return;
+        savedRef.current = loaded;
+        setStore(loaded ? purgeExpiredTrash(loaded) : createInitialStore());
+        setIsEncrypted(isStoreEncrypted());
+      })
+      .catch(error => {
+        if (cancelled) return;
+        if (error instanceof StoreLockedError) {
+          setIsEncrypted(true);
+          setIsLocked(true);
+          return;
         }
-      }
-    } catch {
+        console.error('Error loading store:', error);
+        setLoadError(describeLoadError(error));
+        setStore(createInitialStore());
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [setStore]);
+
+  // Resultado del último guardado: el estado se deriva comparando con el store actual
+  const [saveResult, setSaveResult] = useState<SaveResult | null>(null);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  // Store más reciente que se puede guardar (null mientras carga o si la carga falló)
+  const pendingRef = useRef<ProjectStore | null>(null);
+  useEffect(() => {
+    pendingRef.current = store && !isLoading && !loadError ? store : null;
+  });
+
+  // Al bloquear se descarta lo que hay en memoria; al desbloquear se vuelve a cargar
+  const closeSession = useCallback(() => {
+    lockStore();
+    forgetNotebookKeys();
+    savedRef.current = null;
+    setState({ store: null, history: {}, conflicts: [] });
+    setSaveResult(null);
+    setIsLocked(true);
+  }, []);
+
+  // Los guardados van en cola para que cada uno parta de lo que dejó el anterior
+  const persist = useCallback((target: ProjectStore) => {
+    const save = () => saveProjectStore(target, savedRef.current)
+      .then(() => {
+        savedRef.current = target;
+        if (target === pendingRef.current) clearJournal();
+        setSaveResult({ store: target, error: null, savedAt: Date.now() });
+      })
+      .catch(error => {
+        // Otra pestaña activó, cambió o quitó la contraseña
+        if (error instanceof StoreLockedError) {
+          closeSession();
+          return;
+        }
+        console.error('Error saving store:', error);
+        setSaveResult(prev => ({ store: target, error: describeSaveError(error), savedAt: prev?.savedAt ?? null }));
+      })
+      .then(() => getStorageEstimate())
+      .then(setEstimate)
+      .catch(() => {
+        // La estimación es informativa, no bloquea el guardado
+      });
+    saveQueueRef.current = saveQueueRef.current.then(save);
+    return saveQueueRef.current;
+  }, [closeSession]);
+
+  // Save to IndexedDB on changes (con debounce)
+  useEffect(() => {
+    if (!store || isLoading || loadError) return;
+    const timer = setTimeout(() => persist(store), SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [store, isLoading, loadError, persist]);
+
+  // Al ocultar o cerrar la pestaña no se espera el debounce: los cambios
+  // pendientes se escriben ya en el journal (síncrono) y se guardan en IndexedDB
+  useEffect(() => {
+    const flush = (): boolean => {
+      const pending = pendingRef.current;
+      if (!pending || pending === savedRef.current) return true;
+      const journaled = writeJournal(pending, savedRef.current);
+      persist(pending);
+      return journaled;
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (!flush()) e.preventDefault();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+    };
+  }, [persist]);
+
+  const current = store && saveResult?.store === store && !isRetrying ? saveResult : null;
+  const persistence: PersistenceStatus = {
+    state: loadError
+      ? 'failed'
+      : !current
+      ? 'saving'
+      : current.error
+      ? 'failed'
+      : estimate && estimate.usage / estimate.quota >= NEAR_QUOTA_RATIO
+      ? 'near-quota'
+      : 'saved',
+    error: loadError ?? current?.error ?? null,
+    lastSavedAt: saveResult?.savedAt ?? null,
+    estimate,
+  };
+
+  // Reintenta guardar el store que está en memoria (nunca se descarta).
+  // Si lo que falló fue la carga, se reintenta cargar en lugar de guardar.
+  const retrySave = useCallback(() => {
+    if (!store) return;
+    setIsRetrying(true);
+    if (loadError) {
+      loadProjectStore()
+        .then(loaded => {
+          setLoadError(null);
+          savedRef.current = loaded;
+          if (loaded) setStore(purgeExpiredTrash(loaded));
+        })
+        .catch(error => setLoadError(describeLoadError(error)))
+        .finally(() => setIsRetrying(false));
+      return;
+    }
+    persist(store).finally(() => setIsRetrying(false));
+  }, [store, loadError, persist, setStore]);
+
+  // Avisar antes de cerrar si el último guardado falló
+  const hasUnsavedChanges = persistence.state === 'failed';
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  // === Cifrado ===
+
+  const unlock = useCallback(async (passphrase: string): Promise<boolean> => {
+    if (!(await unlockStore(passphrase))) return false;
+    try {
+      const loaded = await loadProjectStore();
+      savedRef.current = loaded;
+      setStore(loaded ? purgeExpiredTrash(loaded) : createInitialStore());
+      setLoadError(null);
+    } catch (error) {
+      if (error instanceof StoreLockedError) return false;
+      console.error('Error loading store:', error);
+      setLoadError(describeLoadError(error));
       setStore(createInitialStore());
     }
-    setIsLoading(false);
+    setIsEncrypted(isStoreEncrypted());
+    setIsLocked(false);
+    return true;
+  }, [setStore]);
+
+  // Antes de bloquear se guarda lo pendiente; si no se puede, no se bloquea para no perderlo
+  const lock = useCallback(async () => {
+    const pending = pendingRef.current;
+    if (pending && pending !== savedRef.current) await persist(pending);
+    if (pendingRef.current && pendingRef.current !== savedRef.current) return;
+    closeSession();
+  }, [persist, closeSession]);
+
+  /**
+   * Activa el cifrado (`current` null), cambia la contraseña o lo quita
+   * (`next` null). Va en la cola de guardado, después de lo pendiente.
+   */
+  const changePassphrase = useCallback((current: string | null, next: string | null): Promise<boolean> => {
+    const pending = pendingRef.current;
+    if (pending && pending !== savedRef.current) persist(pending);
+    const result = saveQueueRef.current.then(() => changeStorePassphrase(current, next));
+    saveQueueRef.current = result.then(() => undefined, () => undefined);
+    return result.then(changed => {
+      if (changed) setIsEncrypted(next !== null);
+      return changed;
+    });
+  }, [persist]);
+
+  // Bloqueo automático por inactividad
+  const isUnlocked = !!store;
+  useEffect(() => {
+    if (!isEncrypted || !isUnlocked) return;
+    let lastActivity = Date.now();
+    const markActivity = () => {
+      lastActivity = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, markActivity, { passive: true }));
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivity >= AUTO_LOCK_MS) lock();
+    }, AUTO_LOCK_CHECK_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, markActivity));
+      clearInterval(timer);
+    };
+  }, [isEncrypted, isUnlocked, lock]);
+
+  // === Sincronización entre pestañas ===
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const syncBaseRef = useRef<SyncBase | null>(null);
+  // Cifrar y descifrar los notebooks con contraseña es asíncrono: los mensajes
+  // se envían y se aplican en cola para no cambiar el orden
+  const syncQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(SYNC_CHANNEL);
+    const receive = (message: SyncMessage) => {
+      const base = syncBaseRef.current;
+      if (!base) return;
+      syncBaseRef.current = advanceSyncBase(base, message);
+      setState(prev => {
+        if (!prev.store) return prev;
+        const result = applySyncMessage(prev.store, base, message);
+        // El historial de deshacer de esos notebooks ya no corresponde a su contenido
+        const history = { ...prev.history };
+        result.updatedIds.forEach(id => delete history[id]);
+        const replaced = new Set(result.conflicts.map(c => `${c.notebookId}/${c.cellId}`));
+        return {
+          store: result.store,
+          history,
+          conflicts: [
+            ...prev.conflicts.filter(c => !replaced.has(`${c.notebookId}/${c.cellId}`)),
+            ...result.conflicts,
+          ],
+        };
+      });
+    };
+    channel.onmessage = (e: MessageEvent<SyncMessage>) => {
+      syncQueueRef.current = syncQueueRef.current
+        .then(() => unpackSyncMessage(e.data))
+        .then(openSyncMessage)
+        .then(receive)
+        .catch(error => console.error('Error applying sync message:', error));
+    };
+    channelRef.current = channel;
+    return () => {
+      channelRef.current = null;
+      channel.close();
+    };
   }, []);
 
-  // Save to localStorage on changes
+  // Comparte con las otras pestañas lo que cambió desde el último mensaje
   useEffect(() => {
-    if (store && !isLoading) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
-    }
-  }, [store, isLoading]);
+    // Bloqueado: al desbloquear se parte del store recién cargado
+    if (!store) syncBaseRef.current = null;
+    if (!store || isLoading || loadError) return;
+    const base = syncBaseRef.current;
+    syncBaseRef.current = createSyncBase(store);
+    if (!base) return;
+    const message = collectSyncMessage(base, store);
+    if (!message) return;
+    // Los notebooks con contraseña viajan cifrados, como se guardan; los
+    // payloads de los demás, como referencias a assets
+    syncQueueRef.current = syncQueueRef.current
+      .then(() => sealSyncMessage(message))
+      .then(sealed => packSyncMessage(sealed, base))
+      .then(packed => channelRef.current?.postMessage(packed))
+      .catch(error => console.error('Error sending sync message:', error));
+  }, [store, isLoading, loadError]);
+
+  const resolveConflict = useCallback((conflict: SyncConflict, keep: 'local' | 'remote') => {
+    setState(prev => ({
+      ...prev,
+      conflicts: prev.conflicts.filter(c => c !== conflict),
+    }));
+    if (keep === 'local') return;
+    setStore(prev => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        notebooks: prev.notebooks.map(n => {
+          if (n.id !== conflict.notebookId) return n;
+          const cells = n.cells.map(c => (c.id === conflict.cellId ? conflict.remote : c));
+          return { ...n, cells, updatedAt: Date.now() };
+        }),
+      };
+    }, { label: 'Usar la version de otra pestana' });
+  }, [setStore]);
 
   // === Getters ===
   const activeNotebook = store?.notebooks.find(n => n.id === store.activeNotebookId) || null;
+  const isActiveNotebookLocked = !!activeNotebook && isNotebookLocked(activeNotebook);
 
   const getProjectChildren = useCallback((parentId: string | null) => {
     if (!store) return { projects: [], notebooks: [] };
@@ -139,16 +606,8 @@ export function useProjects() {
   }, [store]);
 
   const getProjectPath = useCallback((projectId: string | null): Project[] => {
-    if (!store || !projectId) return [];
-    const path: Project[] = [];
-    let current = store.projects.find(p => p.id === projectId);
-    while (current) {
-      path.unshift(current);
-      current = current.parentId
-        ? store.projects.find(p => p.id === current!.parentId)
-        : undefined;
-    }
-    return path;
+    if (!store) return [];
+    return findProjectPath(store.projects, projectId);
   }, [store]);
 
   // === Project operations ===
@@ -161,7 +620,7 @@ export function useProjects() {
         projects: [...prev.projects, newProject],
       };
     });
-  }, []);
+  }, [setStore]);
 
   const renameProject = useCallback((id: string, name: string) => {
     setStore(prev => {
@@ -173,7 +632,7 @@ export function useProjects() {
         ),
       };
     });
-  }, []);
+  }, [setStore]);
 
   const deleteProject = useCallback((id: string) => {
     setStore(prev => {
@@ -185,22 +644,36 @@ export function useProjects() {
         return children.flatMap(c => [c.id, ...getAllChildProjectIds(c.id)]);
       };
 
+      const project = prev.projects.find(p => p.id === id);
+      if (!project) return prev;
+
       const projectIdsToDelete = [id, ...getAllChildProjectIds(id)];
 
-      // Mover notebooks huérfanos a la raíz
-      const notebooks = prev.notebooks.map(n =>
-        n.projectId && projectIdsToDelete.includes(n.projectId)
-          ? { ...n, projectId: undefined }
-          : n
-      );
+      // Mover notebooks huérfanos a la raíz, recordando dónde estaban
+      const notebookProjects: Record<string, string> = {};
+      const notebooks = prev.notebooks.map(n => {
+        if (!n.projectId || !projectIdsToDelete.includes(n.projectId)) return n;
+        notebookProjects[n.id] = n.projectId;
+        return { ...n, projectId: undefined };
+      });
+
+      const trashed: TrashedProject = {
+        id: uuidv4(),
+        kind: 'project',
+        deletedAt: Date.now(),
+        location: findProjectPath(prev.projects, project.parentId).map(p => p.name),
+        projects: prev.projects.filter(p => projectIdsToDelete.includes(p.id)),
+        notebookProjects,
+      };
 
       return {
         ...prev,
         projects: prev.projects.filter(p => !projectIdsToDelete.includes(p.id)),
         notebooks,
+        trash: [trashed, ...prev.trash],
       };
     });
-  }, []);
+  }, [setStore]);
 
   const moveProject = useCallback((id: string, newParentId: string | null) => {
     setStore(prev => {
@@ -222,7 +695,7 @@ export function useProjects() {
         ),
       };
     });
-  }, []);
+  }, [setStore]);
 
   // === Notebook operations ===
   const addNotebook = useCallback((projectId?: string) => {
@@ -235,18 +708,144 @@ export function useProjects() {
         activeNotebookId: newNotebook.id,
       };
     });
-  }, []);
+  }, [setStore]);
 
   const selectNotebook = useCallback((id: string) => {
     setStore(prev => {
       if (!prev) return prev;
       return { ...prev, activeNotebookId: id };
     });
-  }, []);
+  }, [setStore]);
+
+  // === Contraseña por notebook ===
+
+  /**
+   * Descifra en memoria las celdas de un notebook con contraseña. No es un
+   * cambio del notebook: no incrementa la revisión ni queda en el historial.
+   */
+  const unlockNotebook = useCallback(async (id: string, passphrase: string): Promise<boolean> => {
+    const notebook = store?.notebooks.find(n => n.id === id);
+    if (!notebook) return false;
+    const cells = await unlockNotebookCells(notebook, passphrase);
+    if (!cells) return false;
+    // Con la clave también se pueden ver sus celdas en la papelera
+    const trash = await Promise.all(trashedCellsOf(store?.trash ?? [], id).map(openTrashItem));
+    setState(prev => {
+      if (!prev.store) return prev;
+      return {
+        ...prev,
+        store: {
+          ...prev.store,
+          notebooks: prev.store.notebooks.map(n => (n.id === id ? { ...n, cells } : n)),
+          trash: replaceTrashItems(prev.store.trash, trash),
+        },
+      };
+    });
+    return true;
+  }, [store]);
+
+  // Vuelve a cifrar las celdas y olvida la clave; el historial de deshacer se descarta
+  const lockNotebook = useCallback(async (id: string) => {
+    const notebook = store?.notebooks.find(n => n.id === id);
+    if (!notebook?.lock || isNotebookLocked(notebook)) return;
+    const [{ lock }, trash] = await Promise.all([
+      sealNotebook(notebook),
+      Promise.all(trashedCellsOf(store?.trash ?? [], id).map(sealTrashItem)),
+    ]);
+    forgetNotebookKey(id);
+    setState(prev => {
+      if (!prev.store) return prev;
+      const history = { ...prev.history };
+      delete history[id];
+      return {
+        ...prev,
+        store: {
+          ...prev.store,
+          notebooks: prev.store.notebooks.map(n => (n.id === id ? { ...n, cells: [], lock } : n)),
+          trash: replaceTrashItems(prev.store.trash, trash),
+        },
+        history,
+      };
+    });
+  }, [store]);
 
-  const deleteNotebook = useCallback((id: string) => {
+  // Un notebook que sale del store (a la papelera, borrado en otra pestaña o
+  // reemplazado por una copia) queda como bloqueado: sus celdas de la papelera
+  // se cifran, se olvida la clave y se descarta su historial
+  useEffect(() => {
+    if (!store) return;
+    const live = new Set(store.notebooks.map(n => n.id));
+    const removed = unlockedNotebookIds().filter(id => !live.has(id));
+    if (removed.length === 0) return;
+    Promise.all(removed.flatMap(id => trashedCellsOf(store.trash, id)).map(sealTrashItem))
+      .then(trash => {
+        removed.forEach(forgetNotebookKey);
+        setState(prev => {
+          if (!prev.store) return prev;
+          const history = { ...prev.history };
+          removed.forEach(id => delete history[id]);
+          if (trash.length === 0) return { ...prev, history };
+          return { ...prev, store: { ...prev.store, trash: replaceTrashItems(prev.store.trash, trash) }, history };
+        });
+      })
+      .catch(error => console.error('Error sealing removed notebook:', error));
+  }, [store]);
+
+  /**
+   * Pone contraseña a un notebook (`current` null), la cambia o la quita
+   * (`next` null). Devuelve false si la contraseña actual no es correcta.
+   */
+  const changeNotebookPassword = useCallback(async (
+    id: string,
+    current: string | null,
+    next: string | null
+  ): Promise<boolean> => {
+    const notebook = store?.notebooks.find(n => n.id === id);
+    if (!notebook) return false;
+    const wasLocked = isNotebookLocked(notebook);
+    let cells = notebook.cells;
+    if (notebook.lock) {
+      if (current === null) return false;
+      const opened = wasLocked
+        ? await unlockNotebookCells(notebook, current)
+        : (await checkNotebookPassphrase(notebook, current)) ? notebook.cells : null;
+      if (!opened) return false;
+      cells = opened;
+    }
+    // Lo que se pueda leer con la clave actual se vuelve a cifrar con la nueva (o queda en claro si se quita)
+    const [snapshots, openedTrash] = await Promise.all([
+      loadReadableSnapshots(id),
+      Promise.all(trashedCellsOf(store?.trash ?? [], id).map(openTrashItem)),
+    ]);
+    const lock = next === null ? undefined : await protectNotebook({ ...notebook, cells }, next);
+    if (!lock) forgetNotebookKey(id);
+    for (const snapshot of snapshots) {
+      await saveSnapshot({ ...snapshot, notebook: { ...snapshot.notebook, lock } });
+    }
+    const trash = openedTrash
+      .filter((item): item is TrashedCell => item.kind === 'cell' && !!item.cell)
+      .map(item => ({ ...item, lock: lock ? { salt: lock.salt, cell: null } : undefined }));
     setStore(prev => {
       if (!prev) return prev;
+      return {
+        ...prev,
+        notebooks: prev.notebooks.map(n =>
+          n.id === id ? { ...n, cells: wasLocked ? cells : n.cells, lock, updatedAt: Date.now() } : n
+        ),
+        trash: replaceTrashItems(prev.trash, trash),
+      };
+    });
+    return true;
+  }, [store, setStore]);
+
+  // Con contraseña va cifrado a la papelera: al salir del store se olvida su clave
+  const deleteNotebook = useCallback(async (id: string) => {
+    const current = store?.notebooks.find(n => n.id === id);
+    const sealed = current?.lock ? await sealNotebook(current) : null;
+    setStore(prev => {
+      if (!prev) return prev;
+      const notebook = prev.notebooks.find(n => n.id === id);
+      if (!notebook) return prev;
       const notebooks = prev.notebooks.filter(n => n.id !== id);
 
       // Si borramos el notebook activo, seleccionar otro
@@ -255,9 +854,17 @@ export function useProjects() {
         activeNotebookId = notebooks.length > 0 ? notebooks[0].id : null;
       }
 
-      return { ...prev, notebooks, activeNotebookId };
+      const trashed: TrashedNotebook = {
+        id: uuidv4(),
+        kind: 'notebook',
+        deletedAt: Date.now(),
+        location: findProjectPath(prev.projects, notebook.projectId).map(p => p.name),
+        notebook: sealed ? { ...notebook, cells: sealed.cells, lock: sealed.lock } : notebook,
+      };
+
+      return { ...prev, notebooks, activeNotebookId, trash: [trashed, ...prev.trash] };
     });
-  }, []);
+  }, [store, setStore]);
 
   const moveNotebook = useCallback((id: string, projectId: string | undefined) => {
     setStore(prev => {
@@ -269,7 +876,7 @@ export function useProjects() {
         ),
       };
     });
-  }, []);
+  }, [setStore]);
 
   const updateNotebookTitle = useCallback((id: string, title: string) => {
     setStore(prev => {
@@ -280,14 +887,13 @@ export function useProjects() {
           n.id === id ? { ...n, title, updatedAt: Date.now() } : n
         ),
       };
-    });
-  }, []);
+    }, { label: 'Renombrar notebook', mergeKey: `title:${id}` });
+  }, [setStore]);
 
   // === Cell operations (delegadas al notebook activo) ===
-  const addCell = useCallback((type: CellType, afterId?: string) => {
+  const insertCell = useCallback((newCell: Cell, afterId?: string) => {
     setStore(prev => {
       if (!prev || !prev.activeNotebookId) return prev;
-      const newCell = createCell(type);
 
       return {
         ...prev,
@@ -309,8 +915,18 @@ export function useProjects() {
           return { ...notebook, cells, updatedAt: Date.now() };
         }),
       };
-    });
-  }, []);
+    }, { label: `Agregar celda de ${cellTypeNames[newCell.type]}` });
+  }, [setStore]);
+
+  const addCell = useCallback((type: CellType, afterId?: string) => {
+    insertCell(createCell(type), afterId);
+  }, [insertCell]);
+
+  // Celda de imagen ya cargada, p. ej. un diagrama convertido en imagen
+  const addImageCell = useCallback((dataUrl: string, alt: string, afterId?: string) => {
+    const now = Date.now();
+    insertCell({ id: uuidv4(), type: 'image', dataUrl, alt, createdAt: now, updatedAt: now }, afterId);
+  }, [insertCell]);
 
   const updateCell = useCallback((cellId: string, updates: Record<string, unknown>) => {
     setStore(prev => {
@@ -328,24 +944,62 @@ export function useProjects() {
           return { ...notebook, cells, updatedAt: Date.now() };
         }),
       };
-    });
-  }, []);
+    }, { label: 'Editar celda', mergeKey: `cell:${cellId}` });
+  }, [setStore]);
 
-  const deleteCell = useCallback((cellId: string) => {
+  // Resultado de ejecutar una celda de código. No pasa por el historial (deshacer y rehacer
+  // conservan las salidas actuales) y apunta al notebook donde se ejecutó aunque ya no sea el activo.
+  const setCodeOutputs = useCallback((notebookId: string, cellId: string, outputs: CodeOutput[], executionCount: number) => {
     setStore(prev => {
-      if (!prev || !prev.activeNotebookId) return prev;
+      if (!prev) return prev;
 
       return {
         ...prev,
         notebooks: prev.notebooks.map(notebook => {
-          if (notebook.id !== prev.activeNotebookId) return notebook;
+          if (notebook.id !== notebookId) return notebook;
+
+          const cells = notebook.cells.map(cell =>
+            cell.id === cellId && cell.type === 'code' ? { ...cell, outputs, executionCount } : cell
+          );
 
-          const cells = notebook.cells.filter(cell => cell.id !== cellId);
           return { ...notebook, cells, updatedAt: Date.now() };
         }),
       };
     });
-  }, []);
+  }, [setStore]);
+
+  const deleteCell = useCallback((cellId: string) => {
+    setStore(prev => {
+      if (!prev || !prev.activeNotebookId) return prev;
+      const notebook = prev.notebooks.find(n => n.id === prev.activeNotebookId);
+      const index = notebook ? notebook.cells.findIndex(c => c.id === cellId) : -1;
+      if (!notebook || index === -1) return prev;
+
+      const trashed: TrashedCell = {
+        id: uuidv4(),
+        kind: 'cell',
+        deletedAt: Date.now(),
+        location: findProjectPath(prev.projects, notebook.projectId).map(p => p.name),
+        cell: notebook.cells[index],
+        notebookId: notebook.id,
+        notebookTitle: notebook.title,
+        index,
+        // Se guarda cifrada con la clave del notebook (sealTrashItem)
+        lock: notebook.lock ? { salt: notebook.lock.salt, cell: null } : undefined,
+      };
+
+      return {
+        ...prev,
+        notebooks: prev.notebooks.map(n => {
+          if (n.id !== notebook.id) return n;
+
+          const cells = n.cells.filter(cell => cell.id !== cellId);
+          return { ...n, cells, updatedAt: Date.now() };
+        }),
+        trash: [trashed, ...prev.trash],
+      };
+    }, { label: 'Eliminar celda' });
+  }, [setStore]);
 
   const moveCell = useCallback((cellId: string, direction: 'up' | 'down') => {
     setStore(prev => {
@@ -368,45 +1022,429 @@ export function useProjects() {
           return { ...notebook, cells, updatedAt: Date.now() };
         }),
       };
+    }, { label: direction === 'up' ? 'Subir celda' : 'Bajar celda' });
+  }, [setStore]);
+
+  // === Snapshot operations ===
+  // Restaurar una versión es un cambio más: queda en el historial y se puede deshacer
+  const restoreSnapshot = useCallback((snapshot: Notebook) => {
+    // Una versión cifrada con otra contraseña no se pudo abrir: sus celdas no son las reales
+    if (isNotebookLocked(snapshot)) return;
+    setStore(prev => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        notebooks: prev.notebooks.map(n =>
+          n.id === snapshot.id
+            ? { ...n, title: snapshot.title, cells: snapshot.cells, updatedAt: Date.now() }
+            : n
+        ),
+      };
+    }, { label: 'Restaurar version' });
+  }, [setStore]);
+
+  const restoreSnapshotCell = useCallback((notebookId: string, cell: Cell, index: number) => {
+    setStore(prev => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        notebooks: prev.notebooks.map(n => {
+          if (n.id !== notebookId) return n;
+          // Si la celda sigue existiendo se reemplaza; si no, vuelve a su posición
+          const cells = n.cells.some(c => c.id === cell.id)
+            ? n.cells.map(c => (c.id === cell.id ? cell : c))
+            : [...n.cells.slice(0, index), cell, ...n.cells.slice(index)];
+          return { ...n, cells, updatedAt: Date.now() };
+        }),
+      };
+    }, { label: 'Restaurar celda de una version' });
+  }, [setStore]);
+
+  // === Trash operations ===
+  const restoreTrashItem = useCallback((itemId: string) => {
+    setStore(prev => {
+      if (!prev) return prev;
+      const item = prev.trash.find(i => i.id === itemId);
+      if (!item) return prev;
+      const trash = prev.trash.filter(i => i.id !== itemId);
+
+      switch (item.kind) {
+        case 'notebook': {
+          // Si su proyecto ya no existe, vuelve a la raíz
+          const { projectId } = item.notebook;
+          const notebook = !projectId || prev.projects.some(p => p.id === projectId)
+            ? item.notebook
+            : { ...item.notebook, projectId: undefined };
+          return {
+            ...prev,
+            notebooks: [...prev.notebooks, notebook],
+            activeNotebookId: notebook.id,
+            trash,
+          };
+        }
+        case 'project': {
+          const existingIds = new Set(prev.projects.map(p => p.id));
+          const restoredIds = new Set(item.projects.map(p => p.id));
+          const projects = item.projects
+            .filter(p => !existingIds.has(p.id))
+            .map(p =>
+              p.parentId && !existingIds.has(p.parentId) && !restoredIds.has(p.parentId)
+                ? { ...p, parentId: null }
+                : p
+            );
+          // Devolver a su proyecto los notebooks que siguen en la raíz
+          const notebooks = prev.notebooks.map(n => {
+            const originalProjectId = item.notebookProjects[n.id];
+            return originalProjectId && !n.projectId ? { ...n, projectId: originalProjectId } : n;
+          });
+          return { ...prev, projects: [...prev.projects, ...projects], notebooks, trash };
+        }
+        case 'cell': {
+          // Cifrada: hasta desbloquear su notebook no hay celda que restaurar
+          const { cell } = item;
+          if (!cell) return prev;
+          const target = prev.notebooks.find(n => n.id === item.notebookId);
+          if (!target) {
+            // El notebook ya no existe: recrearlo en la raíz con la celda
+            const notebook: Notebook = { ...createNotebook(), title: item.notebookTitle, cells: [cell] };
+            return {
+              ...prev,
+              notebooks: [...prev.notebooks, notebook],
+              activeNotebookId: notebook.id,
+              trash,
+            };
+          }
+          return {
+            ...prev,
+            notebooks: prev.notebooks.map(n => {
+              if (n.id !== target.id) return n;
+              const cells = [...n.cells];
+              cells.splice(Math.min(item.index, cells.length), 0, cell);
+              return { ...n, cells, updatedAt: Date.now() };
+            }),
+            activeNotebookId: target.id,
+            trash,
+          };
+        }
+      }
+    }, prev => ({ label: trashRestoreLabels[prev.trash.find(i => i.id === itemId)?.kind ?? 'cell'] }));
+  }, [setStore]);
+
+  const deleteTrashItem = useCallback((itemId: string) => {
+    setStore(prev => {
+      if (!prev) return prev;
+      return { ...prev, trash: prev.trash.filter(i => i.id !== itemId) };
     });
-  }, []);
+  }, [setStore]);
+
+  const emptyTrash = useCallback(() => {
+    setStore(prev => {
+      if (!prev) return prev;
+      return { ...prev, trash: [] };
+    });
+  }, [setStore]);
+
+  const setTrashRetentionDays = useCallback((days: number) => {
+    setStore(prev => {
+      if (!prev) return prev;
+      return purgeExpiredTrash({ ...prev, trashRetentionDays: days });
+    });
+  }, [setStore]);
+
+  // Además de al cargar: una pestaña puede quedar abierta más días que la retención
+  useEffect(() => {
+    const timer = setInterval(() => setStore(prev => prev && purgeExpiredTrash(prev)), TRASH_PURGE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [setStore]);
 
   // === Import/Export ===
-  const exportNotebook = useCallback(() => {
-    if (!activeNotebook) return;
-    const blob = new Blob([JSON.stringify(activeNotebook, null, 2)], {
-      type: 'application/json',
+  const exportNotebook = useCallback(async () => {
+    if (!activeNotebook || isActiveNotebookLocked) return;
+    // Cada asset va una sola vez aunque varias celdas lo usen
+    // El archivo exportado va en claro: la contraseña es solo de este navegador
+    const { notebook, assets } = await bundleNotebookAssets({ ...activeNotebook, lock: undefined });
+    const exported: ExportedNotebook = { schemaVersion: CURRENT_SCHEMA_VERSION, ...notebook, assets };
+    downloadJson(exported, `${activeNotebook.title.replace(/\s+/g, '_')}.json`);
+  }, [activeNotebook, isActiveNotebookLocked]);
+
+  const exportNotebookAsIpynb = useCallback(() => {
+    if (!activeNotebook || isActiveNotebookLocked) return;
+    downloadJson(notebookToIpynb(activeNotebook), `${activeNotebook.title.replace(/\s+/g, '_')}.ipynb`);
+  }, [activeNotebook, isActiveNotebookLocked]);
+
+  // Un .md con las celdas y una carpeta assets/ con los archivos, en un zip
+  const exportNotebookAsMarkdown = useCallback(async () => {
+    if (!activeNotebook || isActiveNotebookLocked) return;
+    const { fileName, data } = await notebookToMarkdownZip(activeNotebook);
+    downloadBlob(new Blob([data.slice()], { type: 'application/zip' }), fileName);
+  }, [activeNotebook, isActiveNotebookLocked]);
+
+  // Un solo .html para ver el notebook sin la app
+  const exportNotebookAsHtml = useCallback(async () => {
+    if (!activeNotebook || isActiveNotebookLocked) return;
+    const { fileName, html } = await notebookToHtml(activeNotebook);
+    downloadBlob(new Blob([html], { type: 'text/html' }), fileName);
+  }, [activeNotebook, isActiveNotebookLocked]);
+
+  // Exporta el proyecto con todos sus subproyectos y notebooks en un solo archivo
+  const exportProject = useCallback(async (projectId: string) => {
+    const root = store?.projects.find(p => p.id === projectId);
+    if (!root) return;
+    const projects: Project[] = [];
+    const notebooks: Notebook[] = [];
+    const walk = (parentId: string) => {
+      const children = getProjectChildren(parentId);
+      notebooks.push(...children.notebooks);
+      children.projects.forEach(child => {
+        projects.push(child);
+        walk(child.id);
+      });
+    };
+    walk(root.id);
+    const archive = await createProjectArchive(root, projects, notebooks);
+    downloadJson(archive, `${root.name.replace(/\s+/g, '_')}.project.json`);
+  }, [store, getProjectChildren]);
+
+  // Recrea el subárbol de un proyecto exportado debajo de `parentId`, con ids nuevos
+  const importProjectArchive = useCallback((raw: unknown, fileName: string, parentId: string | null) => {
+    const result = parseProjectArchive(raw);
+    if (!result.ok) {
+      setImportError({
+        fileName,
+        message: 'El proyecto tiene errores que no se pueden reparar automaticamente:',
+        issues: result.errors,
+      });
+      return;
+    }
+    if (result.repairs.length > 0) {
+      console.info(`Proyecto "${fileName}" reparado al importar:`, result.repairs);
+    }
+    setStore(prev => prev && importProjectTree(prev, result.value, parentId));
+  }, [setStore]);
+
+  const importProject = useCallback(async (file: File, parentId: string | null) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setImportError({ fileName: file.name, message: 'El archivo no es un JSON valido.', issues: [] });
+      return;
+    }
+    importProjectArchive(parsed, file.name, parentId);
+  }, [importProjectArchive]);
+
+  // Una carpeta de .md (como una bóveda de Obsidian): cada carpeta es un proyecto y cada archivo un notebook
+  const importFolder = useCallback(async (files: File[], parentId: string | null) => {
+    const folderName = files[0]?.webkitRelativePath.split('/')[0] || 'Carpeta';
+    const { root, errors } = await readVault(files);
+    if (!root) {
+      setImportError({ fileName: folderName, message: 'La carpeta no contiene archivos .md.', issues: errors });
+      return;
+    }
+
+    const issues = [...errors];
+    const projects: Project[] = [];
+    const notebooks: Notebook[] = [];
+    const walk = (folder: VaultFolder, parent: string | null, path: string) => {
+      const project = createProject(folder.name, parent);
+      projects.push(project);
+      folder.notebooks.forEach(raw => {
+        const result = validateNotebook(raw);
+        if (!result.ok) {
+          issues.push(...result.errors.map(issue => ({ ...issue, path: `${path}/${String(raw.title)}.md: ${issue.path}` })));
+          return;
+        }
+        notebooks.push({ ...result.value, projectId: project.id });
+      });
+      folder.folders.forEach(child => walk(child, project.id, `${path}/${child.name}`));
+    };
+    walk(root, parentId, root.name);
+
+    setStore(prev => prev && {
+      ...prev,
+      projects: [...prev.projects, ...projects],
+      notebooks: [...prev.notebooks, ...notebooks],
+      activeNotebookId: notebooks[0]?.id ?? prev.activeNotebookId,
     });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${activeNotebook.title.replace(/\s+/g, '_')}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-  }, [activeNotebook]);
-
-  const importNotebook = useCallback((file: File, projectId?: string) => {
+    if (issues.length > 0) {
+      setImportError({ fileName: folderName, message: 'Algunos archivos no se pudieron importar:', issues });
+    }
+  }, [setStore]);
+
+  // `background` es el PDF de fondo de un archivo de Xournal, elegido junto con él
+  const importNotebook = useCallback((file: File, projectId?: string, background?: File) => {
+    const fail = (message: string, issues: ValidationIssue[] = []) =>
+      setImportError({ fileName: file.name, message, issues });
+
+    // Recibe el notebook en el formato exportado (JSON ya parseado, sin validar)
+    const addImported = (parsed: unknown) => {
+      const schemaVersion = (parsed as Partial<ExportedNotebook> | null)?.schemaVersion ?? 1;
+      if (typeof schemaVersion !== 'number') {
+        fail('El archivo tiene una version de esquema invalida.', [
+          { path: 'schemaVersion', message: 'debe ser un numero' },
+        ]);
+        return;
+      }
+      if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+        fail('El archivo fue exportado con una version mas nueva de la aplicacion.');
+        return;
+      }
+
+      // Los payloads exportados como assets se vuelven a incrustar antes de validar
+      const assets = (parsed as Partial<ExportedNotebook> | null)?.assets ?? {};
+      if (typeof assets !== 'object' || Array.isArray(assets)) {
+        fail('El archivo tiene una lista de assets invalida.', [{ path: 'assets', message: 'debe ser un objeto' }]);
+        return;
+      }
+      const resolved = resolveAssetRefs(parsed, assets);
+      if (resolved.missing.length > 0) {
+        fail('El archivo referencia assets que no incluye:', resolved.missing.map(hash => ({
+          path: `assets.${hash}`,
+          message: 'falta en el archivo',
+        })));
+        return;
+      }
+
+      // Valida, repara lo posible y genera ids nuevos para evitar conflictos
+      const result = validateNotebook(resolved.value);
+      if (!result.ok) {
+        fail('El archivo tiene errores que no se pueden reparar automaticamente:', result.errors);
+        return;
+      }
+      if (result.repairs.length > 0) {
+        console.info(`Notebook "${file.name}" reparado al importar:`, result.repairs);
+      }
+
+      const imported: Notebook = { ...migrateNotebook(result.value, schemaVersion), projectId };
+
+      setStore(prev => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          notebooks: [...prev.notebooks, imported],
+          activeNotebookId: imported.id,
+        };
+      });
+    };
+
+    if (isXournalFile(file.name)) {
+      Promise.all([file.arrayBuffer(), background?.arrayBuffer()])
+        .then(([buffer, pdf]) => xournalToNotebook(
+          new Uint8Array(buffer),
+          file.name,
+          pdf && background ? { data: new Uint8Array(pdf), fileName: background.name } : undefined
+        ))
+        .then(converted => {
+          if (!converted.ok) {
+            fail('No se pudo importar el archivo de Xournal:', converted.errors);
+            return;
+          }
+          addImported(converted.value);
+        })
+        .catch(() => fail('No se pudo leer el archivo de Xournal.'));
+      return;
+    }
+
+    if (/\.pdf$/i.test(file.name)) {
+      fail('Un PDF solo se importa junto con el archivo de Xournal (.xopp) que lo usa de fondo. Para anotar un PDF agrega una celda PDF al notebook.');
+      return;
+    }
+
+    // Un .zip es una exportación a Markdown con sus assets
+    if (/\.zip$/i.test(file.name)) {
+      file.arrayBuffer()
+        .then(buffer => markdownZipToNotebook(new Uint8Array(buffer), file.name))
+        .then(converted => {
+          if (!converted.ok) {
+            fail('El archivo no es una exportacion a Markdown valida:', converted.errors);
+            return;
+          }
+          addImported(converted.value);
+        })
+        .catch(() => fail('No se pudo leer el archivo .zip.'));
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
+      let parsed: unknown;
       try {
-        const imported = JSON.parse(e.target?.result as string) as Notebook;
-        imported.id = uuidv4(); // Nuevo ID para evitar conflictos
-        imported.projectId = projectId;
-
-        setStore(prev => {
-          if (!prev) return prev;
-          return {
-            ...prev,
-            notebooks: [...prev.notebooks, imported],
-            activeNotebookId: imported.id,
-          };
-        });
+        parsed = JSON.parse(e.target?.result as string);
       } catch {
-        alert('Error al importar el archivo. Asegurate de que sea un archivo JSON valido.');
+        fail('El archivo no es un JSON valido.');
+        return;
       }
+
+      // Un proyecto exportado completo también se puede importar desde aquí
+      if (isProjectArchive(parsed)) {
+        importProjectArchive(parsed, file.name, projectId ?? null);
+        return;
+      }
+
+      // Un .ipynb se convierte primero al formato de un notebook exportado
+      if (isIpynb(parsed)) {
+        const converted = ipynbToNotebook(parsed, file.name);
+        if (!converted.ok) {
+          fail('El archivo no es un notebook de Jupyter valido:', converted.errors);
+          return;
+        }
+        parsed = converted.value;
+      }
+
+      addImported(parsed);
     };
+    reader.onerror = () => fail('No se pudo leer el archivo.');
     reader.readAsText(file);
-  }, []);
+  }, [setStore, importProjectArchive]);
+
+  // === Copia de seguridad ===
+
+  // Todos los proyectos y notebooks; las preferencias las aporta quien la pide
+  const exportBackup = useCallback(async (settings: BackupSettings) => {
+    if (!store) return;
+    const backup = await createBackup(store, settings);
+    downloadJson(backup, `notebooks-backup-${new Date(backup.exportedAt).toISOString().slice(0, 10)}.json`);
+  }, [store]);
+
+  /**
+   * Restaura una copia reemplazando todo o combinándola con lo existente.
+   * Devuelve las preferencias de la copia para aplicarlas, o null si falló
+   * (el error queda en `importError`).
+   */
+  const restoreBackup = useCallback(async (file: File, mode: RestoreMode): Promise<BackupSettings | null> => {
+    const fail = (message: string, issues: ValidationIssue[] = []) => {
+      setImportError({ fileName: file.name, message, issues });
+      return null;
+    };
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      return fail('El archivo no es un JSON valido.');
+    }
+    const result = parseBackup(parsed);
+    if (!result.ok) {
+      return fail('La copia de seguridad tiene errores que no se pueden reparar automaticamente:', result.errors);
+    }
+    if (result.repairs.length > 0) {
+      console.info(`Copia "${file.name}" reparada al restaurar:`, result.repairs);
+    }
+
+    const backup = await openBackup(result.value);
+    if (mode === 'merge') {
+      setStore(prev => prev && mergeBackup(prev, backup));
+    } else {
+      // El historial y los conflictos pendientes son de notebooks que se reemplazan
+      setState(prev => {
+        if (!prev.store) return prev;
+        return { store: bumpRevisions(prev.store, replaceWithBackup(prev.store, backup)), history: {}, conflicts: [] };
+      });
+    }
+    return backup.settings;
+  }, [setStore]);
+
+  const dismissImportError = useCallback(() => setImportError(null), []);
 
   const clearNotebook = useCallback(() => {
     if (!activeNotebook) return;
@@ -422,15 +1460,35 @@ export function useProjects() {
               : notebook
           ),
         };
-      });
+      }, { label: 'Borrar contenido' });
     }
-  }, [activeNotebook]);
+  }, [activeNotebook, setStore]);
+
+  // === History (por notebook, por defecto el activo) ===
+  const activeHistory = getNotebookHistory(history, store?.activeNotebookId);
+
+  const undo = useCallback((entryId?: string) => {
+    setState(prev => {
+      if (!prev.store?.activeNotebookId) return prev;
+      const result = undoHistory(prev.store, prev.history, prev.store.activeNotebookId, entryId);
+      return result ? { ...prev, ...result } : prev;
+    });
+  }, []);
+
+  const redo = useCallback((entryId?: string) => {
+    setState(prev => {
+      if (!prev.store?.activeNotebookId) return prev;
+      const result = redoHistory(prev.store, prev.history, prev.store.activeNotebookId, entryId);
+      return result ? { ...prev, ...result } : prev;
+    });
+  }, []);
 
   return {
     // State
     store,
     isLoading,
     activeNotebook,
+    persistence,
 
     // Getters
     getProjectChildren,
@@ -449,15 +1507,63 @@ export function useProjects() {
     moveNotebook,
     updateNotebookTitle,
 
+    // Notebook password
+    isActiveNotebookLocked,
+    unlockNotebook,
+    lockNotebook,
+    changeNotebookPassword,
+
     // Cell operations
     addCell,
+    addImageCell,
     updateCell,
+    setCodeOutputs,
     deleteCell,
     moveCell,
 
+    // Snapshot operations
+    restoreSnapshot,
+    restoreSnapshotCell,
+
+    // Trash operations
+    restoreTrashItem,
+    deleteTrashItem,
+    emptyTrash,
+    setTrashRetentionDays,
+
     // Import/Export
     exportNotebook,
+    exportNotebookAsIpynb,
+    exportNotebookAsMarkdown,
+    exportNotebookAsHtml,
     importNotebook,
+    exportProject,
+    importProject,
+    importFolder,
+    importError,
+    dismissImportError,
+    exportBackup,
+    restoreBackup,
     clearNotebook,
+
+    // History
+    undoStack: activeHistory.past,
+    redoStack: activeHistory.future,
+    undo,
+    redo,
+
+    // Persistence
+    retrySave,
+
+    // Encryption
+    isLocked,
+    isEncrypted,
+    unlock,
+    lock,
+    changePassphrase,
+
+    // Sync
+    conflicts,
+    resolveConflict,
   };
 }
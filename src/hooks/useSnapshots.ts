@@ -0,0 +1,105 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Notebook, NotebookSnapshot, SnapshotInfo } from '@/types/notebook';
+import { deleteSnapshot, listSnapshots, loadSnapshot, saveSnapshot } from '@/lib/storage';
+
+// Se guarda una versión automática si pasó este tiempo desde la última y hubo cambios
+const AUTO_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+const AUTO_SNAPSHOT_CHECK_MS = 60 * 1000;
+// Las automáticas más viejas se descartan; las que tienen nombre se conservan
+const MAX_AUTO_SNAPSHOTS = 20;
+
+interface SnapshotList {
+  notebookId: string;
+  items: SnapshotInfo[];
+}
+
+async function createSnapshot(notebook: Notebook, name: string, auto: boolean): Promise<SnapshotInfo[]> {
+  const snapshot: NotebookSnapshot = {
+    id: uuidv4(),
+    notebookId: notebook.id,
+    name,
+    auto,
+    createdAt: Date.now(),
+    notebook,
+  };
+  await saveSnapshot(snapshot);
+
+  const items = await listSnapshots(notebook.id);
+  const expired = items.filter(s => s.auto).slice(MAX_AUTO_SNAPSHOTS);
+  if (expired.length === 0) return items;
+  await Promise.all(expired.map(s => deleteSnapshot(s.id)));
+  return items.filter(s => !expired.includes(s));
+}
+
+/**
+ * Versiones guardadas del notebook activo. Al abrirlo y luego cada minuto se
+ * guarda una versión automática si hubo cambios desde la última.
+ */
+export function useSnapshots(notebook: Notebook | null) {
+  const [list, setList] = useState<SnapshotList | null>(null);
+  const notebookId = notebook?.id ?? null;
+
+  // El chequeo periódico necesita el notebook más reciente sin reiniciar el intervalo
+  const notebookRef = useRef(notebook);
+  useEffect(() => {
+    notebookRef.current = notebook;
+  });
+
+  useEffect(() => {
+    if (!notebookId) return;
+    let cancelled = false;
+
+    const check = () => {
+      listSnapshots(notebookId)
+        .then(items => {
+          const current = notebookRef.current;
+          const lastAt = items[0]?.createdAt ?? 0;
+          if (
+            !current ||
+            current.id !== notebookId ||
+            Date.now() - lastAt < AUTO_SNAPSHOT_INTERVAL_MS ||
+            current.updatedAt <= lastAt
+          ) {
+            return items;
+          }
+          return createSnapshot(current, '', true);
+        })
+        .then(items => {
+          if (!cancelled) setList({ notebookId, items });
+        })
+        .catch(error => console.error('Error saving snapshot:', error));
+    };
+
+    check();
+    const interval = setInterval(check, AUTO_SNAPSHOT_CHECK_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [notebookId]);
+
+  const snapshots = list && list.notebookId === notebookId ? list.items : [];
+
+  const takeSnapshot = useCallback((name: string) => {
+    const current = notebookRef.current;
+    if (!current) return;
+    createSnapshot(current, name.trim(), false)
+      .then(items => setList({ notebookId: current.id, items }))
+      .catch(error => console.error('Error saving snapshot:', error));
+  }, []);
+
+  const removeSnapshot = useCallback((id: string) => {
+    setList(prev => prev && { ...prev, items: prev.items.filter(s => s.id !== id) });
+    deleteSnapshot(id).catch(error => console.error('Error deleting snapshot:', error));
+  }, []);
+
+  return {
+    snapshots,
+    takeSnapshot,
+    removeSnapshot,
+    loadSnapshot,
+  };
+}
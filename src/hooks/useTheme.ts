@@ -1,8 +1,12 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
+import { Theme } from '@/types/notebook';
 
-type Theme = 'light' | 'dark' | 'system';
+// Cada componente que usa el hook tiene su propio estado: lo compartido es lo guardado
+export function getStoredTheme(): Theme {
+  return (localStorage.getItem('notebook-theme') as Theme | null) || 'system';
+}
 
 export function useTheme() {
   const [theme, setThemeState] = useState<Theme>('system');
@@ -19,8 +23,7 @@ export function useTheme() {
 
   useEffect(() => {
     setMounted(true);
-    const saved = localStorage.getItem('notebook-theme') as Theme | null;
-    const initialTheme = saved || 'system';
+    const initialTheme = getStoredTheme();
     setThemeState(initialTheme);
     applyTheme(initialTheme);
   }, [applyTheme]);
@@ -50,3 +53,18 @@ export function useTheme() {
 
   return { theme, setTheme, toggleTheme, mounted };
 }
+
+function subscribeToDarkClass(onChange: () => void) {
+  const observer = new MutationObserver(onChange);
+  observer.observe(document.documentElement, { attributes: true, attributeFilter: ['class'] });
+  return () => observer.disconnect();
+}
+
+/** Si el tema aplicado es oscuro, siguiendo la clase que pone useTheme en <html>. */
+export function useIsDarkTheme(): boolean {
+  return useSyncExternalStore(
+    subscribeToDarkClass,
+    () => document.documentElement.classList.contains('dark'),
+    () => false
+  );
+}
@@ -0,0 +1,172 @@
+import { Cell, Notebook, TrashItem } from '@/types/notebook';
+
+/**
+ * Los payloads binarios (imágenes, dibujos, PDFs) se guardan una sola vez por
+ * contenido: el hash SHA-256 de sus bytes es el id del asset y los notebooks
+ * guardados o exportados solo conservan la referencia "asset:<hash>".
+ */
+export const ASSET_REF_PREFIX = 'asset:';
+
+const ASSET_REF_PATTERN = /^asset:[0-9a-f]{64}$/;
+
+export function isAssetRef(value: string): boolean {
+  return ASSET_REF_PATTERN.test(value);
+}
+
+export function assetRef(hash: string): string {
+  return ASSET_REF_PREFIX + hash;
+}
+
+export function assetHash(ref: string): string {
+  return ref.slice(ASSET_REF_PREFIX.length);
+}
+
+// === Conversión de payloads ===
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data = ''] = dataUrl.split(',');
+  const mime = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  if (!header.includes(';base64')) {
+    return new Blob([decodeURIComponent(data)], { type: mime });
+  }
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mime });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// === Recorrido de payloads ===
+
+export type PayloadMapper = (value: string, key: string) => string;
+
+/**
+ * Recorre todos los campos binarios de una celda (dibujos, imágenes, PDFs y
+ * las capas de cada página) y los reemplaza por lo que devuelva `map`.
+ * La clave identifica el campo de forma estable a partir de `prefix`.
+ */
+export function mapCellPayloads(cell: Cell, prefix: string, map: PayloadMapper): Cell {
+  const at = (value: string, key: string) => (value ? map(value, `${prefix}/${key}`) : value);
+
+  switch (cell.type) {
+    case 'drawing':
+    case 'image':
+      return { ...cell, dataUrl: at(cell.dataUrl, 'dataUrl') };
+    case 'pdf':
+      return {
+        ...cell,
+        pdfData: at(cell.pdfData, 'pdfData'),
+        pages: cell.pages.map(page => ({
+          ...page,
+          drawingDataUrl: at(page.drawingDataUrl, `${page.id}/drawingDataUrl`),
+          customDrawingDataUrl: page.customDrawingDataUrl
+            ? at(page.customDrawingDataUrl, `${page.id}/customDrawingDataUrl`)
+            : page.customDrawingDataUrl,
+          noteCells: page.noteCells.map(mini =>
+            mini.type === 'markdown'
+              ? mini
+              : { ...mini, dataUrl: at(mini.dataUrl, `${page.id}/${mini.id}/dataUrl`) }
+          ),
+        })),
+      };
+    default:
+      return cell;
+  }
+}
+
+export function mapNotebookPayloads(notebook: Notebook, map: PayloadMapper, prefix = notebook.id): Notebook {
+  return {
+    ...notebook,
+    cells: notebook.cells.map(cell => mapCellPayloads(cell, `${prefix}/${cell.id}`, map)),
+  };
+}
+
+export function mapTrashPayloads(item: TrashItem, map: PayloadMapper): TrashItem {
+  const prefix = `trash/${item.id}`;
+  switch (item.kind) {
+    case 'notebook':
+      return { ...item, notebook: mapNotebookPayloads(item.notebook, map, prefix) };
+    case 'cell':
+      // Cifrada, la celda va entera dentro del lock
+      return item.cell ? { ...item, cell: mapCellPayloads(item.cell, `${prefix}/${item.cell.id}`, map) } : item;
+    default:
+      return item;
+  }
+}
+
+/**
+ * Calcula el hash de cada data URL (sin repetir los que ya están en `cache`,
+ * que se completa con los nuevos).
+ */
+export async function hashPayloads(values: Iterable<string>, cache: Map<string, string>): Promise<void> {
+  const pending = [...new Set(values)].filter(value => value.startsWith('data:') && !cache.has(value));
+  for (const value of pending) {
+    cache.set(value, await hashBlob(dataUrlToBlob(value)));
+  }
+}
+
+// === Exportación ===
+
+/**
+ * Reemplaza los data URLs de un notebook por referencias a assets y devuelve
+ * solo los assets que usa, una vez cada uno (por ejemplo, para exportarlo).
+ */
+export async function bundleNotebookAssets(
+  notebook: Notebook
+): Promise<{ notebook: Notebook; assets: Record<string, string> }> {
+  const values: string[] = [];
+  mapNotebookPayloads(notebook, value => {
+    values.push(value);
+    return value;
+  });
+
+  const hashes = new Map<string, string>();
+  await hashPayloads(values, hashes);
+
+  const assets: Record<string, string> = {};
+  const bundled = mapNotebookPayloads(notebook, value => {
+    const hash = hashes.get(value);
+    if (!hash) return value;
+    assets[hash] = value;
+    return assetRef(hash);
+  });
+  return { notebook: bundled, assets };
+}
+
+/**
+ * Reemplaza las referencias "asset:<hash>" de un documento importado (todavía
+ * sin validar) por el data URL correspondiente. Devuelve los hashes que no
+ * están en `assets`; esas referencias quedan sin resolver.
+ */
+export function resolveAssetRefs(raw: unknown, assets: Record<string, string>): { value: unknown; missing: string[] } {
+  const missing = new Set<string>();
+  const walk = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      if (!isAssetRef(value)) return value;
+      const dataUrl = assets[assetHash(value)];
+      if (typeof dataUrl !== 'string') missing.add(assetHash(value));
+      return typeof dataUrl === 'string' ? dataUrl : value;
+    }
+    if (Array.isArray(value)) return value.map(walk);
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, walk(v)]));
+    }
+    return value;
+  };
+  return { value: walk(raw), missing: [...missing] };
+}
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Cell, Notebook, ProjectStore } from '@/types/notebook';
+import { RestoredBackup, mergeBackup, openBackup, replaceWithBackup } from '@/lib/backup';
+import { forgetNotebookKeys, isNotebookLocked, openNotebook, protectNotebook, sealNotebook } from '@/lib/notebookLock';
+
+function markdown(id: string, content: string): Cell {
+  return { id, type: 'markdown', content, createdAt: 1, updatedAt: 1 };
+}
+
+const current: Notebook = { id: 'nb-1', title: 'Diario', cells: [markdown('c1', 'actual')], createdAt: 1, updatedAt: 2 };
+const backedUp = [markdown('c1', 'de la copia'), markdown('c2', 'otra')];
+
+function store(notebooks: Notebook[]): ProjectStore {
+  return { projects: [], notebooks, activeNotebookId: notebooks[0]?.id ?? null, trash: [], trashRetentionDays: 30 };
+}
+
+/**
+ * El notebook está desbloqueado en esta pestaña y la copia trae el mismo
+ * notebook, cifrado con la misma contraseña y otro contenido.
+ */
+async function unlockedWithBackup(): Promise<{ unlocked: Notebook; backup: RestoredBackup }> {
+  const lock = await protectNotebook(current, 'clave');
+  const unlocked = { ...current, lock };
+  const sealed = await sealNotebook({ ...unlocked, cells: backedUp });
+  return { unlocked, backup: { projects: [], notebooks: [sealed], activeNotebookId: sealed.id, settings: {} } };
+}
+
+// Lo que quedaría guardado del notebook, descifrado otra vez
+async function savedCells(notebook: Notebook): Promise<Cell[]> {
+  return (await openNotebook({ ...(await sealNotebook(notebook)), cells: [] })).cells;
+}
+
+afterEach(() => forgetNotebookKeys());
+
+describe('restaurar una copia con la clave del notebook en memoria', () => {
+  it('al reemplazar, el notebook queda con el contenido de la copia', async () => {
+    const { unlocked, backup } = await unlockedWithBackup();
+    const [restored] = replaceWithBackup(store([unlocked]), await openBackup(backup)).notebooks;
+    expect(isNotebookLocked(restored)).toBe(false);
+    expect(restored.cells).toEqual(backedUp);
+    expect(await savedCells(restored)).toEqual(backedUp);
+  });
+
+  it('al combinar, un notebook que ya no esta en el store tambien se abre', async () => {
+    const { backup } = await unlockedWithBackup();
+    const [restored] = mergeBackup(store([]), await openBackup(backup)).notebooks;
+    expect(restored.id).toBe(current.id);
+    expect(restored.cells).toEqual(backedUp);
+    expect(await savedCells(restored)).toEqual(backedUp);
+  });
+
+  it('sin la clave el notebook restaurado queda bloqueado', async () => {
+    const { unlocked, backup } = await unlockedWithBackup();
+    forgetNotebookKeys();
+    const [restored] = replaceWithBackup(store([unlocked]), await openBackup(backup)).notebooks;
+    expect(isNotebookLocked(restored)).toBe(true);
+    expect(restored.lock?.cells).toBe(backup.notebooks[0].lock?.cells);
+  });
+});
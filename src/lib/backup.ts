@@ -0,0 +1,391 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BackupArchive,
+  BackupSettings,
+  Notebook,
+  Project,
+  ProjectArchive,
+  ProjectStore,
+  QuickLink,
+  Theme,
+} from '@/types/notebook';
+import { bundleNotebookAssets, resolveAssetRefs } from '@/lib/assets';
+import { CURRENT_SCHEMA_VERSION, migrateNotebook } from '@/lib/migrations';
+import { openNotebook, sealNotebook } from '@/lib/notebookLock';
+import {
+  ValidationIssue,
+  ValidationResult,
+  validateNotebook,
+  validateNotebookLock,
+  validateProject,
+} from '@/lib/validation';
+
+/**
+ * Copia de seguridad de todo el árbol de proyectos: un único JSON con los
+ * proyectos, los notebooks (con los assets compartidos una sola vez) y las
+ * preferencias guardadas en localStorage. La papelera no se incluye.
+ *
+ * Un proyecto con sus subproyectos y notebooks se exporta con el mismo
+ * formato, sin preferencias, para importarlo en otro navegador.
+ */
+
+export const BACKUP_FORMAT = 'notebooks-gd-backup';
+export const PROJECT_ARCHIVE_FORMAT = 'notebooks-gd-project';
+
+const THEMES: Theme[] = ['light', 'dark', 'system'];
+
+// `replace` reemplaza proyectos y notebooks; `merge` los agrega a los existentes
+export type RestoreMode = 'replace' | 'merge';
+
+/** Contenido validado de una copia de seguridad, listo para aplicar al store. */
+export interface RestoredBackup {
+  projects: Project[];
+  notebooks: Notebook[];
+  activeNotebookId: string | null;
+  settings: BackupSettings;
+}
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Las rutas de los validadores son relativas al elemento; se anteponen a la de la copia
+function nested(path: string, issues: ValidationIssue[]): ValidationIssue[] {
+  return issues.map(issue => ({
+    ...issue,
+    path: issue.path === '(raiz)' ? path : `${path}.${issue.path}`,
+  }));
+}
+
+async function bundleNotebooks(source: Notebook[]): Promise<{ notebooks: Notebook[]; assets: Record<string, string> }> {
+  const assets: Record<string, string> = {};
+  const notebooks: Notebook[] = [];
+  for (const notebook of source) {
+    // Los notebooks con contraseña quedan cifrados también en el archivo
+    const bundled = await bundleNotebookAssets(await sealNotebook(notebook));
+    Object.assign(assets, bundled.assets);
+    notebooks.push(bundled.notebook);
+  }
+  return { notebooks, assets };
+}
+
+export async function createBackup(store: ProjectStore, settings: BackupSettings): Promise<BackupArchive> {
+  const { notebooks, assets } = await bundleNotebooks(store.notebooks);
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    projects: store.projects,
+    notebooks,
+    activeNotebookId: store.activeNotebookId,
+    assets,
+    settings,
+  };
+}
+
+/** `projects` y `notebooks` son el subárbol de `root` (sin incluirlo). */
+export async function createProjectArchive(
+  root: Project,
+  projects: Project[],
+  notebooks: Notebook[]
+): Promise<ProjectArchive> {
+  const bundled = await bundleNotebooks(notebooks);
+  return {
+    format: PROJECT_ARCHIVE_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    rootProjectId: root.id,
+    // Fuera de este navegador el padre no existe
+    projects: [{ ...root, parentId: null }, ...projects],
+    notebooks: bundled.notebooks,
+    assets: bundled.assets,
+  };
+}
+
+// Un padre que no está en la copia o un ciclo en `parentId` dejan el proyecto en la raíz
+function repairHierarchy(projects: Project[], repairs: ValidationIssue[]): Project[] {
+  const byId = new Map(projects.map(p => [p.id, p]));
+  return projects.map((project, index) => {
+    if (project.parentId === null) return project;
+    if (!byId.has(project.parentId)) {
+      repairs.push({ path: `projects[${index}].parentId`, message: 'el proyecto padre no esta en el archivo, queda en la raiz' });
+      return { ...project, parentId: null };
+    }
+    const seen = new Set([project.id]);
+    for (let current = byId.get(project.parentId); current; current = byId.get(current.parentId ?? '')) {
+      if (seen.has(current.id)) {
+        repairs.push({ path: `projects[${index}].parentId`, message: 'forma un ciclo, queda en la raiz' });
+        return { ...project, parentId: null };
+      }
+      seen.add(current.id);
+    }
+    return project;
+  });
+}
+
+function parseSettings(raw: unknown, repairs: ValidationIssue[]): BackupSettings {
+  if (!isObject(raw)) return {};
+  const settings: BackupSettings = {};
+  if (Array.isArray(raw.quickLinks)) {
+    settings.quickLinks = raw.quickLinks.filter((link, i): link is QuickLink => {
+      const valid = isObject(link) && ['id', 'name', 'url'].every(key => typeof link[key] === 'string');
+      if (!valid) repairs.push({ path: `settings.quickLinks[${i}]`, message: 'enlace invalido, se descarta' });
+      return valid;
+    });
+  }
+  if (THEMES.includes(raw.theme as Theme)) {
+    settings.theme = raw.theme as Theme;
+  } else if (raw.theme !== undefined) {
+    repairs.push({ path: 'settings.theme', message: 'tema desconocido, se conserva el actual' });
+  }
+  return settings;
+}
+
+// Proyectos y notebooks validados de un archivo (copia completa o de un proyecto)
+interface ProjectTree {
+  projects: Project[];
+  notebooks: Notebook[];
+}
+
+/**
+ * Valida el encabezado y el árbol de un archivo. Los notebooks pasan por la
+ * misma validación que al importar uno solo, pero conservan su id, su
+ * proyecto y su contraseña; los ids repetidos dentro del archivo son un error.
+ */
+function parseArchive(
+  raw: unknown,
+  format: string,
+  description: string
+): ValidationResult<{ obj: RawObject; tree: ProjectTree }> {
+  const errors: ValidationIssue[] = [];
+  const repairs: ValidationIssue[] = [];
+
+  if (!isObject(raw) || raw.format !== format) {
+    return { ok: false, errors: [{ path: 'format', message: `no es ${description} de Notebooks GD` }] };
+  }
+  const schemaVersion = raw.schemaVersion;
+  if (typeof schemaVersion !== 'number') {
+    return { ok: false, errors: [{ path: 'schemaVersion', message: 'debe ser un numero' }] };
+  }
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return { ok: false, errors: [{ path: 'schemaVersion', message: 'el archivo es de una version mas nueva de la aplicacion' }] };
+  }
+  const assets = raw.assets ?? {};
+  if (!isObject(assets)) {
+    return { ok: false, errors: [{ path: 'assets', message: 'debe ser un objeto' }] };
+  }
+  if (!Array.isArray(raw.projects) || !Array.isArray(raw.notebooks)) {
+    return { ok: false, errors: [{ path: '(raiz)', message: 'faltan las listas de proyectos o notebooks' }] };
+  }
+
+  const projects: Project[] = [];
+  const projectIds = new Set<string>();
+  raw.projects.forEach((rawProject, i) => {
+    const result = validateProject(rawProject);
+    if (!result.ok) {
+      errors.push(...nested(`projects[${i}]`, result.errors));
+      return;
+    }
+    repairs.push(...nested(`projects[${i}]`, result.repairs));
+    if (projectIds.has(result.value.id)) {
+      errors.push({ path: `projects[${i}].id`, message: 'esta repetido' });
+      return;
+    }
+    projectIds.add(result.value.id);
+    projects.push(result.value);
+  });
+
+  const notebooks: Notebook[] = [];
+  const notebookIds = new Set<string>();
+  raw.notebooks.forEach((rawNotebook, i) => {
+    const path = `notebooks[${i}]`;
+    const resolved = resolveAssetRefs(rawNotebook, assets as Record<string, string>);
+    resolved.missing.forEach(hash => errors.push({ path: `assets.${hash}`, message: `falta en el archivo (lo usa ${path})` }));
+    const result = validateNotebook(resolved.value);
+    if (!result.ok) {
+      errors.push(...nested(path, result.errors));
+      return;
+    }
+    repairs.push(...nested(path, result.repairs));
+
+    const obj = rawNotebook as RawObject;
+    let notebook = migrateNotebook(result.value, schemaVersion);
+    if (typeof obj.id === 'string' && obj.id) {
+      if (notebookIds.has(obj.id)) {
+        errors.push({ path: `${path}.id`, message: 'esta repetido' });
+        return;
+      }
+      notebook = { ...notebook, id: obj.id };
+    } else {
+      repairs.push({ path: `${path}.id`, message: 'faltaba, se genera uno nuevo' });
+    }
+    if (typeof obj.projectId === 'string') {
+      if (projectIds.has(obj.projectId)) {
+        notebook = { ...notebook, projectId: obj.projectId };
+      } else {
+        repairs.push({ path: `${path}.projectId`, message: 'el proyecto no esta en el archivo, queda en la raiz' });
+      }
+    }
+    if (obj.lock !== undefined) {
+      const lock = validateNotebookLock(obj.lock);
+      if (!lock.ok) {
+        errors.push(...nested(path, lock.errors));
+        return;
+      }
+      notebook = { ...notebook, lock: lock.value };
+    }
+    notebookIds.add(notebook.id);
+    notebooks.push(notebook);
+  });
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: { obj: raw, tree: { projects: repairHierarchy(projects, repairs), notebooks } },
+    repairs,
+  };
+}
+
+/** Valida una copia de seguridad completa. */
+export function parseBackup(raw: unknown): ValidationResult<RestoredBackup> {
+  const result = parseArchive(raw, BACKUP_FORMAT, 'una copia de seguridad');
+  if (!result.ok) return result;
+  const { obj, tree } = result.value;
+  const repairs = [...result.repairs];
+
+  const activeNotebookId = typeof obj.activeNotebookId === 'string' && tree.notebooks.some(n => n.id === obj.activeNotebookId)
+    ? obj.activeNotebookId
+    : tree.notebooks[0]?.id ?? null;
+
+  return {
+    ok: true,
+    value: { ...tree, activeNotebookId, settings: parseSettings(obj.settings, repairs) },
+    repairs,
+  };
+}
+
+/** Proyecto exportado con `createProjectArchive`, ya validado. */
+export interface ImportedProject extends ProjectTree {
+  rootProjectId: string;
+}
+
+export function isProjectArchive(raw: unknown): boolean {
+  return isObject(raw) && raw.format === PROJECT_ARCHIVE_FORMAT;
+}
+
+export function parseProjectArchive(raw: unknown): ValidationResult<ImportedProject> {
+  const result = parseArchive(raw, PROJECT_ARCHIVE_FORMAT, 'un proyecto exportado');
+  if (!result.ok) return result;
+  const { obj, tree } = result.value;
+  const root = tree.projects.find(p => p.id === obj.rootProjectId);
+  if (!root) {
+    return { ok: false, errors: [{ path: 'rootProjectId', message: 'no corresponde a ningun proyecto del archivo' }] };
+  }
+  return { ok: true, value: { ...tree, rootProjectId: root.id }, repairs: result.repairs };
+}
+
+/**
+ * Recrea el subárbol importado debajo de `parentId` (null = raíz) con ids
+ * nuevos para todos los proyectos y notebooks. Los notebooks que quedaron sin
+ * proyecto al validar van al proyecto raíz importado.
+ */
+export function importProjectTree(store: ProjectStore, imported: ImportedProject, parentId: string | null): ProjectStore {
+  const projectIds = new Map(imported.projects.map(p => [p.id, uuidv4()]));
+  const rootId = projectIds.get(imported.rootProjectId) ?? null;
+  const projects = imported.projects.map(p => ({
+    ...p,
+    id: projectIds.get(p.id) ?? uuidv4(),
+    parentId: p.id === imported.rootProjectId ? parentId : p.parentId && (projectIds.get(p.parentId) ?? rootId),
+  }));
+  const notebooks = imported.notebooks.map(n => ({
+    ...n,
+    id: uuidv4(),
+    projectId: (n.projectId && projectIds.get(n.projectId)) ?? rootId ?? undefined,
+  }));
+
+  return {
+    ...store,
+    projects: [...store.projects, ...projects],
+    notebooks: [...store.notebooks, ...notebooks],
+    activeNotebookId: notebooks[0]?.id ?? store.activeNotebookId,
+  };
+}
+
+/**
+ * Descifra los notebooks con contraseña de la copia cuya clave se conoce en
+ * esta pestaña. Se aplica antes de restaurar: un notebook cifrado que conserva
+ * su id no puede quedar con `cells` vacío y la clave en memoria, porque el
+ * próximo guardado cifraría ese vacío encima de su contenido.
+ */
+export async function openBackup(backup: RestoredBackup): Promise<RestoredBackup> {
+  return { ...backup, notebooks: await Promise.all(backup.notebooks.map(openNotebook)) };
+}
+
+/**
+ * Reemplaza los proyectos y notebooks por los de la copia. Los notebooks que
+ * ya existían con el mismo id conservan sus versiones guardadas.
+ */
+export function replaceWithBackup(store: ProjectStore, backup: RestoredBackup): ProjectStore {
+  const ids = new Set(backup.notebooks.map(n => n.id));
+  return {
+    ...store,
+    projects: backup.projects,
+    notebooks: backup.notebooks,
+    activeNotebookId: backup.activeNotebookId,
+    // Un notebook restaurado no puede estar también en la papelera
+    trash: store.trash.filter(item => item.kind !== 'notebook' || !ids.has(item.notebook.id)),
+  };
+}
+
+// Ids en uso en el store, incluida la papelera (que se puede restaurar)
+function usedIds(store: ProjectStore): Set<string> {
+  const ids = new Set<string>();
+  store.projects.forEach(p => ids.add(p.id));
+  store.notebooks.forEach(n => ids.add(n.id));
+  store.trash.forEach(item => {
+    if (item.kind === 'notebook') ids.add(item.notebook.id);
+    if (item.kind === 'project') item.projects.forEach(p => ids.add(p.id));
+  });
+  return ids;
+}
+
+/**
+ * Agrega los proyectos y notebooks de la copia a los existentes. Los que
+ * chocan con un id en uso reciben uno nuevo y las referencias (`parentId`,
+ * `projectId`) se actualizan para conservar la jerarquía.
+ */
+export function mergeBackup(store: ProjectStore, backup: RestoredBackup): ProjectStore {
+  const taken = usedIds(store);
+  const remap = (id: string): string => {
+    const next = taken.has(id) ? uuidv4() : id;
+    taken.add(next);
+    return next;
+  };
+
+  const projectIds = new Map(backup.projects.map(p => [p.id, remap(p.id)]));
+  const projects = backup.projects.map(p => ({
+    ...p,
+    id: projectIds.get(p.id) ?? p.id,
+    parentId: p.parentId && (projectIds.get(p.parentId) ?? null),
+  }));
+  const notebooks = backup.notebooks.map(n => ({
+    ...n,
+    id: remap(n.id),
+    projectId: n.projectId && projectIds.get(n.projectId),
+  }));
+
+  return {
+    ...store,
+    projects: [...store.projects, ...projects],
+    notebooks: [...store.notebooks, ...notebooks],
+    activeNotebookId: store.activeNotebookId ?? notebooks[0]?.id ?? null,
+  };
+}
+
+// Al combinar se conservan los accesos rápidos actuales y se suman los de la copia que no están
+export function mergeQuickLinks(current: QuickLink[], restored: QuickLink[]): QuickLink[] {
+  const ids = new Set(current.map(link => link.id));
+  return [...current, ...restored.filter(link => !ids.has(link.id))];
+}
@@ -0,0 +1,53 @@
+import { Cell } from '@/types/notebook';
+
+export const cellTypeLabels: Record<Cell['type'], string> = {
+  markdown: 'Markdown',
+  drawing: 'Dibujo',
+  image: 'Imagen',
+  pdf: 'PDF',
+  code: 'Codigo',
+};
+
+/** Texto corto para identificar una celda en listas (primera línea, alt o nombre de archivo). */
+export function getCellLabel(cell: Cell): string {
+  switch (cell.type) {
+    case 'markdown':
+      return cell.content.split('\n').find(line => line.trim())?.replace(/^#+\s*/, '').slice(0, 40) || 'Markdown';
+    case 'drawing':
+      return 'Dibujo';
+    case 'image':
+      return cell.alt || 'Imagen';
+    case 'pdf':
+      return cell.fileName || 'PDF';
+    case 'code':
+      return cell.source.split('\n').find(line => line.trim())?.trim().slice(0, 40) || 'Codigo';
+  }
+}
+
+export interface MarkdownHeading {
+  level: number;
+  text: string;
+}
+
+/** Títulos `#` a `######` de un texto Markdown, sin contar los que están dentro de bloques de código. */
+export function getMarkdownHeadings(content: string): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  let fence: string | null = null;
+  for (const line of content.split('\n')) {
+    const marker = /^\s*(`{3,}|~{3,})/.exec(line)?.[1];
+    if (fence) {
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+      continue;
+    }
+    if (marker) {
+      fence = marker;
+      continue;
+    }
+    const match = /^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (match) {
+      const text = match[2].replace(/<[^>]+>/g, '').replace(/[*_`~]/g, '').replace(/\[([^\]]*)\]\([^)]*\)/g, '$1').trim();
+      if (text) headings.push({ level: match[1].length, text });
+    }
+  }
+  return headings;
+}
@@ -0,0 +1,114 @@
+import { CodeOutput } from '@/types/notebook';
+
+/**
+ * Presentación de las salidas de las celdas de código fuera del componente:
+ * la app, la vista de impresión y las exportaciones comparten el mismo SVG
+ * para los gráficos y el mismo texto para el resto.
+ */
+
+type ChartOutput = Extract<CodeOutput, { type: 'chart' }>;
+
+const CHART_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#9333ea', '#0891b2'];
+
+const WIDTH = 600;
+const HEIGHT = 300;
+const MARGIN = { top: 16, right: 16, bottom: 40, left: 48 };
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Marcas del eje Y en múltiplos de 1, 2 o 5
+function niceTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) return [min];
+  const rough = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rough) ?? rough;
+  const ticks: number[] = [];
+  for (let value = Math.floor(min / step) * step; value <= max + step / 2; value += step) {
+    ticks.push(Number(value.toPrecision(12)));
+  }
+  return ticks;
+}
+
+function formatNumber(value: number): string {
+  return Math.abs(value) >= 1e6 || (value !== 0 && Math.abs(value) < 1e-3)
+    ? value.toExponential(1)
+    : String(Number(value.toPrecision(6)));
+}
+
+/** SVG autocontenido del gráfico; el texto y los ejes usan `currentColor`. */
+export function chartToSvg(chart: ChartOutput): string {
+  const values = chart.series.flatMap(s => s.values);
+  const ticks = niceTicks(Math.min(0, ...values), Math.max(0, ...values));
+  const low = ticks[0];
+  const high = ticks[ticks.length - 1] === low ? low + 1 : ticks[ticks.length - 1];
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const y = (value: number) => MARGIN.top + plotHeight - ((value - low) / (high - low)) * plotHeight;
+  const slot = plotWidth / Math.max(1, chart.labels.length);
+  const x = (i: number) => MARGIN.left + slot * (i + 0.5);
+  const parts: string[] = [];
+
+  ticks.forEach(tick => {
+    parts.push(`<line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${y(tick)}" y2="${y(tick)}" stroke="currentColor" stroke-opacity="${tick === 0 ? 0.5 : 0.15}"/>`);
+    parts.push(`<text x="${MARGIN.left - 6}" y="${y(tick)}" text-anchor="end" dominant-baseline="middle">${formatNumber(tick)}</text>`);
+  });
+  // Con muchas etiquetas solo se muestra una de cada tantas
+  const every = Math.ceil(chart.labels.length / 12);
+  chart.labels.forEach((label, i) => {
+    if (i % every !== 0) return;
+    const text = label.length > 12 ? `${label.slice(0, 11)}…` : label;
+    parts.push(`<text x="${x(i)}" y="${HEIGHT - MARGIN.bottom + 16}" text-anchor="middle">${escapeXml(text)}</text>`);
+  });
+
+  chart.series.forEach((series, s) => {
+    const color = CHART_COLORS[s % CHART_COLORS.length];
+    if (chart.kind === 'bar') {
+      const barWidth = (slot * 0.8) / chart.series.length;
+      series.values.forEach((value, i) => {
+        const left = x(i) - slot * 0.4 + barWidth * s;
+        const top = Math.min(y(value), y(0));
+        parts.push(`<rect x="${left}" y="${top}" width="${Math.max(1, barWidth - 1)}" height="${Math.abs(y(value) - y(0))}" fill="${color}"><title>${escapeXml(`${chart.labels[i] ?? ''}: ${value}`)}</title></rect>`);
+      });
+    } else {
+      const points = series.values.map((value, i) => `${x(i)},${y(value)}`).join(' ');
+      parts.push(`<polyline points="${points}" fill="none" stroke="${color}" stroke-width="2"/>`);
+      series.values.forEach((value, i) => {
+        parts.push(`<circle cx="${x(i)}" cy="${y(value)}" r="3" fill="${color}"><title>${escapeXml(`${chart.labels[i] ?? ''}: ${value}`)}</title></circle>`);
+      });
+    }
+  });
+
+  const named = chart.series.filter(s => s.name);
+  named.forEach((series, i) => {
+    const color = CHART_COLORS[chart.series.indexOf(series) % CHART_COLORS.length];
+    const left = MARGIN.left + i * 120;
+    parts.push(`<rect x="${left}" y="${HEIGHT - 14}" width="10" height="10" fill="${color}"/>`);
+    parts.push(`<text x="${left + 14}" y="${HEIGHT - 9}" dominant-baseline="middle">${escapeXml(series.name)}</text>`);
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="100%" font-family="sans-serif" font-size="11" fill="currentColor">${parts.join('')}</svg>`;
+}
+
+/** Texto plano de una salida (para exportar a formatos sin tablas ni gráficos). */
+export function codeOutputText(output: CodeOutput): string {
+  switch (output.type) {
+    case 'log':
+    case 'result':
+      return output.text;
+    case 'error':
+      return `${output.name}: ${output.message}`;
+    case 'table':
+      return [output.columns, ...output.rows].map(row => row.join('\t')).join('\n');
+    case 'chart':
+      return [
+        ['', ...output.series.map(s => s.name || 'Valor')].join('\t'),
+        ...output.labels.map((label, i) => [label, ...output.series.map(s => String(s.values[i] ?? ''))].join('\t')),
+      ].join('\n');
+  }
+}
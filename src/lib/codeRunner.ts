@@ -0,0 +1,444 @@
+import { CodeLanguage, CodeOutput } from '@/types/notebook';
+
+/**
+ * Ejecución de las celdas de código. Cada notebook tiene su propio Web Worker
+ * creado desde un Blob. No tiene acceso al DOM ni a los datos de la app, y
+ * para que no llegue a la red se quitan las APIs que la usan (fetch,
+ * XMLHttpRequest, WebSocket, importScripts...), compile() rechaza `import()`
+ * y el worker no compila código desde strings (eval, Function, setTimeout con
+ * texto), que permitiría armar un `import()`. Las variables, funciones y clases que declara una celda en el nivel
+ * superior quedan en el scope global del worker y las ven las celdas que se
+ * ejecutan después, como en Jupyter. Si una ejecución supera el tiempo máximo
+ * o se detiene, el worker se descarta y el scope empieza de cero.
+ */
+
+export const CODE_TIMEOUT_MS = 10_000;
+
+export interface CodeRunResult {
+  outputs: CodeOutput[];
+  executionCount: number;
+}
+
+// Código que corre dentro del worker; recibe el cuerpo de una AsyncFunction ya transformado.
+// Va dentro de una función para que sus variables no se mezclen con las de las celdas.
+const WORKER_SOURCE = `(() => {
+const send = self.postMessage.bind(self);
+const listen = self.addEventListener.bind(self);
+
+// Sin las APIs de red, almacenamiento ni canales hacia la app (import() lo rechaza compile())
+const BLOCKED = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'BroadcastChannel',
+  'indexedDB', 'caches', 'importScripts', 'Worker', 'SharedWorker', 'navigator', 'postMessage', 'close'];
+for (const name of BLOCKED) {
+  for (let proto = Object.getPrototypeOf(self); proto; proto = Object.getPrototypeOf(proto)) {
+    try { delete proto[name]; } catch {}
+  }
+  try { Object.defineProperty(self, name, { value: undefined, writable: true, configurable: true }); } catch {}
+}
+
+const MAX_OUTPUTS = 200;
+const MAX_TEXT = 10000;
+const MAX_ROWS = 1000;
+let currentId = null;
+let count = 0;
+
+function emit(output) {
+  if (currentId === null) return;
+  count++;
+  if (count > MAX_OUTPUTS) {
+    if (count === MAX_OUTPUTS + 1) send({ id: currentId, output: { type: 'log', level: 'warn', text: 'Se omitieron las salidas siguientes (maximo ' + MAX_OUTPUTS + ')' } });
+    return;
+  }
+  if (typeof output.text === 'string' && output.text.length > MAX_TEXT) {
+    output.text = output.text.slice(0, MAX_TEXT) + '... (' + (output.text.length - MAX_TEXT) + ' caracteres mas)';
+  }
+  send({ id: currentId, output });
+}
+
+function inspect(value, depth, seen) {
+  depth = depth || 0;
+  seen = seen || [];
+  switch (typeof value) {
+    case 'string': return depth > 0 ? JSON.stringify(value) : value;
+    case 'number': return Object.is(value, -0) ? '-0' : String(value);
+    case 'boolean': return String(value);
+    case 'bigint': return value + 'n';
+    case 'undefined': return 'undefined';
+    case 'symbol': return value.toString();
+    case 'function': return value.toString().startsWith('class') ? '[class ' + (value.name || '(anonima)') + ']' : '[Function ' + (value.name || '(anonima)') + ']';
+  }
+  if (value === null) return 'null';
+  if (value instanceof Error) return value.name + ': ' + value.message;
+  if (value instanceof Date) return isNaN(value) ? 'Invalid Date' : value.toISOString();
+  if (value instanceof RegExp) return String(value);
+  if (seen.includes(value)) return '[Circular]';
+  if (depth > 3) return Array.isArray(value) ? '[Array]' : '[Object]';
+  const next = seen.concat([value]);
+  const item = v => inspect(v, depth + 1, next);
+  if (Array.isArray(value)) {
+    const items = value.slice(0, 100).map(item);
+    if (value.length > 100) items.push('... ' + (value.length - 100) + ' mas');
+    return '[' + items.join(', ') + ']';
+  }
+  if (value instanceof Map) return 'Map(' + value.size + ') {' + Array.from(value).slice(0, 100).map(e => item(e[0]) + ' => ' + item(e[1])).join(', ') + '}';
+  if (value instanceof Set) return 'Set(' + value.size + ') {' + Array.from(value).slice(0, 100).map(item).join(', ') + '}';
+  if (ArrayBuffer.isView(value)) return value.constructor.name + '(' + value.length + ') [' + Array.from(value).slice(0, 100).join(', ') + ']';
+  if (typeof value.then === 'function') return 'Promise {}';
+  const name = value.constructor && value.constructor !== Object ? value.constructor.name + ' ' : '';
+  const keys = Object.keys(value);
+  const entries = keys.slice(0, 100).map(k => (/^[A-Za-z_$][\\w$]*$/.test(k) ? k : JSON.stringify(k)) + ': ' + item(value[k]));
+  if (keys.length > 100) entries.push('... ' + (keys.length - 100) + ' mas');
+  return name + (entries.length ? '{ ' + entries.join(', ') + ' }' : '{}');
+}
+
+function cellText(value) {
+  return value === undefined ? '' : typeof value === 'string' ? value : inspect(value, 1);
+}
+
+function table(data, columns) {
+  if (typeof data !== 'object' || data === null) throw new TypeError('table() espera una lista o un objeto');
+  const all = Array.isArray(data) ? data.map((row, i) => [String(i), row]) : Object.entries(data);
+  const entries = all.slice(0, MAX_ROWS);
+  const keys = [];
+  let values = false;
+  for (const [, row] of entries) {
+    if (typeof row === 'object' && row !== null) {
+      for (const key of Object.keys(row)) if (!keys.includes(key)) keys.push(key);
+    } else {
+      values = true;
+    }
+  }
+  const cols = Array.isArray(columns) ? columns.map(String) : keys;
+  const rows = entries.map(([index, row]) => {
+    const isObject = typeof row === 'object' && row !== null;
+    const cells = [index].concat(cols.map(key => (isObject ? cellText(row[key]) : '')));
+    if (values) cells.push(isObject ? '' : cellText(row));
+    return cells;
+  });
+  emit({ type: 'table', columns: ['#'].concat(cols, values ? ['Valor'] : []), rows });
+  if (all.length > MAX_ROWS) emit({ type: 'log', level: 'warn', text: 'La tabla muestra las primeras ' + MAX_ROWS + ' de ' + all.length + ' filas' });
+}
+
+function chart(data, kind) {
+  kind = kind === undefined ? 'bar' : kind;
+  if (kind !== 'bar' && kind !== 'line') throw new TypeError('chart(): el tipo tiene que ser "bar" o "line"');
+  let labels;
+  let series;
+  if (Array.isArray(data)) {
+    labels = data.map((_, i) => String(i + 1));
+    series = [{ name: '', values: data }];
+  } else if (data && Array.isArray(data.labels) && typeof data.series === 'object' && data.series !== null) {
+    labels = data.labels.map(String);
+    series = Array.isArray(data.series)
+      ? [{ name: '', values: data.series }]
+      : Object.entries(data.series).map(([name, values]) => ({ name, values }));
+  } else if (typeof data === 'object' && data !== null) {
+    labels = Object.keys(data);
+    series = [{ name: '', values: Object.values(data) }];
+  } else {
+    throw new TypeError('chart() espera una lista de numeros, un objeto { etiqueta: numero } o { labels, series }');
+  }
+  for (const s of series) {
+    if (!Array.isArray(s.values) || !s.values.every(v => typeof v === 'number' && isFinite(v))) {
+      throw new TypeError('chart(): los valores' + (s.name ? ' de "' + s.name + '"' : '') + ' tienen que ser numeros');
+    }
+  }
+  emit({ type: 'chart', kind, labels, series: series.map(s => ({ name: s.name, values: s.values.slice(0, labels.length) })) });
+}
+
+function errorOutput(error) {
+  // Sin la pila: sus líneas son las del código transformado, no las de la celda
+  if (error instanceof Error) return { type: 'error', name: error.name, message: error.message };
+  return { type: 'error', name: 'Error', message: 'Se lanzo un valor que no es un Error: ' + inspect(error, 1) };
+}
+
+for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+  console[level] = (...args) => emit({ type: 'log', level, text: args.map(a => inspect(a)).join(' ') });
+}
+console.table = (data, columns) => {
+  if (typeof data === 'object' && data !== null) table(data, columns);
+  else console.log(data);
+};
+self.table = table;
+self.chart = chart;
+
+listen('error', event => {
+  event.preventDefault();
+  emit(errorOutput(event.error || new Error(event.message)));
+});
+listen('unhandledrejection', event => {
+  event.preventDefault();
+  emit(errorOutput(event.reason));
+});
+
+const AsyncFunction = (async () => {}).constructor;
+
+// Compilar desde un string permitiría un import() que compile() no ve: queda
+// solo la AsyncFunction de arriba, que usa el worker para ejecutar las celdas
+function blocked() {
+  throw new EvalError('Las celdas no pueden compilar codigo desde texto');
+}
+blocked.prototype = Function.prototype;
+for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+  Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: blocked, writable: true, configurable: true });
+}
+Object.defineProperty(self, 'Function', { value: blocked, writable: true, configurable: true });
+Object.defineProperty(self, 'eval', { value: blocked, writable: true, configurable: true });
+for (const name of ['setTimeout', 'setInterval']) {
+  const original = self[name].bind(self);
+  self[name] = (handler, ...args) => (typeof handler === 'function' ? original(handler, ...args) : blocked());
+}
+
+listen('message', async event => {
+  const { id, code } = event.data;
+  currentId = id;
+  count = 0;
+  try {
+    const result = await new AsyncFunction(code)();
+    if (result !== undefined) emit({ type: 'result', text: inspect(result) });
+  } catch (error) {
+    emit(errorOutput(error));
+  }
+  send({ id, done: true });
+  currentId = null;
+});
+})();
+`;
+
+interface Pending {
+  id: number;
+  outputs: CodeOutput[];
+  onOutput?: (output: CodeOutput) => void;
+  resolve: (result: CodeRunResult) => void;
+  timer: ReturnType<typeof setTimeout>;
+  executionCount: number;
+}
+
+/** El worker de un notebook, con una ejecución a la vez. */
+class CodeSession {
+  private worker: Worker | null = null;
+  private pending: Pending | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private nextId = 1;
+  private executionCount = 0;
+
+  run(code: string, onOutput?: (output: CodeOutput) => void): Promise<CodeRunResult> {
+    const result = this.queue.then(() => this.execute(code, onOutput));
+    this.queue = result;
+    return result;
+  }
+
+  // Una celda que no compila también cuenta como ejecutada, pero no llega al worker
+  fail(output: CodeOutput, onOutput?: (output: CodeOutput) => void): Promise<CodeRunResult> {
+    const result = this.queue.then(() => {
+      onOutput?.(output);
+      return { outputs: [output], executionCount: ++this.executionCount };
+    });
+    this.queue = result;
+    return result;
+  }
+
+  // Termina la ejecución en curso; el scope se pierde con el worker
+  stop(output: CodeOutput) {
+    this.worker?.terminate();
+    this.worker = null;
+    this.executionCount = 0;
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = null;
+    clearTimeout(pending.timer);
+    pending.outputs.push(output);
+    pending.onOutput?.(output);
+    pending.resolve({ outputs: pending.outputs, executionCount: pending.executionCount });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+      this.worker = new Worker(url);
+      URL.revokeObjectURL(url);
+      this.worker.onmessage = (event: MessageEvent<{ id: number; output?: CodeOutput; done?: boolean }>) => {
+        const pending = this.pending;
+        if (!pending || event.data.id !== pending.id) return;
+        if (event.data.output) {
+          pending.outputs.push(event.data.output);
+          pending.onOutput?.(event.data.output);
+        }
+        if (event.data.done) {
+          this.pending = null;
+          clearTimeout(pending.timer);
+          pending.resolve({ outputs: pending.outputs, executionCount: pending.executionCount });
+        }
+      };
+    }
+    return this.worker;
+  }
+
+  private execute(code: string, onOutput?: (output: CodeOutput) => void): Promise<CodeRunResult> {
+    const worker = this.getWorker();
+    const id = this.nextId++;
+    const executionCount = ++this.executionCount;
+    return new Promise(resolve => {
+      const timer = setTimeout(() => this.stop({
+        type: 'error',
+        name: 'TimeoutError',
+        message: `La ejecucion supero los ${CODE_TIMEOUT_MS / 1000} segundos y se detuvo. Las variables de las celdas anteriores se perdieron.`,
+      }), CODE_TIMEOUT_MS);
+      this.pending = { id, outputs: [], onOutput, resolve, timer, executionCount };
+      worker.postMessage({ id, code });
+    });
+  }
+}
+
+const sessions = new Map<string, CodeSession>();
+
+function getSession(scopeId: string): CodeSession {
+  let session = sessions.get(scopeId);
+  if (!session) {
+    session = new CodeSession();
+    sessions.set(scopeId, session);
+  }
+  return session;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface AcornNode {
+  type: string;
+  start: number;
+  end: number;
+  [key: string]: unknown;
+}
+
+// Nombres que declara un patrón (`x`, `{ a, b: [c] }`, `...resto`)
+function patternNames(node: AcornNode | null): string[] {
+  if (!node) return [];
+  switch (node.type) {
+    case 'Identifier':
+      return [node.name as string];
+    case 'ObjectPattern':
+      return (node.properties as AcornNode[]).flatMap(p => patternNames((p.type === 'RestElement' ? p.argument : p.value) as AcornNode));
+    case 'ArrayPattern':
+      return (node.elements as (AcornNode | null)[]).flatMap(patternNames);
+    case 'RestElement':
+      return patternNames(node.argument as AcornNode);
+    case 'AssignmentPattern':
+      return patternNames(node.left as AcornNode);
+    default:
+      return [];
+  }
+}
+
+// import() cargaría y ejecutaría código de cualquier URL
+function containsImport(node: unknown): boolean {
+  if (!node || typeof node !== 'object') return false;
+  if (Array.isArray(node)) return node.some(containsImport);
+  if ((node as AcornNode).type === 'ImportExpression') return true;
+  return Object.values(node).some(containsImport);
+}
+
+/**
+ * Prepara el código para el cuerpo de una AsyncFunction: las declaraciones
+ * del nivel superior pasan a ser asignaciones globales (así las ven las
+ * celdas siguientes) y la última expresión se devuelve como resultado.
+ */
+async function compile(source: string, language: CodeLanguage): Promise<string> {
+  let code = source;
+  if (language === 'typescript') {
+    const { transform } = await import('sucrase');
+    code = transform(source, { transforms: ['typescript'], disableESTransforms: true }).code;
+  }
+
+  const { parse } = await import('acorn');
+  const program = parse(code, {
+    ecmaVersion: 'latest',
+    sourceType: 'script',
+    allowAwaitOutsideFunction: true,
+    allowReturnOutsideFunction: true,
+  }) as unknown as { body: AcornNode[] };
+  if (containsImport(program.body)) {
+    throw new Error('import() no esta permitido: las celdas no tienen acceso a la red');
+  }
+
+  const slice = (node: AcornNode) => code.slice(node.start, node.end);
+  const edits: Edit[] = [];
+  const hoisted: string[] = [];
+  const names: string[] = [];
+  program.body.forEach((node, i) => {
+    const isLast = i === program.body.length - 1;
+    switch (node.type) {
+      case 'VariableDeclaration': {
+        const assignments = (node.declarations as AcornNode[]).map(declarator => {
+          names.push(...patternNames(declarator.id as AcornNode));
+          const init = declarator.init as AcornNode | null;
+          return `${slice(declarator.id as AcornNode)} = ${init ? slice(init) : 'undefined'}`;
+        });
+        edits.push({ start: node.start, end: node.end, text: `;(${assignments.join(', ')});` });
+        break;
+      }
+      case 'FunctionDeclaration': {
+        const name = (node.id as { name: string }).name;
+        names.push(name);
+        hoisted.push(`globalThis[${JSON.stringify(name)}] = ${name};`);
+        break;
+      }
+      case 'ClassDeclaration': {
+        const name = (node.id as { name: string }).name;
+        names.push(name);
+        edits.push({ start: node.start, end: node.end, text: `;${name} = ${slice(node)};` });
+        break;
+      }
+      case 'ExpressionStatement':
+        if (isLast) edits.push({ start: node.start, end: node.end, text: `return (${slice(node.expression as AcornNode)});` });
+        break;
+    }
+  });
+
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    code = code.slice(0, edit.start) + edit.text + code.slice(edit.end);
+  }
+  // Globales propias y modificables: algunas del worker (como `name`) son de solo lectura
+  const declare = names.length > 0
+    ? `for (const n of ${JSON.stringify(names)}) if (!Object.getOwnPropertyDescriptor(globalThis, n)?.writable) ` +
+      'Object.defineProperty(globalThis, n, { value: undefined, writable: true, configurable: true, enumerable: true });'
+    : '';
+  return [declare, ...hoisted, code].join('\n');
+}
+
+/**
+ * Ejecuta una celda en el worker del notebook `scopeId`. `onOutput` recibe
+ * las salidas a medida que se producen; el resultado tiene todas.
+ */
+export async function runCode(
+  scopeId: string,
+  source: string,
+  language: CodeLanguage,
+  onOutput?: (output: CodeOutput) => void
+): Promise<CodeRunResult> {
+  const session = getSession(scopeId);
+  let code: string;
+  try {
+    code = await compile(source, language);
+  } catch (error) {
+    return session.fail({
+      type: 'error',
+      name: 'SyntaxError',
+      message: error instanceof Error ? error.message : String(error),
+    }, onOutput);
+  }
+  return session.run(code, onOutput);
+}
+
+/** Detiene la ejecución en curso del notebook (si la hay) y reinicia su scope. */
+export function stopCode(scopeId: string) {
+  sessions.get(scopeId)?.stop({ type: 'error', name: 'Interrupcion', message: 'La ejecucion se detuvo. Las variables de las celdas anteriores se perdieron.' });
+}
+
+/** Descarta el worker del notebook: la próxima ejecución empieza con el scope vacío. */
+export function resetCodeScope(scopeId: string) {
+  sessions.get(scopeId)?.stop({ type: 'error', name: 'Interrupcion', message: 'El scope se reinicio durante la ejecucion.' });
+  sessions.delete(scopeId);
+}
@@ -0,0 +1,105 @@
+import { Cell, Notebook } from '@/types/notebook';
+
+export type LineChange = { type: 'same' | 'added' | 'removed'; text: string };
+
+/**
+ * Diff por líneas (LCS). Los textos de las celdas son cortos, así que la tabla
+ * completa alcanza; si son enormes se marca todo como reemplazado.
+ */
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  if (a.length * b.length > 1_000_000) {
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = largo de la subsecuencia común entre a[i..] y b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+  return result;
+}
+
+export type CellChangeType = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface CellDiff {
+  cellId: string;
+  change: CellChangeType;
+  before: Cell | null; // celda en la versión guardada
+  after: Cell | null; // celda en el estado actual
+  snapshotIndex: number; // posición en la versión guardada (-1 si no estaba)
+}
+
+export function cellContentEquals(a: Cell, b: Cell): boolean {
+  if (a === b) return true;
+  if (a.type !== b.type) return false;
+  return JSON.stringify({ ...a, updatedAt: 0 }) === JSON.stringify({ ...b, updatedAt: 0 });
+}
+
+/**
+ * Compara una versión guardada con el estado actual celda por celda (por id).
+ * El orden sigue al estado actual; las celdas que ya no existen se intercalan
+ * donde estaban en la versión.
+ */
+export function diffNotebooks(snapshot: Notebook, current: Notebook): CellDiff[] {
+  const snapshotIndex = new Map(snapshot.cells.map((cell, index) => [cell.id, index]));
+  const currentIds = new Set(current.cells.map(c => c.id));
+  const result: CellDiff[] = [];
+
+  // Agrega las celdas de la versión en [from, limit) que ya no existen
+  const pushRemovedUntil = (limit: number, from: number) => {
+    for (let i = from; i < limit; i++) {
+      const cell = snapshot.cells[i];
+      if (!currentIds.has(cell.id)) {
+        result.push({ cellId: cell.id, change: 'removed', before: cell, after: null, snapshotIndex: i });
+      }
+    }
+  };
+
+  let nextSnapshotIndex = 0;
+  for (const cell of current.cells) {
+    const index = snapshotIndex.get(cell.id);
+    if (index === undefined) {
+      result.push({ cellId: cell.id, change: 'added', before: null, after: cell, snapshotIndex: -1 });
+      continue;
+    }
+    if (index >= nextSnapshotIndex) {
+      pushRemovedUntil(index, nextSnapshotIndex);
+      nextSnapshotIndex = index + 1;
+    }
+    const before = snapshot.cells[index];
+    result.push({
+      cellId: cell.id,
+      change: cellContentEquals(before, cell) ? 'unchanged' : 'modified',
+      before,
+      after: cell,
+      snapshotIndex: index,
+    });
+  }
+  pushRemovedUntil(snapshot.cells.length, nextSnapshotIndex);
+
+  return result;
+}
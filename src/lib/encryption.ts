@@ -0,0 +1,134 @@
+/**
+ * Cifrado opcional de los datos guardados. La clave AES-GCM se deriva de la
+ * contraseña con PBKDF2 y nunca se guarda: solo se guardan la sal, las
+ * iteraciones y un valor de control cifrado para comprobar la contraseña.
+ */
+
+const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const CHECK_VALUE = 'personal-notebook';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Datos cifrados tal como se guardan en IndexedDB
+export interface Sealed {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+export interface EncryptionMeta {
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  check: Sealed;
+}
+
+export interface EncryptionKey {
+  key: CryptoKey;
+  meta: EncryptionMeta;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function seal(key: CryptoKey, data: BufferSource): Promise<Sealed> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data) };
+}
+
+function open(key: CryptoKey, sealed: Sealed): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+}
+
+/** Genera una sal nueva y la clave para una contraseña (al activar el cifrado o cambiarla). */
+export async function createEncryptionKey(passphrase: string): Promise<EncryptionKey> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const check = await seal(key, new TextEncoder().encode(CHECK_VALUE));
+  return { key, meta: { salt, iterations: PBKDF2_ITERATIONS, check } };
+}
+
+/** Deriva la clave y la comprueba con el valor de control; null si la contraseña no es correcta. */
+export async function unlockEncryptionKey(passphrase: string, meta: EncryptionMeta): Promise<EncryptionKey | null> {
+  const key = await deriveKey(passphrase, meta.salt, meta.iterations);
+  try {
+    const check = new TextDecoder().decode(await open(key, meta.check));
+    return check === CHECK_VALUE ? { key, meta } : null;
+  } catch {
+    // AES-GCM rechaza el descifrado con una clave incorrecta
+    return null;
+  }
+}
+
+export async function sealJson(key: CryptoKey, value: unknown): Promise<Sealed> {
+  return seal(key, new TextEncoder().encode(JSON.stringify(value)));
+}
+
+export async function openJson<T>(key: CryptoKey, sealed: Sealed): Promise<T> {
+  return JSON.parse(new TextDecoder().decode(await open(key, sealed))) as T;
+}
+
+/**
+ * Cifra un blob junto con su tipo MIME, que queda dentro de los datos
+ * cifrados: el blob guardado es [iv][cifrado de (largo del tipo, tipo, bytes)].
+ */
+export async function sealBlob(key: CryptoKey, blob: Blob): Promise<Blob> {
+  const type = new TextEncoder().encode(blob.type);
+  const plain = new Uint8Array(await new Blob([new Uint8Array([type.length]), type, blob]).arrayBuffer());
+  const { iv, data } = await seal(key, plain);
+  return new Blob([iv, data], { type: 'application/octet-stream' });
+}
+
+export async function openBlob(key: CryptoKey, blob: Blob): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const plain = new Uint8Array(await open(key, { iv: bytes.slice(0, IV_BYTES), data: bytes.slice(IV_BYTES).buffer }));
+  const typeLength = plain[0];
+  const type = new TextDecoder().decode(plain.subarray(1, 1 + typeLength));
+  return new Blob([plain.subarray(1 + typeLength)], { type });
+}
+
+// === Formato de texto, para guardar datos cifrados dentro de JSON ===
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/** Base64 de [iv][datos cifrados]. */
+export function packSealed(sealed: Sealed): string {
+  const bytes = new Uint8Array(IV_BYTES + sealed.data.byteLength);
+  bytes.set(sealed.iv);
+  bytes.set(new Uint8Array(sealed.data), IV_BYTES);
+  return toBase64(bytes);
+}
+
+export function unpackSealed(text: string): Sealed {
+  const bytes = fromBase64(text);
+  return { iv: bytes.slice(0, IV_BYTES), data: bytes.slice(IV_BYTES).buffer };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { CodeCell, CodeOutput, Notebook, ProjectStore } from '@/types/notebook';
+import { HistoryMap, recordHistory, redoHistory, undoHistory } from '@/lib/history';
+
+function codeCell(source: string): CodeCell {
+  return { id: 'code-1', type: 'code', language: 'javascript', source, outputs: [], executionCount: null, createdAt: 0, updatedAt: 0 };
+}
+
+function store(cell: CodeCell): ProjectStore {
+  const notebook: Notebook = { id: 'nb-1', title: 'Calculos', cells: [cell], createdAt: 0, updatedAt: 0 };
+  return { projects: [], notebooks: [notebook], activeNotebookId: notebook.id, trash: [], trashRetentionDays: 30 };
+}
+
+// Como `setCodeOutputs`: cambia el notebook sin registrar un paso
+function run(current: ProjectStore, outputs: CodeOutput[], executionCount: number): ProjectStore {
+  const [notebook] = current.notebooks;
+  const cells = notebook.cells.map(cell => (cell.type === 'code' ? { ...cell, outputs, executionCount } : cell));
+  return { ...current, notebooks: [{ ...notebook, cells }] };
+}
+
+function code(current: ProjectStore): CodeCell {
+  const cell = current.notebooks[0].cells[0];
+  if (cell.type !== 'code') throw new Error('Se esperaba una celda de codigo');
+  return cell;
+}
+
+describe('deshacer y rehacer con celdas de codigo', () => {
+  const outputs: CodeOutput[] = [{ type: 'result', text: '2' }];
+  const initial = store(codeCell('1'));
+  const edited = store(codeCell('1 + 1'));
+  const history: HistoryMap = recordHistory({}, initial, edited, { label: 'Editar celda' });
+  const ran = run(edited, outputs, 1);
+
+  it('deshacer vuelve al codigo anterior sin perder las salidas de la ultima ejecucion', () => {
+    const undone = undoHistory(ran, history, 'nb-1');
+    expect(code(undone!.store)).toMatchObject({ source: '1', outputs, executionCount: 1 });
+  });
+
+  it('rehacer tambien conserva las salidas actuales', () => {
+    const undone = undoHistory(ran, history, 'nb-1')!;
+    const again = run(undone.store, [{ type: 'result', text: '1' }], 2);
+    const redone = redoHistory(again, undone.history, 'nb-1');
+    expect(code(redone!.store)).toMatchObject({ source: '1 + 1', outputs: [{ type: 'result', text: '1' }], executionCount: 2 });
+  });
+});
@@ -0,0 +1,191 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Notebook, ProjectStore, TrashItem } from '@/types/notebook';
+
+// Máximo de pasos que se guardan por notebook
+export const HISTORY_LIMIT = 100;
+// Cambios consecutivos con la misma clave dentro de esta ventana se agrupan en un solo paso
+const MERGE_WINDOW_MS = 1000;
+
+export interface HistoryEntry {
+  id: string;
+  label: string; // texto para mostrar en el menú de deshacer
+  timestamp: number;
+  mergeKey?: string;
+  before: Notebook;
+  after: Notebook;
+  // Celdas del notebook que el paso mandó a la papelera o sacó de ella
+  trashAdded?: TrashItem[];
+  trashRemoved?: TrashItem[];
+}
+
+export interface NotebookHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export type HistoryMap = Record<string, NotebookHistory>;
+
+export interface HistoryChange {
+  label: string;
+  mergeKey?: string;
+}
+
+const EMPTY_HISTORY: NotebookHistory = { past: [], future: [] };
+
+export function getNotebookHistory(history: HistoryMap, notebookId: string | null | undefined): NotebookHistory {
+  return (notebookId && history[notebookId]) || EMPTY_HISTORY;
+}
+
+// Celdas del notebook que están en `trash` y no en `other`
+function trashedCellsMissing(trash: TrashItem[], other: TrashItem[], notebookId: string): TrashItem[] {
+  const ids = new Set(other.map(item => item.id));
+  return trash.filter(item => item.kind === 'cell' && item.notebookId === notebookId && !ids.has(item.id));
+}
+
+// Quita de la papelera `remove` y vuelve a poner `add`, sin duplicar los que ya están
+function changeTrash(store: ProjectStore, remove: TrashItem[] = [], add: TrashItem[] = []): ProjectStore {
+  const removeIds = new Set(remove.map(item => item.id));
+  const kept = store.trash.filter(item => !removeIds.has(item.id));
+  const keptIds = new Set(kept.map(item => item.id));
+  const added = add.filter(item => !keptIds.has(item.id));
+  if (kept.length === store.trash.length && added.length === 0) return store;
+  return { ...store, trash: [...added, ...kept].sort((a, b) => b.deletedAt - a.deletedAt) };
+}
+
+/**
+ * Registra un paso por cada notebook cuyo contenido (título o celdas) cambió
+ * entre `prev` y `next`. Como el store es inmutable, basta con comparar
+ * referencias. Registrar un cambio nuevo descarta lo que se podía rehacer.
+ * Si el cambio borró o restauró celdas, el paso guarda también lo que cambió
+ * en la papelera para deshacerlo junto con las celdas.
+ */
+export function recordHistory(
+  history: HistoryMap,
+  prev: ProjectStore,
+  next: ProjectStore,
+  change: HistoryChange,
+  now = Date.now()
+): HistoryMap {
+  let result = history;
+
+  for (const after of next.notebooks) {
+    const before = prev.notebooks.find(n => n.id === after.id);
+    if (!before || (before.title === after.title && before.cells === after.cells)) continue;
+
+    const { past } = getNotebookHistory(result, after.id);
+    const last = past[past.length - 1];
+    const canMerge =
+      change.mergeKey &&
+      last?.mergeKey === change.mergeKey &&
+      last.after === before &&
+      now - last.timestamp < MERGE_WINDOW_MS;
+
+    const trashChanged = prev.trash !== next.trash;
+    const trashAdded = trashChanged ? trashedCellsMissing(next.trash, prev.trash, after.id) : [];
+    const trashRemoved = trashChanged ? trashedCellsMissing(prev.trash, next.trash, after.id) : [];
+    const trash = {
+      ...(trashAdded.length > 0 && { trashAdded }),
+      ...(trashRemoved.length > 0 && { trashRemoved }),
+    };
+
+    const nextPast = canMerge
+      ? [...past.slice(0, -1), {
+          ...last,
+          after,
+          timestamp: now,
+          ...(trashAdded.length > 0 && { trashAdded: [...(last.trashAdded ?? []), ...trashAdded] }),
+          ...(trashRemoved.length > 0 && { trashRemoved: [...(last.trashRemoved ?? []), ...trashRemoved] }),
+        }]
+      : [...past, { id: uuidv4(), label: change.label, mergeKey: change.mergeKey, timestamp: now, before, after, ...trash }]
+          .slice(-HISTORY_LIMIT);
+
+    result = { ...result, [after.id]: { past: nextPast, future: [] } };
+  }
+
+  return result;
+}
+
+// Las salidas de las celdas de código no pasan por el historial: se conservan
+// las de la última ejecución en lugar de las que tenía el paso
+function keepCodeOutputs(notebook: Notebook, current: Notebook): Notebook {
+  const latest = new Map(current.cells.flatMap(cell => (cell.type === 'code' ? [[cell.id, cell] as const] : [])));
+  let changed = false;
+  const cells = notebook.cells.map(cell => {
+    const run = cell.type === 'code' ? latest.get(cell.id) : undefined;
+    if (cell.type !== 'code' || !run) return cell;
+    if (cell.outputs === run.outputs && cell.executionCount === run.executionCount) return cell;
+    changed = true;
+    return { ...cell, outputs: run.outputs, executionCount: run.executionCount };
+  });
+  return changed ? { ...notebook, cells } : notebook;
+}
+
+// Reemplaza el contenido del notebook; el proyecto se conserva porque
+// mover o borrar proyectos no forma parte del historial, y la revisión sigue
+// avanzando para que las otras pestañas vean el cambio
+function replaceNotebook(store: ProjectStore, notebook: Notebook): ProjectStore | null {
+  if (!store.notebooks.some(n => n.id === notebook.id)) return null;
+  return {
+    ...store,
+    notebooks: store.notebooks.map(n =>
+      n.id === notebook.id
+        ? { ...keepCodeOutputs(notebook, n), projectId: n.projectId, revision: (n.revision ?? 0) + 1 }
+        : n
+    ),
+  };
+}
+
+/** Deshace pasos hasta dejar aplicado el anterior a `entryId` (o solo el último si no se indica). */
+export function undoHistory(
+  store: ProjectStore,
+  history: HistoryMap,
+  notebookId: string,
+  entryId?: string
+): { store: ProjectStore; history: HistoryMap } | null {
+  const { past, future } = getNotebookHistory(history, notebookId);
+  const index = entryId ? past.findIndex(e => e.id === entryId) : past.length - 1;
+  if (index < 0) return null;
+
+  const replaced = replaceNotebook(store, past[index].before);
+  if (!replaced) return null;
+  // Los pasos deshechos, del más nuevo al más viejo, devuelven la papelera a como estaba
+  const next = past
+    .slice(index)
+    .reverse()
+    .reduce((result, entry) => changeTrash(result, entry.trashAdded, entry.trashRemoved), replaced);
+
+  return {
+    store: next,
+    history: {
+      ...history,
+      // `future` va del próximo a rehacer al último
+      [notebookId]: { past: past.slice(0, index), future: [...past.slice(index), ...future] },
+    },
+  };
+}
+
+/** Rehace pasos hasta `entryId` inclusive (o solo el siguiente si no se indica). */
+export function redoHistory(
+  store: ProjectStore,
+  history: HistoryMap,
+  notebookId: string,
+  entryId?: string
+): { store: ProjectStore; history: HistoryMap } | null {
+  const { past, future } = getNotebookHistory(history, notebookId);
+  const index = entryId ? future.findIndex(e => e.id === entryId) : 0;
+  if (index < 0 || index >= future.length) return null;
+
+  const replaced = replaceNotebook(store, future[index].after);
+  if (!replaced) return null;
+  const next = future
+    .slice(0, index + 1)
+    .reduce((result, entry) => changeTrash(result, entry.trashRemoved, entry.trashAdded), replaced);
+
+  return {
+    store: next,
+    history: {
+      ...history,
+      [notebookId]: { past: [...past, ...future.slice(0, index + 1)], future: future.slice(index + 1) },
+    },
+  };
+}
@@ -0,0 +1,252 @@
+import { createElement } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Cell, CodeCell, CodeOutput, MiniCell, Notebook, PDFCell, PDFPage } from '@/types/notebook';
+import { dataUrlToBlob } from '@/lib/assets';
+import { renderPdfPages } from '@/lib/pdf';
+import { slugify } from '@/lib/markdownArchive';
+import { remarkPlugins, standaloneRehypePlugins } from '@/lib/markdown';
+import { chartToSvg } from '@/lib/codeOutputs';
+
+/**
+ * Exportación a un único archivo HTML para compartir un notebook con quien
+ * no usa la app. El Markdown se renderiza con el mismo `ReactMarkdown` que
+ * `MarkdownCell` (las fórmulas como MathML, que no necesita las fuentes de
+ * KaTeX), los dibujos e imágenes quedan como data URLs y cada página de un
+ * PDF se convierte en imagen con su capa de dibujo encima y sus notas al
+ * costado. Tiene estilos claros y oscuros (sigue al sistema y se puede
+ * cambiar con un botón).
+ */
+
+// Ancho con el que `PDFCell` dibuja las páginas y guarda su capa de dibujo
+const PDF_PAGE_WIDTH = 800;
+
+// Los mismos estilos de .prose que globals.css, más el layout de las celdas
+const STYLES = `
+:root { color-scheme: light; --bg: #ffffff; --card: #ffffff; --border: #e5e7eb; --muted: #6b7280; --page: #ffffff; --rule: #e5e7eb; }
+.dark { color-scheme: dark; --bg: #121212; --card: #1c1c1c; --border: #3a3a3a; --muted: #9ca3af; --page: #1f2937; --rule: #374151; }
+* { box-sizing: border-box; }
+body { margin: 0; background: var(--bg); font-family: ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; }
+main { max-width: 1200px; margin: 0 auto; padding: 2rem 1rem 4rem; }
+header { display: flex; align-items: center; justify-content: space-between; gap: 1rem; margin-bottom: 1.5rem; }
+header h1 { margin: 0; font-size: 1.875rem; color: #111827; }
+.dark header h1 { color: #f9fafb; }
+header p { margin: 0.25rem 0 0; color: var(--muted); font-size: 0.875rem; }
+#theme-toggle { border: 1px solid var(--border); background: var(--card); color: var(--muted); border-radius: 0.5rem; padding: 0.375rem 0.75rem; cursor: pointer; }
+.cell { background: var(--card); border: 1px solid var(--border); border-radius: 0.75rem; margin-bottom: 1rem; overflow: hidden; }
+.cell > .prose { padding: 1rem; }
+.cell-media { padding: 1rem; text-align: center; }
+.cell-media img { max-width: 100%; height: auto; border-radius: 0.5rem; }
+.pdf-title { padding: 0.5rem 1rem; border-bottom: 1px solid var(--border); color: var(--muted); font-size: 0.875rem; }
+.pdf-page { display: flex; gap: 1rem; padding: 1rem; border-bottom: 1px solid var(--border); }
+.pdf-page:last-child { border-bottom: none; }
+.pdf-sheet { position: relative; flex: 0 1 ${PDF_PAGE_WIDTH}px; min-width: 0; background: var(--page); border: 1px solid var(--border); }
+.pdf-sheet img { display: block; width: 100%; height: auto; }
+.pdf-sheet img.overlay { position: absolute; inset: 0; height: 100%; }
+.pdf-sheet.custom { aspect-ratio: 4 / 5; background-image: repeating-linear-gradient(to bottom, transparent 0 19px, var(--rule) 19px 20px); }
+.pdf-notes { flex: 1 1 260px; min-width: 0; font-size: 0.875rem; }
+.pdf-notes > * + * { margin-top: 0.5rem; }
+.pdf-notes img { max-width: 100%; height: auto; border-radius: 0.25rem; }
+.page-number { color: var(--muted); font-size: 0.75rem; margin-bottom: 0.5rem; }
+@media (max-width: 720px) { .pdf-page { flex-direction: column; } }
+.code-header { padding: 0.375rem 1rem; border-bottom: 1px solid var(--border); color: var(--muted); font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.05em; }
+.code-source { margin: 0; padding: 0.75rem 1rem; overflow-x: auto; font-size: 0.875rem; color: #111827; }
+.dark .code-source { color: #f9fafb; }
+.code-outputs { padding: 0.5rem 1rem; border-top: 1px solid var(--border); color: #111827; }
+.dark .code-outputs { color: #f9fafb; }
+.code-outputs > * + * { margin-top: 0.25rem; }
+.code-outputs pre { margin: 0; white-space: pre-wrap; word-break: break-word; font-size: 0.875rem; }
+.code-outputs .result { font-weight: 600; }
+.code-outputs .log-info { color: #2563eb; }
+.code-outputs .log-warn { color: #d97706; }
+.code-outputs .log-error, .code-outputs .error { color: #dc2626; }
+.code-outputs .log-debug { color: var(--muted); }
+.code-outputs .error { background: rgba(220, 38, 38, 0.08); padding: 0.25rem 0.5rem; border-radius: 0.25rem; }
+.code-outputs table { border-collapse: collapse; font-size: 0.75rem; }
+.code-outputs th, .code-outputs td { border-bottom: 1px solid var(--border); padding: 0.125rem 0.5rem; text-align: left; }
+.code-table { overflow-x: auto; }
+.code-chart { max-width: 42rem; color: var(--muted); }
+pre, code { font-family: ui-monospace, SFMono-Regular, 'SF Mono', Menlo, Monaco, Consolas, monospace; }
+
+.prose { color: #374151; line-height: 1.75; }
+.prose h1 { font-size: 2rem; font-weight: 700; margin-top: 0; margin-bottom: 0.875rem; color: #111827; }
+.prose h2 { font-size: 1.5rem; font-weight: 600; margin-top: 1.5rem; margin-bottom: 0.75rem; color: #111827; }
+.prose h3 { font-size: 1.25rem; font-weight: 600; margin-top: 1.25rem; margin-bottom: 0.5rem; color: #111827; }
+.prose p { margin-top: 0.75rem; margin-bottom: 0.75rem; }
+.prose a { color: #2563eb; text-decoration: underline; }
+.prose a:hover { color: #1d4ed8; }
+.prose strong { font-weight: 600; color: #111827; }
+.prose em { font-style: italic; }
+.prose code { font-family: ui-monospace, SFMono-Regular, 'SF Mono', Menlo, Monaco, Consolas, monospace; font-size: 0.875em; background-color: #f3f4f6; padding: 0.125rem 0.375rem; border-radius: 0.25rem; color: #dc2626; }
+.prose pre { background-color: #1f2937; color: #f9fafb; padding: 1rem; border-radius: 0.5rem; overflow-x: auto; margin: 1rem 0; }
+.prose pre code { background-color: transparent; padding: 0; color: inherit; font-size: 0.875rem; }
+.prose math[display="block"] { margin: 1rem 0; overflow-x: auto; }
+.prose ul { list-style-type: disc; padding-left: 1.5rem; margin: 0.75rem 0; }
+.prose ol { list-style-type: decimal; padding-left: 1.5rem; margin: 0.75rem 0; }
+.prose li { margin: 0.25rem 0; }
+.prose blockquote { border-left: 4px solid #d1d5db; padding-left: 1rem; font-style: italic; color: #6b7280; margin: 1rem 0; }
+.prose hr { border: none; border-top: 1px solid #e5e7eb; margin: 1.5rem 0; }
+.prose table { width: 100%; border-collapse: collapse; margin: 1rem 0; }
+.prose th, .prose td { border: 1px solid #e5e7eb; padding: 0.5rem 0.75rem; text-align: left; }
+.prose th { background-color: #f9fafb; font-weight: 600; }
+.prose img { max-width: 100%; height: auto; border-radius: 0.5rem; }
+.prose input[type="checkbox"] { margin-right: 0.5rem; }
+.prose > :first-child { margin-top: 0; }
+.prose > :last-child { margin-bottom: 0; }
+.dark .prose { color: #d1d5db; }
+.dark .prose h1, .dark .prose h2, .dark .prose h3, .dark .prose strong { color: #f9fafb; }
+.dark .prose a { color: #60a5fa; }
+.dark .prose a:hover { color: #93c5fd; }
+.dark .prose code { background-color: #374151; color: #fca5a5; }
+.dark .prose pre { background-color: #0f172a; }
+.dark .prose blockquote { border-left-color: #4b5563; color: #9ca3af; }
+.dark .prose hr { border-top-color: #374151; }
+.dark .prose th, .dark .prose td { border-color: #374151; }
+.dark .prose th { background-color: #1f2937; }
+`;
+
+// Tema del sistema al abrir; el botón lo alterna
+const SCRIPT = `
+(function () {
+  var root = document.documentElement;
+  if (window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches) root.classList.add('dark');
+  document.getElementById('theme-toggle').addEventListener('click', function () {
+    root.classList.toggle('dark');
+  });
+})();
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+type RenderMarkdown = (content: string) => string;
+
+function image(src: string, alt: string, className = ''): string {
+  const classAttr = className ? ` class="${className}"` : '';
+  return `<img${classAttr} src="${escapeHtml(src)}" alt="${escapeHtml(alt)}">`;
+}
+
+function renderMiniCell(cell: MiniCell, markdown: RenderMarkdown): string {
+  switch (cell.type) {
+    case 'markdown':
+      return cell.content.trim() ? `<div class="prose prose-sm">${markdown(cell.content)}</div>` : '';
+    case 'drawing':
+      return cell.dataUrl ? image(cell.dataUrl, 'Dibujo') : '';
+    case 'image':
+      return cell.dataUrl ? image(cell.dataUrl, cell.alt || 'Imagen') : '';
+  }
+}
+
+function renderPdfPage(page: PDFPage, index: number, pageImages: Map<number, string>, markdown: RenderMarkdown): string {
+  const background = page.pageNumber !== null ? pageImages.get(page.pageNumber) : undefined;
+  const overlay = page.isCustomPage ? page.customDrawingDataUrl : page.drawingDataUrl;
+  let sheet: string;
+  if (page.isCustomPage) {
+    sheet = `<div class="pdf-sheet custom">${overlay ? image(overlay, 'Dibujo', 'overlay') : ''}</div>`;
+  } else {
+    sheet = `<div class="pdf-sheet">${background ? image(background, `Pagina ${page.pageNumber}`) : ''}${overlay ? image(overlay, 'Dibujo', 'overlay') : ''}</div>`;
+  }
+
+  // Las páginas anteriores a las mini celdas solo tienen el texto de `notes`
+  const notes = page.noteCells.length > 0
+    ? page.noteCells.map(cell => renderMiniCell(cell, markdown)).join('')
+    : page.notes.trim() ? `<div class="prose prose-sm">${markdown(page.notes)}</div>` : '';
+  const label = page.isCustomPage ? `Pagina ${index + 1} (agregada)` : `Pagina ${index + 1}`;
+  return `<div class="pdf-page">${sheet}<aside class="pdf-notes"><div class="page-number">${label}</div>${notes}</aside></div>`;
+}
+
+async function renderPdfCell(cell: PDFCell, markdown: RenderMarkdown): Promise<string> {
+  let pageImages = new Map<number, string>();
+  if (cell.pdfData) {
+    const data = new Uint8Array(await dataUrlToBlob(cell.pdfData).arrayBuffer());
+    const pageNumbers = cell.pages.flatMap(page => (page.pageNumber !== null && !page.isCustomPage ? [page.pageNumber] : []));
+    pageImages = await renderPdfPages(data, pageNumbers, PDF_PAGE_WIDTH);
+  }
+  const pages = cell.pages.map((page, i) => renderPdfPage(page, i, pageImages, markdown)).join('');
+  return `<section class="cell"><div class="pdf-title">${escapeHtml(cell.fileName || 'PDF')}</div>${pages}</section>`;
+}
+
+function renderCodeOutput(output: CodeOutput): string {
+  switch (output.type) {
+    case 'log':
+      return `<pre class="log-${output.level}">${escapeHtml(output.text)}</pre>`;
+    case 'result':
+      return `<pre class="result">${escapeHtml(output.text)}</pre>`;
+    case 'error':
+      return `<pre class="error">${escapeHtml(`${output.name}: ${output.message}`)}</pre>`;
+    case 'table': {
+      const head = output.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('');
+      const body = output.rows.map(row => `<tr>${row.map(value => `<td>${escapeHtml(value)}</td>`).join('')}</tr>`).join('');
+      return `<div class="code-table"><table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table></div>`;
+    }
+    case 'chart':
+      return `<div class="code-chart">${chartToSvg(output)}</div>`;
+  }
+}
+
+function renderCodeCell(cell: CodeCell): string {
+  if (!cell.source.trim() && cell.outputs.length === 0) return '';
+  const language = cell.language === 'typescript' ? 'TypeScript' : 'JavaScript';
+  const count = cell.executionCount !== null ? ` [${cell.executionCount}]` : '';
+  const outputs = cell.outputs.length > 0
+    ? `<div class="code-outputs">${cell.outputs.map(renderCodeOutput).join('')}</div>`
+    : '';
+  return `<section class="cell"><div class="code-header">${language}${count}</div><pre class="code-source"><code>${escapeHtml(cell.source)}</code></pre>${outputs}</section>`;
+}
+
+async function renderCell(cell: Cell, markdown: RenderMarkdown): Promise<string> {
+  switch (cell.type) {
+    case 'markdown':
+      return cell.content.trim() ? `<section class="cell"><div class="prose">${markdown(cell.content)}</div></section>` : '';
+    case 'drawing':
+      return cell.dataUrl ? `<section class="cell cell-media">${image(cell.dataUrl, 'Dibujo')}</section>` : '';
+    case 'image':
+      return cell.dataUrl ? `<section class="cell cell-media">${image(cell.dataUrl, cell.alt || 'Imagen')}</section>` : '';
+    case 'pdf':
+      return renderPdfCell(cell, markdown);
+    case 'code':
+      return renderCodeCell(cell);
+  }
+}
+
+/** Genera el HTML autocontenido del notebook. Solo funciona en el navegador (usa pdf.js y canvas). */
+export async function notebookToHtml(notebook: Notebook): Promise<{ fileName: string; html: string }> {
+  // react-dom/server solo se necesita al exportar
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const markdown: RenderMarkdown = content => renderToStaticMarkup(
+    createElement(ReactMarkdown, { remarkPlugins, rehypePlugins: standaloneRehypePlugins }, content)
+  );
+
+  const cells: string[] = [];
+  for (const cell of notebook.cells) {
+    cells.push(await renderCell(cell, markdown));
+  }
+
+  const title = escapeHtml(notebook.title);
+  const updated = new Date(notebook.updatedAt).toLocaleString();
+  const html = `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+<div><h1>${title}</h1><p>Actualizado: ${escapeHtml(updated)}</p></div>
+<button id="theme-toggle" type="button">Claro / oscuro</button>
+</header>
+${cells.join('\n')}
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+  return { fileName: `${slugify(notebook.title)}.html`, html };
+}
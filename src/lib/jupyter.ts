@@ -0,0 +1,345 @@
+import { Cell, CodeCell, CodeLanguage, CodeOutput, Notebook } from '@/types/notebook';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/migrations';
+import { ValidationIssue, ValidationResult } from '@/lib/validation';
+import { chartToSvg, codeOutputText } from '@/lib/codeOutputs';
+
+/**
+ * Conversión entre notebooks y archivos de Jupyter (nbformat 4). Jupyter no
+ * tiene celdas de dibujo, imagen ni PDF: al exportar se convierten en celdas
+ * markdown con el archivo como adjunto. Las celdas de código se exportan como
+ * celdas de código con sus salidas. Al importar, el código de un notebook de
+ * JavaScript o TypeScript vuelve a ser una celda de código; el de otros
+ * lenguajes (y sus salidas de texto) queda como bloques de código en
+ * markdown. Las imágenes generadas pasan a ser celdas de imagen.
+ */
+
+const NBFORMAT = 4;
+const NBFORMAT_MINOR = 5; // la primera versión con id en las celdas
+
+// Tipos de salida que se importan como imagen, en orden de preferencia
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml'];
+
+type Source = string | string[];
+
+// mime -> contenido (base64, o texto para SVG y texto plano)
+type MimeBundle = Record<string, Source>;
+
+interface IpynbMarkdownCell {
+  id: string;
+  cell_type: 'markdown';
+  metadata: Record<string, unknown>;
+  source: Source;
+  attachments?: Record<string, MimeBundle>;
+}
+
+interface IpynbCodeCell {
+  id?: string;
+  cell_type: 'code';
+  metadata: Record<string, unknown>;
+  source: Source;
+  outputs: IpynbOutput[];
+  execution_count: number | null;
+}
+
+interface IpynbRawCell {
+  id?: string;
+  cell_type: 'raw';
+  metadata: Record<string, unknown>;
+  source: Source;
+}
+
+type IpynbOutput =
+  | { output_type: 'stream'; name: string; text: Source }
+  | { output_type: 'execute_result' | 'display_data'; data: MimeBundle; metadata?: Record<string, unknown>; execution_count?: number | null }
+  | { output_type: 'error'; ename: string; evalue: string; traceback: string[] };
+
+export interface IpynbNotebook {
+  nbformat: number;
+  nbformat_minor: number;
+  metadata: Record<string, unknown>;
+  cells: (IpynbMarkdownCell | IpynbCodeCell | IpynbRawCell)[];
+}
+
+// Jupyter guarda el texto como lista de líneas, cada una con su salto de línea
+function toSource(text: string): string[] {
+  const lines = text.split('\n');
+  const source = lines.map((line, i) => (i < lines.length - 1 ? `${line}\n` : line));
+  return source[source.length - 1] === '' ? source.slice(0, -1) : source;
+}
+
+function fromSource(source: unknown): string {
+  if (Array.isArray(source)) return source.filter(line => typeof line === 'string').join('');
+  return typeof source === 'string' ? source : '';
+}
+
+function parseDataUrl(dataUrl: string): { mime: string; base64: string } | null {
+  const match = /^data:([^;,]+)(?:;[^,]*)?;base64,([\s\S]*)$/.exec(dataUrl);
+  return match ? { mime: match[1], base64: match[2] } : null;
+}
+
+function extensionFor(mime: string): string {
+  const subtype = mime.split('/')[1] ?? 'bin';
+  return subtype === 'svg+xml' ? 'svg' : subtype === 'jpeg' ? 'jpg' : subtype;
+}
+
+// Celda markdown con un único adjunto: una imagen (`![...]`) o un enlace
+function attachmentCell(id: string, dataUrl: string, name: string, label: string, asImage: boolean): IpynbMarkdownCell | null {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) return null;
+  const fileName = name || `${id}.${extensionFor(parsed.mime)}`;
+  const ref = `attachment:${encodeURI(fileName)}`;
+  return {
+    id,
+    cell_type: 'markdown',
+    metadata: {},
+    source: asImage ? `![${label}](${ref})` : `[${label || fileName}](${ref})`,
+    attachments: { [fileName]: { [parsed.mime]: parsed.base64 } },
+  };
+}
+
+function exportOutput(output: CodeOutput, executionCount: number | null): IpynbOutput {
+  switch (output.type) {
+    case 'log':
+      return {
+        output_type: 'stream',
+        name: output.level === 'warn' || output.level === 'error' ? 'stderr' : 'stdout',
+        text: toSource(`${output.text}\n`),
+      };
+    case 'result':
+      return { output_type: 'execute_result', data: { 'text/plain': toSource(output.text) }, metadata: {}, execution_count: executionCount };
+    case 'error':
+      return { output_type: 'error', ename: output.name, evalue: output.message, traceback: [`${output.name}: ${output.message}`] };
+    case 'table':
+    case 'chart':
+      return {
+        output_type: 'display_data',
+        data: output.type === 'chart'
+          ? { 'image/svg+xml': toSource(chartToSvg(output)), 'text/plain': toSource(codeOutputText(output)) }
+          : { 'text/plain': toSource(codeOutputText(output)) },
+        metadata: {},
+      };
+  }
+}
+
+function exportCodeCell(cell: CodeCell): IpynbCodeCell {
+  return {
+    id: cell.id,
+    cell_type: 'code',
+    metadata: { language: cell.language },
+    source: toSource(cell.source),
+    outputs: cell.outputs.map(output => exportOutput(output, cell.executionCount)),
+    execution_count: cell.executionCount,
+  };
+}
+
+function exportCell(cell: Cell): IpynbMarkdownCell | IpynbCodeCell | null {
+  switch (cell.type) {
+    case 'markdown':
+      return { id: cell.id, cell_type: 'markdown', metadata: {}, source: toSource(cell.content) };
+    case 'drawing':
+      return cell.dataUrl ? attachmentCell(cell.id, cell.dataUrl, '', 'Dibujo', true) : null;
+    case 'image':
+      return cell.dataUrl ? attachmentCell(cell.id, cell.dataUrl, '', cell.alt, true) : null;
+    case 'pdf':
+      return cell.pdfData ? attachmentCell(cell.id, cell.pdfData, cell.fileName, cell.fileName, false) : null;
+    case 'code':
+      return exportCodeCell(cell);
+  }
+}
+
+/** Convierte un notebook a nbformat 4. Las celdas vacías de dibujo, imagen o PDF se omiten. */
+export function notebookToIpynb(notebook: Notebook): IpynbNotebook {
+  // Jupyter tiene un lenguaje por notebook: el de la primera celda de código
+  const code = notebook.cells.find((cell): cell is CodeCell => cell.type === 'code');
+  return {
+    nbformat: NBFORMAT,
+    nbformat_minor: NBFORMAT_MINOR,
+    metadata: code ? { title: notebook.title, language_info: { name: code.language } } : { title: notebook.title },
+    cells: notebook.cells.map(exportCell).filter((c): c is IpynbMarkdownCell | IpynbCodeCell => c !== null),
+  };
+}
+
+// === Importación ===
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isIpynb(raw: unknown): boolean {
+  return isObject(raw) && typeof raw.nbformat === 'number' && Array.isArray(raw.cells);
+}
+
+function imageDataUrl(bundle: RawObject): string | null {
+  const mime = IMAGE_MIME_TYPES.find(type => bundle[type] !== undefined);
+  if (!mime) return null;
+  const content = fromSource(bundle[mime]);
+  if (mime === 'image/svg+xml') return `data:${mime};charset=utf-8,${encodeURIComponent(content)}`;
+  return `data:${mime};base64,${content.replace(/\s/g, '')}`;
+}
+
+function codeBlock(text: string, language = ''): string {
+  const body = text.endsWith('\n') ? text : `${text}\n`;
+  // La cerca tiene que ser más larga que cualquier secuencia de ``` del contenido
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  return `${fence}${language}\n${body}${fence}`;
+}
+
+// Los códigos de color ANSI de las trazas de error no se ven bien en markdown
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+function markdownCell(content: string): RawObject {
+  return { type: 'markdown', content };
+}
+
+function imageCell(dataUrl: string, alt: string): RawObject {
+  return { type: 'image', dataUrl, alt };
+}
+
+function decodeAttachmentName(name: string): string {
+  try {
+    return decodeURI(name);
+  } catch {
+    return name;
+  }
+}
+
+/**
+ * Las referencias `attachment:` de una celda markdown. Si la celda es solo
+ * una imagen adjunta (como las que genera `notebookToIpynb`) vuelve a ser una
+ * celda de imagen; si no, las imágenes adjuntas van en celdas aparte.
+ */
+function importMarkdown(obj: RawObject): RawObject[] {
+  const source = fromSource(obj.source);
+  const attachments = isObject(obj.attachments) ? obj.attachments : {};
+  const images = new Map<string, string>();
+  Object.entries(attachments).forEach(([name, bundle]) => {
+    const dataUrl = isObject(bundle) ? imageDataUrl(bundle) : null;
+    if (dataUrl) images.set(name, dataUrl);
+  });
+
+  const single = /^\s*!\[([^\]]*)\]\(attachment:([^)\s]+)\)\s*$/.exec(source);
+  const singleImage = single && (images.get(single[2]) ?? images.get(decodeAttachmentName(single[2])));
+  if (single && singleImage) return [imageCell(singleImage, single[1])];
+
+  const cells: RawObject[] = [];
+  if (source.trim()) cells.push(markdownCell(source));
+  images.forEach((dataUrl, name) => cells.push(imageCell(dataUrl, name)));
+  return cells;
+}
+
+function importCode(obj: RawObject, language: string): RawObject[] {
+  const parts = [codeBlock(fromSource(obj.source), language)];
+  const images: RawObject[] = [];
+  const outputs = Array.isArray(obj.outputs) ? obj.outputs : [];
+  outputs.filter(isObject).forEach(output => {
+    if (output.output_type === 'stream') {
+      parts.push(codeBlock(fromSource(output.text)));
+    } else if (output.output_type === 'error') {
+      const traceback = Array.isArray(output.traceback) ? output.traceback.join('\n') : `${output.ename}: ${output.evalue}`;
+      parts.push(codeBlock(stripAnsi(traceback)));
+    } else if (isObject(output.data)) {
+      const dataUrl = imageDataUrl(output.data);
+      if (dataUrl) {
+        images.push(imageCell(dataUrl, 'Salida'));
+      } else if (output.data['text/plain'] !== undefined) {
+        parts.push(codeBlock(fromSource(output.data['text/plain'])));
+      }
+    }
+  });
+  return [markdownCell(parts.join('\n\n')), ...images];
+}
+
+function codeLanguage(name: string): CodeLanguage | null {
+  const lower = name.toLowerCase();
+  if (lower === 'javascript' || lower === 'js') return 'javascript';
+  if (lower === 'typescript' || lower === 'ts') return 'typescript';
+  return null;
+}
+
+// Código que se puede ejecutar en la app: vuelve a ser una celda de código
+function importRunnableCode(obj: RawObject, language: CodeLanguage): RawObject[] {
+  const outputs: CodeOutput[] = [];
+  const images: RawObject[] = [];
+  (Array.isArray(obj.outputs) ? obj.outputs : []).filter(isObject).forEach(output => {
+    if (output.output_type === 'stream') {
+      const text = fromSource(output.text).replace(/\n$/, '');
+      outputs.push({ type: 'log', level: output.name === 'stderr' ? 'error' : 'log', text });
+    } else if (output.output_type === 'error') {
+      outputs.push({ type: 'error', name: String(output.ename ?? 'Error'), message: String(output.evalue ?? '') });
+    } else if (isObject(output.data)) {
+      const dataUrl = imageDataUrl(output.data);
+      if (dataUrl) {
+        images.push(imageCell(dataUrl, 'Salida'));
+      } else if (output.data['text/plain'] !== undefined) {
+        outputs.push({ type: 'result', text: fromSource(output.data['text/plain']) });
+      }
+    }
+  });
+  const executionCount = typeof obj.execution_count === 'number' ? obj.execution_count : null;
+  return [{ type: 'code', language, source: fromSource(obj.source), outputs, executionCount }, ...images];
+}
+
+/**
+ * Convierte un archivo .ipynb al formato de un notebook exportado (sin
+ * validar): después pasa por la misma validación que cualquier importación.
+ */
+export function ipynbToNotebook(raw: unknown, fileName: string): ValidationResult<RawObject> {
+  const errors: ValidationIssue[] = [];
+  if (!isObject(raw) || !Array.isArray(raw.cells)) {
+    return { ok: false, errors: [{ path: 'cells', message: 'debe ser una lista' }] };
+  }
+  if (raw.nbformat !== NBFORMAT) {
+    return { ok: false, errors: [{ path: 'nbformat', message: `solo se admite la version ${NBFORMAT} del formato` }] };
+  }
+
+  const metadata = isObject(raw.metadata) ? raw.metadata : {};
+  const kernelspec = isObject(metadata.kernelspec) ? metadata.kernelspec : {};
+  const languageInfo = isObject(metadata.language_info) ? metadata.language_info : {};
+  const language = String(languageInfo.name ?? kernelspec.language ?? '');
+
+  const cells: RawObject[] = [];
+  raw.cells.forEach((cell, i) => {
+    if (!isObject(cell)) {
+      errors.push({ path: `cells[${i}]`, message: 'debe ser un objeto' });
+      return;
+    }
+    switch (cell.cell_type) {
+      case 'markdown':
+        cells.push(...importMarkdown(cell));
+        break;
+      case 'code': {
+        const metadata = isObject(cell.metadata) ? cell.metadata : {};
+        const runnable = codeLanguage(String(metadata.language ?? language));
+        cells.push(...(runnable ? importRunnableCode(cell, runnable) : importCode(cell, language)));
+        break;
+      }
+      case 'raw':
+        cells.push(markdownCell(codeBlock(fromSource(cell.source))));
+        break;
+      default:
+        errors.push({ path: `cells[${i}].cell_type`, message: `tipo de celda desconocido: ${JSON.stringify(cell.cell_type)}` });
+    }
+  });
+  if (errors.length > 0) return { ok: false, errors };
+
+  const now = Date.now();
+  const title = typeof metadata.title === 'string' && metadata.title
+    ? metadata.title
+    : fileName.replace(/\.ipynb$/i, '');
+  return {
+    ok: true,
+    value: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      title,
+      cells: cells.map(cell => ({ ...cell, createdAt: now, updatedAt: now })),
+      createdAt: now,
+      updatedAt: now,
+    },
+    repairs: [],
+  };
+}
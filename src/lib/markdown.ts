@@ -0,0 +1,104 @@
+import type { Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeRaw from 'rehype-raw';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+
+/**
+ * Plugins de `ReactMarkdown` compartidos por las celdas, las notas de las
+ * páginas de PDF, la vista de impresión y la exportación HTML: GFM, HTML
+ * embebido y fórmulas LaTeX (`$x$` en línea, `$$...$$` en bloque) con KaTeX,
+ * que no necesita conexión. Una fórmula con errores se muestra en rojo con su
+ * código en lugar de romper la celda.
+ */
+export const remarkPlugins: Options['remarkPlugins'] = [remarkGfm, remarkMath];
+
+export const rehypePlugins: Options['rehypePlugins'] = [rehypeRaw, rehypeKatex];
+
+// Las vistas previas además colorean los bloques de código según su lenguaje (los de Mermaid son diagramas)
+export const previewRehypePlugins: Options['rehypePlugins'] = [
+  rehypeRaw,
+  rehypeKatex,
+  [rehypeHighlight, { plainText: ['mermaid'] }],
+];
+
+// Etiquetas y atributos del MathML que genera KaTeX
+const mathTagNames = [
+  'math', 'semantics', 'annotation', 'mrow', 'mi', 'mn', 'mo', 'ms', 'mtext', 'mspace', 'mglyph', 'msub', 'msup',
+  'msubsup', 'mover', 'munder', 'munderover', 'mfrac', 'mroot', 'msqrt', 'mtable', 'mtr', 'mtd', 'mstyle',
+  'mpadded', 'mphantom', 'menclose',
+];
+const mathAttributes = [
+  'accent', 'accentunder', 'columnalign', 'columnlines', 'columnspacing', 'depth', 'display', 'displaystyle',
+  'encoding', 'fence', 'height', 'largeop', 'linebreak', 'linethickness', 'lspace', 'mathbackground', 'mathcolor',
+  'mathsize', 'mathvariant', 'maxsize', 'minsize', 'notation', 'rowlines', 'rowspacing', 'rspace', 'scriptlevel',
+  'separator', 'stretchy', 'valign', 'voffset', 'width', 'xmlns',
+];
+
+/**
+ * Lo que puede quedar en un HTML exportado: el esquema por defecto (sin
+ * `<script>`, manejadores `on*` ni enlaces `javascript:`), el MathML de las
+ * fórmulas y el color del texto coloreado desde la barra.
+ */
+const standaloneSchema = {
+  ...defaultSchema,
+  tagNames: [...(defaultSchema.tagNames ?? []), ...mathTagNames],
+  attributes: {
+    ...defaultSchema.attributes,
+    ...Object.fromEntries(mathTagNames.map(tagName => [tagName, mathAttributes])),
+    span: [...(defaultSchema.attributes?.span ?? []), ['className', 'katex', 'katex-display', 'katex-error'], ['style', /^color:\s*#[0-9a-f]{3,8};?$/i]],
+  },
+};
+
+// Fuera de la app no están los estilos ni las fuentes de KaTeX: las fórmulas van como MathML. Se limpia después de KaTeX para conservar su salida
+export const standaloneRehypePlugins: Options['rehypePlugins'] = [
+  rehypeRaw,
+  [rehypeKatex, { output: 'mathml' }],
+  [rehypeSanitize, standaloneSchema],
+];
+
+/** Lenguajes que ofrece el botón de bloque de código; `value` es el que va después de ```. */
+export const codeBlockLanguages: { value: string; label: string }[] = [
+  { value: '', label: 'Sin lenguaje' },
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'typescript', label: 'TypeScript' },
+  { value: 'python', label: 'Python' },
+  { value: 'html', label: 'HTML' },
+  { value: 'css', label: 'CSS' },
+  { value: 'json', label: 'JSON' },
+  { value: 'bash', label: 'Bash' },
+  { value: 'sql', label: 'SQL' },
+  { value: 'java', label: 'Java' },
+  { value: 'c', label: 'C' },
+  { value: 'cpp', label: 'C++' },
+  { value: 'csharp', label: 'C#' },
+  { value: 'go', label: 'Go' },
+  { value: 'rust', label: 'Rust' },
+  { value: 'php', label: 'PHP' },
+  { value: 'ruby', label: 'Ruby' },
+  { value: 'kotlin', label: 'Kotlin' },
+  { value: 'swift', label: 'Swift' },
+  { value: 'yaml', label: 'YAML' },
+  { value: 'markdown', label: 'Markdown' },
+];
+
+const languageAliases: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  yml: 'yaml',
+  md: 'markdown',
+  cs: 'csharp',
+};
+
+// Los bloques escritos a mano pueden traer cualquier nombre: los desconocidos se muestran tal cual
+export function codeLanguageLabel(language: string): string {
+  const value = languageAliases[language.toLowerCase()] ?? language.toLowerCase();
+  return codeBlockLanguages.find(lang => lang.value === value)?.label ?? language;
+}
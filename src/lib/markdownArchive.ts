@@ -0,0 +1,291 @@
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'fflate';
+import { Cell, CodeOutput, Notebook } from '@/types/notebook';
+import { blobToDataUrl, dataUrlToBlob } from '@/lib/assets';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/migrations';
+import { countPdfPages, createPdfPages } from '@/lib/pdf';
+import { ValidationIssue, ValidationResult } from '@/lib/validation';
+import { chartToSvg, codeOutputText } from '@/lib/codeOutputs';
+
+/**
+ * Exportación a Markdown para publicar en un sitio estático o en git: un zip
+ * con `<titulo>.md` y una carpeta `assets/` con los dibujos (PNG), las
+ * imágenes y los PDFs. Las celdas se separan con un comentario HTML que los
+ * renderizadores de Markdown ignoran; al importar, cada imagen o enlace a un
+ * PDF de `assets/` que ocupa una línea propia vuelve a ser una celda. Las
+ * celdas de código quedan como bloques de código seguidos de sus salidas (los
+ * gráficos como SVG en `assets/`); al importar vuelven como Markdown y los
+ * gráficos como imágenes.
+ */
+
+const ASSETS_DIR = 'assets';
+const CELL_MARKER = '<!-- cell -->';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+};
+
+const MIME_TYPES: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(EXTENSIONS).map(([mime, ext]) => [ext, mime])),
+  jpeg: 'image/jpeg',
+};
+
+/** Nombre de archivo seguro: minúsculas, sin acentos ni espacios. */
+export function slugify(text: string, fallback = 'notebook'): string {
+  const slug = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || fallback;
+}
+
+function splitExtension(name: string): [string, string] {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? [name.slice(0, dot), name.slice(dot + 1).toLowerCase()] : [name, ''];
+}
+
+// Los corchetes cerrarían antes de tiempo el texto de la imagen o del enlace
+function escapeLabel(text: string): string {
+  return text.replace(/[[\]]/g, '\\$&');
+}
+
+// La cerca tiene que ser más larga que cualquier secuencia de ``` del contenido
+function fenced(text: string, info = ''): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  return `${fence}${info}\n${text.replace(/\n$/, '')}\n${fence}`;
+}
+
+function markdownTable(columns: string[], rows: string[][]): string {
+  const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  const line = (values: string[]) => `| ${values.map(cell).join(' | ')} |`;
+  return [line(columns), line(columns.map(() => '---')), ...rows.map(line)].join('\n');
+}
+
+function svgDataUrl(svg: string): string {
+  const bytes = strToU8(svg);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return `data:image/svg+xml;base64,${btoa(binary)}`;
+}
+
+export async function notebookToMarkdownZip(notebook: Notebook): Promise<{ fileName: string; data: Uint8Array }> {
+  const slug = slugify(notebook.title);
+  const files: Zippable = {};
+  const usedNames = new Set<string>();
+  let counter = 0;
+
+  const addAsset = async (dataUrl: string, name: string): Promise<string> => {
+    const blob = dataUrlToBlob(dataUrl);
+    const [base, ext] = splitExtension(name);
+    const extension = ext || EXTENSIONS[blob.type] || 'bin';
+    let fileName = `${slugify(base, 'archivo')}.${extension}`;
+    for (let n = 2; usedNames.has(fileName); n++) {
+      fileName = `${slugify(base, 'archivo')}-${n}.${extension}`;
+    }
+    usedNames.add(fileName);
+    // Imágenes y PDFs ya vienen comprimidos
+    files[`${ASSETS_DIR}/${fileName}`] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+    return `${ASSETS_DIR}/${fileName}`;
+  };
+
+  // El código y, en orden, sus salidas: el texto seguido va en un solo bloque
+  const exportCode = async (source: string, language: string, outputs: CodeOutput[]): Promise<string | null> => {
+    if (!source.trim() && outputs.length === 0) return null;
+    const parts = source.trim() ? [fenced(source, language)] : [];
+    let text: string[] = [];
+    const flushText = () => {
+      if (text.length > 0) parts.push(fenced(text.join('\n'), 'text'));
+      text = [];
+    };
+    for (const [i, output] of outputs.entries()) {
+      if (output.type === 'table') {
+        flushText();
+        parts.push(markdownTable(output.columns, output.rows));
+      } else if (output.type === 'chart') {
+        flushText();
+        parts.push(`![Grafico](${await addAsset(svgDataUrl(chartToSvg(output)), `grafico-${counter}-${i + 1}.svg`)})`);
+      } else {
+        text.push(codeOutputText(output));
+      }
+    }
+    flushText();
+    return parts.join('\n\n');
+  };
+
+  const exportCell = async (cell: Cell): Promise<string | null> => {
+    counter++;
+    switch (cell.type) {
+      case 'markdown':
+        return cell.content.trim() ? cell.content.trimEnd() : null;
+      case 'drawing':
+        return cell.dataUrl ? `![Dibujo](${await addAsset(cell.dataUrl, `dibujo-${counter}`)})` : null;
+      case 'image':
+        return cell.dataUrl ? `![${escapeLabel(cell.alt)}](${await addAsset(cell.dataUrl, `imagen-${counter}`)})` : null;
+      case 'pdf':
+        return cell.pdfData
+          ? `[${escapeLabel(cell.fileName || 'PDF')}](${await addAsset(cell.pdfData, cell.fileName || `documento-${counter}.pdf`)})`
+          : null;
+      case 'code':
+        return exportCode(cell.source, cell.language, cell.outputs);
+    }
+  };
+
+  const blocks: string[] = [];
+  for (const cell of notebook.cells) {
+    const block = await exportCell(cell);
+    if (block !== null) blocks.push(block);
+  }
+
+  const frontMatter = `---\ntitle: ${JSON.stringify(notebook.title)}\n---\n\n`;
+  files[`${slug}.md`] = strToU8(frontMatter + blocks.join(`\n\n${CELL_MARKER}\n\n`) + '\n');
+  return { fileName: `${slug}.zip`, data: zipSync(files) };
+}
+
+// === Importación ===
+
+type RawObject = Record<string, unknown>;
+
+function parseFrontMatter(text: string): { title: string | null; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n/.exec(text);
+  if (!match) return { title: null, body: text };
+  const line = /^title:\s*(.+)$/m.exec(match[1])?.[1].trim() ?? null;
+  let title = line;
+  if (line?.startsWith('"')) {
+    try {
+      title = JSON.parse(line);
+    } catch {
+      title = line.slice(1, -1);
+    }
+  }
+  return { title, body: text.slice(match[0].length) };
+}
+
+// Ruta dentro del zip de un destino relativo al .md; null si es una URL externa
+function resolvePath(baseDir: string, target: string): string | null {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('/')) return null;
+  let decoded = target;
+  try {
+    decoded = decodeURI(target);
+  } catch {
+    // Se usa tal cual
+  }
+  const parts: string[] = [];
+  for (const part of `${baseDir}${decoded}`.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+// Una imagen o un enlace que ocupa toda la línea: `![texto](ruta)` o `[texto](ruta)`
+const STANDALONE_LINK = /^\s*(!?)\[((?:\\.|[^\]])*)\]\(\s*<?([^)<>]+?)>?\s*\)\s*$/;
+
+/**
+ * Lee un zip exportado con `notebookToMarkdownZip` (o una carpeta con un .md
+ * y sus archivos) y lo convierte al formato de un notebook exportado, sin
+ * validar. Las imágenes dentro de un párrafo quedan como texto Markdown.
+ */
+export async function markdownZipToNotebook(data: Uint8Array, fileName: string): Promise<ValidationResult<RawObject>> {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(data);
+  } catch {
+    return { ok: false, errors: [{ path: '(raiz)', message: 'no es un archivo zip valido' }] };
+  }
+
+  // El .md menos anidado (los zips de macOS agregan una carpeta __MACOSX)
+  const depth = (path: string) => path.split('/').length;
+  const mdPath = Object.keys(entries)
+    .filter(path => /\.md$/i.test(path) && !path.startsWith('__MACOSX/'))
+    .sort((a, b) => depth(a) - depth(b))[0];
+  if (!mdPath) {
+    return { ok: false, errors: [{ path: '(raiz)', message: 'el zip no contiene ningun archivo .md' }] };
+  }
+  const baseDir = mdPath.slice(0, mdPath.lastIndexOf('/') + 1);
+  const { title, body } = parseFrontMatter(strFromU8(entries[mdPath]));
+
+  const errors: ValidationIssue[] = [];
+  const cells: RawObject[] = [];
+  let buffer: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    const content = buffer.join('\n').trim();
+    if (content) cells.push({ type: 'markdown', content });
+    buffer = [];
+  };
+
+  const toDataUrl = (bytes: Uint8Array, mime: string) => blobToDataUrl(new Blob([bytes.slice()], { type: mime }));
+
+  for (const line of body.split(/\r?\n/)) {
+    // Dentro de un bloque de código nada es una celda aparte
+    if (fence) {
+      buffer.push(line);
+      if (line.trim().startsWith(fence)) fence = null;
+      continue;
+    }
+    const opening = /^\s*(`{3,}|~{3,})/.exec(line);
+    if (opening) {
+      fence = opening[1];
+      buffer.push(line);
+      continue;
+    }
+    if (line.trim() === CELL_MARKER) {
+      flush();
+      continue;
+    }
+
+    const link = STANDALONE_LINK.exec(line);
+    const path = link && resolvePath(baseDir, link[3]);
+    const bytes = path ? entries[path] : undefined;
+    const mime = path ? MIME_TYPES[splitExtension(path)[1]] : undefined;
+    if (!link || !path || !bytes || !mime || (link[1] === '!') !== mime.startsWith('image/')) {
+      buffer.push(line);
+      continue;
+    }
+
+    flush();
+    const label = link[2].replace(/\\(.)/g, '$1');
+    if (mime.startsWith('image/')) {
+      cells.push({ type: 'image', dataUrl: await toDataUrl(bytes, mime), alt: label });
+      continue;
+    }
+    try {
+      const pageCount = await countPdfPages(bytes.slice());
+      cells.push({
+        type: 'pdf',
+        pdfData: await toDataUrl(bytes, mime),
+        fileName: label || path.slice(path.lastIndexOf('/') + 1),
+        pages: createPdfPages(pageCount),
+        totalOriginalPages: pageCount,
+      });
+    } catch {
+      errors.push({ path, message: 'no es un PDF valido' });
+    }
+  }
+  flush();
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const now = Date.now();
+  return {
+    ok: true,
+    value: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      title: title || fileName.replace(/\.zip$/i, ''),
+      cells: cells.map(cell => ({ ...cell, createdAt: now, updatedAt: now })),
+      createdAt: now,
+      updatedAt: now,
+    },
+    repairs: [],
+  };
+}
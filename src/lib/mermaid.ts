@@ -0,0 +1,72 @@
+import type { Mermaid, MermaidConfig } from 'mermaid';
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+let nextId = 0;
+
+// Mermaid pesa bastante: se carga recién cuando aparece el primer diagrama
+function loadMermaid(): Promise<Mermaid> {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(module => module.default);
+  }
+  return mermaidPromise;
+}
+
+/**
+ * Genera el SVG de un diagrama. La configuración de Mermaid es global, así
+ * que los renders van de a uno: si no, un diagrama podría salir con el tema
+ * que pidió otro. Un diagrama con errores rechaza con el mensaje de Mermaid.
+ */
+function render(code: string, config: MermaidConfig): Promise<string> {
+  const task = queue.then(async () => {
+    const mermaid = await loadMermaid();
+    mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', suppressErrorRendering: true, ...config });
+    const { svg } = await mermaid.render(`mermaid-diagram-${nextId++}`, code);
+    return svg;
+  });
+  queue = task.catch(() => undefined);
+  return task;
+}
+
+export function renderMermaid(code: string, dark: boolean): Promise<string> {
+  return render(code, { theme: dark ? 'dark' : 'default', htmlLabels: true });
+}
+
+/**
+ * El diagrama como PNG para guardarlo en una celda de imagen: siempre con el
+ * tema claro sobre fondo blanco, para que se lea igual con cualquier tema.
+ * Los textos van como SVG y no como HTML, que ensucia el canvas en algunos
+ * navegadores.
+ */
+export async function mermaidToPng(code: string, scale = 2): Promise<string> {
+  const svg = await render(code, { theme: 'default', htmlLabels: false });
+
+  // Mermaid deja el ancho en 100%: la imagen necesita el tamaño real del viewBox
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+  const [, , width, height] = (root.getAttribute('viewBox') || '0 0 800 600').split(/[\s,]+/).map(Number);
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+  root.removeAttribute('style');
+  const source = new XMLSerializer().serializeToString(doc);
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(width * scale);
+      canvas.height = Math.ceil(height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('No se pudo crear la imagen'));
+        return;
+      }
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => reject(new Error('No se pudo crear la imagen'));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(source)}`;
+  });
+}
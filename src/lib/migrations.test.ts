@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { Notebook, PDFCell, PDFPage, ProjectStore } from '@/types/notebook';
+import {
+  CURRENT_SCHEMA_VERSION,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  SchemaVersionError,
+  migrateNotebook,
+  migrateStore,
+  migrations,
+} from '@/lib/migrations';
+import { validateNotebook } from '@/lib/validation';
+
+function step(version: number) {
+  const migration = migrations.find(m => m.version === version);
+  if (!migration) throw new Error(`No hay migracion ${version}`);
+  return migration;
+}
+
+function page(id: string, fields: Partial<PDFPage> = {}): PDFPage {
+  return { id, pageNumber: 1, drawingDataUrl: '', notes: '', noteCells: [], isCustomPage: false, ...fields };
+}
+
+function pdfNotebook(pages: PDFPage[]): Notebook {
+  const cell: PDFCell = {
+    id: 'pdf-1',
+    type: 'pdf',
+    pdfData: '',
+    fileName: 'apunte.pdf',
+    pages,
+    totalOriginalPages: pages.length,
+    createdAt: 1,
+    updatedAt: 1,
+  };
+  return { id: 'nb-1', title: 'Apuntes', cells: [cell], createdAt: 1, updatedAt: 2 };
+}
+
+function pdfPages(notebook: Notebook): PDFPage[] {
+  const cell = notebook.cells[0];
+  if (cell.type !== 'pdf') throw new Error('Se esperaba una celda PDF');
+  return cell.pages;
+}
+
+// Formato de la versión 0: el store era directamente un notebook
+const legacyNotebook = {
+  id: 'nb-legacy',
+  title: 'Mi notebook',
+  cells: [{ id: 'c1', type: 'markdown', content: '# Hola', createdAt: 1, updatedAt: 1 }],
+  createdAt: 1,
+  updatedAt: 2,
+};
+
+describe('migracion 1: notebook unico a ProjectStore', () => {
+  it('envuelve el notebook y lo deja activo', () => {
+    const store = step(1).migrateStore!(legacyNotebook as unknown as ProjectStore);
+    expect(store).toEqual({ projects: [], notebooks: [legacyNotebook], activeNotebookId: 'nb-legacy' });
+  });
+
+  it('no toca un store que ya tiene notebooks', () => {
+    const store = { projects: [], notebooks: [], activeNotebookId: null } as unknown as ProjectStore;
+    expect(step(1).migrateStore!(store)).toBe(store);
+  });
+});
+
+describe('migracion 2: notas legacy de las paginas de PDF', () => {
+  it('convierte las notas en la primera mini celda de Markdown', () => {
+    const existing = { id: 'm1', type: 'markdown' as const, content: 'ya estaba' };
+    const notebook = step(2).migrateNotebook!(pdfNotebook([page('p1', { notes: 'Nota vieja', noteCells: [existing] })]));
+    const [migrated] = pdfPages(notebook);
+    expect(migrated.notes).toBe('');
+    expect(migrated.noteCells).toHaveLength(2);
+    expect(migrated.noteCells[0]).toMatchObject({ type: 'markdown', content: 'Nota vieja' });
+    expect(migrated.noteCells[1]).toBe(existing);
+  });
+
+  it('no crea celdas para notas vacias y completa noteCells si falta', () => {
+    const legacy = { ...page('p1', { notes: '  \n' }), noteCells: undefined } as unknown as PDFPage;
+    const [migrated] = pdfPages(step(2).migrateNotebook!(pdfNotebook([legacy])));
+    expect(migrated.notes).toBe('');
+    expect(migrated.noteCells).toEqual([]);
+  });
+});
+
+describe('migracion 3: papelera', () => {
+  it('agrega la papelera vacia y la retencion por defecto', () => {
+    const store = { projects: [], notebooks: [], activeNotebookId: null } as unknown as ProjectStore;
+    expect(step(3).migrateStore!(store)).toMatchObject({ trash: [], trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS });
+  });
+
+  it('conserva una papelera y una retencion que ya existen', () => {
+    const store: ProjectStore = { projects: [], notebooks: [], activeNotebookId: null, trash: [], trashRetentionDays: 7 };
+    expect(step(3).migrateStore!(store).trashRetentionDays).toBe(7);
+  });
+});
+
+describe('migrateStore', () => {
+  it('lleva un store de la version 0 a la actual', () => {
+    const legacy = { ...legacyNotebook, cells: pdfNotebook([page('p1', { notes: 'Nota' })]).cells };
+    const store = migrateStore(legacy as unknown as ProjectStore, 0);
+    expect(store.trash).toEqual([]);
+    expect(store.trashRetentionDays).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(pdfPages(store.notebooks[0])[0].noteCells[0]).toMatchObject({ content: 'Nota' });
+  });
+});
+
+describe('migrateNotebook al importar', () => {
+  // Un notebook exportado con la versión 1, antes de las mini celdas
+  const exported = pdfNotebook([page('p1', { notes: 'Resumen del capitulo' }), page('p2')]);
+
+  it('migra el notebook validado desde la version del archivo', () => {
+    const result = validateNotebook(JSON.parse(JSON.stringify(exported)));
+    if (!result.ok) throw new Error('El fixture deberia ser valido');
+    const [first, second] = pdfPages(migrateNotebook(result.value, 1));
+    expect(first.notes).toBe('');
+    expect(first.noteCells).toEqual([expect.objectContaining({ type: 'markdown', content: 'Resumen del capitulo' })]);
+    expect(second.noteCells).toEqual([]);
+  });
+
+  it('no cambia un notebook de la version actual', () => {
+    expect(migrateNotebook(exported, CURRENT_SCHEMA_VERSION)).toBe(exported);
+  });
+
+  it('rechaza un archivo de una version mas nueva', () => {
+    expect(() => migrateNotebook(exported, CURRENT_SCHEMA_VERSION + 1)).toThrow(SchemaVersionError);
+  });
+});
@@ -0,0 +1,128 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Notebook, ProjectStore } from '@/types/notebook';
+
+/**
+ * Versión actual del esquema de datos. Se guarda junto al store persistido y en
+ * cada notebook exportado; al cargar o importar se aplican en orden todas las
+ * migraciones con versión mayor a la de los datos.
+ *
+ * - 0: notebook único (formato original, antes de los proyectos)
+ * - 1: ProjectStore con proyectos y notebooks
+ * - 2: las notas legacy de cada página de PDF pasan a ser mini celdas
+ * - 3: papelera con elementos eliminados y días de retención
+ * - 4: payloads binarios como assets por contenido; los archivos exportados
+ *      llevan los assets aparte y las celdas los referencian como "asset:<hash>"
+ * - 5: celdas de código (las versiones anteriores no las reconocen)
+ */
+export const CURRENT_SCHEMA_VERSION = 5;
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Transformación del store completo (antes de migrar cada notebook)
+  migrateStore?: (store: ProjectStore) => ProjectStore;
+  // Transformación de un notebook; se aplica tanto al cargar como al importar
+  migrateNotebook?: (notebook: Notebook) => Notebook;
+}
+
+export class SchemaVersionError extends Error {
+  constructor(public version: number) {
+    super(`Los datos tienen la version de esquema ${version}, mas nueva que la soportada (${CURRENT_SCHEMA_VERSION})`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Envolver el notebook único en un ProjectStore',
+    migrateStore: (store) => {
+      // En la versión 0 los datos eran directamente un Notebook
+      const legacy = store as unknown as Notebook & Partial<ProjectStore>;
+      if (Array.isArray(legacy.notebooks)) return store;
+      const notebook: Notebook = {
+        id: legacy.id,
+        title: legacy.title,
+        cells: legacy.cells,
+        createdAt: legacy.createdAt,
+        updatedAt: legacy.updatedAt,
+      };
+      // Los campos agregados en versiones posteriores los completan sus migraciones
+      const wrapped: Partial<ProjectStore> = {
+        projects: [],
+        notebooks: [notebook],
+        activeNotebookId: notebook.id,
+      };
+      return wrapped as ProjectStore;
+    },
+  },
+  {
+    version: 2,
+    description: 'Convertir las notas legacy de las páginas de PDF en mini celdas de Markdown',
+    migrateNotebook: (notebook) => ({
+      ...notebook,
+      cells: notebook.cells.map(cell => {
+        if (cell.type !== 'pdf') return cell;
+        return {
+          ...cell,
+          pages: cell.pages.map(page => {
+            const noteCells = page.noteCells ?? [];
+            if (!page.notes?.trim()) {
+              return { ...page, notes: '', noteCells };
+            }
+            return {
+              ...page,
+              notes: '',
+              noteCells: [{ id: uuidv4(), type: 'markdown' as const, content: page.notes }, ...noteCells],
+            };
+          }),
+        };
+      }),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Agregar la papelera al store',
+    migrateStore: (store) => ({
+      ...store,
+      trash: store.trash ?? [],
+      trashRetentionDays: store.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS,
+    }),
+  },
+  {
+    // Solo cambia cómo se guardan los payloads: al cargar se convierten los
+    // blobs anteriores en assets y al importar se resuelven las referencias
+    version: 4,
+    description: 'Guardar los payloads binarios como assets por contenido',
+  },
+  {
+    version: 5,
+    description: 'Agregar las celdas de código ejecutable',
+  },
+];
+
+function pendingMigrations(fromVersion: number): Migration[] {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(fromVersion);
+  }
+  return migrations.filter(m => m.version > fromVersion);
+}
+
+/** Migra un notebook (por ejemplo uno importado) desde `fromVersion` a la versión actual. */
+export function migrateNotebook(notebook: Notebook, fromVersion: number): Notebook {
+  return pendingMigrations(fromVersion).reduce(
+    (current, m) => (m.migrateNotebook ? m.migrateNotebook(current) : current),
+    notebook
+  );
+}
+
+/** Migra un store persistido desde `fromVersion` a la versión actual. */
+export function migrateStore(store: ProjectStore, fromVersion: number): ProjectStore {
+  return pendingMigrations(fromVersion).reduce((current, m) => {
+    const migrated = m.migrateStore ? m.migrateStore(current) : current;
+    if (!m.migrateNotebook) return migrated;
+    return { ...migrated, notebooks: migrated.notebooks.map(m.migrateNotebook) };
+  }, store);
+}
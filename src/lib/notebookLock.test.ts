@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Notebook, TrashedNotebook } from '@/types/notebook';
+import {
+  forgetNotebookKey,
+  forgetNotebookKeys,
+  isNotebookLocked,
+  openTrashItem,
+  protectNotebook,
+  sealNotebook,
+  unlockedNotebookIds,
+} from '@/lib/notebookLock';
+
+const notebook: Notebook = {
+  id: 'nb-1',
+  title: 'Diario',
+  cells: [{ id: 'c1', type: 'markdown', content: 'secreto', createdAt: 1, updatedAt: 1 }],
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+async function trashedLockedNotebook(): Promise<TrashedNotebook> {
+  const lock = await protectNotebook(notebook, 'clave');
+  const sealed = await sealNotebook({ ...notebook, lock });
+  return { id: 't1', kind: 'notebook', deletedAt: 1, location: [], notebook: sealed };
+}
+
+afterEach(() => forgetNotebookKeys());
+
+describe('notebooks con contrasena en la papelera', () => {
+  it('se guardan sin celdas en claro', async () => {
+    const item = await trashedLockedNotebook();
+    expect(item.notebook.cells).toEqual([]);
+    expect(item.notebook.lock?.cells).toBeTruthy();
+  });
+
+  it('se abren si la pestana tiene la clave', async () => {
+    const item = await trashedLockedNotebook();
+    const opened = await openTrashItem(item);
+    expect(opened.kind === 'notebook' && opened.notebook.cells).toEqual(notebook.cells);
+  });
+
+  it('sin la clave quedan bloqueados y no se toman por vacios', async () => {
+    const item = await trashedLockedNotebook();
+    forgetNotebookKey(notebook.id);
+    expect(unlockedNotebookIds()).toEqual([]);
+    expect(await openTrashItem(item)).toBe(item);
+    expect(isNotebookLocked(item.notebook)).toBe(true);
+    // Guardarlo otra vez no pisa el contenido cifrado
+    expect((await sealNotebook(item.notebook)).lock?.cells).toBe(item.notebook.lock?.cells);
+  });
+});
@@ -0,0 +1,163 @@
+import { Cell, Notebook, NotebookLock, TrashItem, TrashedCell } from '@/types/notebook';
+import {
+  EncryptionMeta,
+  createEncryptionKey,
+  fromBase64,
+  openJson,
+  packSealed,
+  sealJson,
+  toBase64,
+  unlockEncryptionKey,
+  unpackSealed,
+} from '@/lib/encryption';
+import { SyncMessage } from '@/lib/sync';
+
+/**
+ * Notebooks con contraseña propia. Las claves de los que se desbloquearon
+ * viven solo en memoria de esta pestaña; los demás tienen `cells` vacío y su
+ * contenido cifrado en `lock.cells`. Antes de guardar, compartir con otras
+ * pestañas o crear una versión, `sealNotebook` vuelve a cifrar las celdas.
+ * Las celdas que se borran de esos notebooks van a la papelera cifradas con
+ * la misma clave. Una clave solo se conserva mientras su notebook está en el
+ * store: lo que vuelve de la papelera, de otra pestaña o de una copia llega
+ * cifrado y se abre con `openNotebook`, nunca se toma por desbloqueado con
+ * `cells` vacío.
+ */
+const unlockedKeys = new Map<string, { key: CryptoKey; salt: string }>();
+
+// Solo sirve la clave de la misma contraseña: otra pestaña pudo cambiarla y
+// las versiones guardadas pueden tener la anterior
+function keyFor(notebook: Notebook): CryptoKey | null {
+  const unlocked = unlockedKeys.get(notebook.id);
+  return unlocked && unlocked.salt === notebook.lock?.salt ? unlocked.key : null;
+}
+
+function keyForTrashedCell(item: TrashedCell): CryptoKey | null {
+  const unlocked = unlockedKeys.get(item.notebookId);
+  return unlocked && unlocked.salt === item.lock?.salt ? unlocked.key : null;
+}
+
+function toMeta(lock: NotebookLock): EncryptionMeta {
+  return { salt: fromBase64(lock.salt), iterations: lock.iterations, check: unpackSealed(lock.check) };
+}
+
+/** El notebook tiene contraseña y en esta pestaña todavía no se desbloqueó. */
+export function isNotebookLocked(notebook: Notebook): boolean {
+  return !!notebook.lock && !keyFor(notebook);
+}
+
+/** Pone contraseña a un notebook; queda desbloqueado en esta pestaña. */
+export async function protectNotebook(notebook: Notebook, passphrase: string): Promise<NotebookLock> {
+  const { key, meta } = await createEncryptionKey(passphrase);
+  const salt = toBase64(meta.salt);
+  unlockedKeys.set(notebook.id, { key, salt });
+  return {
+    salt,
+    iterations: meta.iterations,
+    check: packSealed(meta.check),
+    cells: packSealed(await sealJson(key, notebook.cells)),
+  };
+}
+
+/** Descifra las celdas con la contraseña; null si no es correcta. */
+export async function unlockNotebookCells(notebook: Notebook, passphrase: string): Promise<Cell[] | null> {
+  if (!notebook.lock) return notebook.cells;
+  const unlocked = await unlockEncryptionKey(passphrase, toMeta(notebook.lock));
+  if (!unlocked) return null;
+  const cells = notebook.lock.cells ? await openJson<Cell[]>(unlocked.key, unpackSealed(notebook.lock.cells)) : [];
+  unlockedKeys.set(notebook.id, { key: unlocked.key, salt: notebook.lock.salt });
+  return cells;
+}
+
+export async function checkNotebookPassphrase(notebook: Notebook, passphrase: string): Promise<boolean> {
+  return !notebook.lock || !!(await unlockEncryptionKey(passphrase, toMeta(notebook.lock)));
+}
+
+export function forgetNotebookKey(notebookId: string) {
+  unlockedKeys.delete(notebookId);
+}
+
+export function forgetNotebookKeys() {
+  unlockedKeys.clear();
+}
+
+/** Notebooks desbloqueados en esta pestaña. */
+export function unlockedNotebookIds(): string[] {
+  return [...unlockedKeys.keys()];
+}
+
+/**
+ * Forma cifrada del notebook: sin celdas en claro y con `lock.cells` al día
+ * si está desbloqueado. Los que no tienen contraseña quedan igual.
+ */
+export async function sealNotebook(notebook: Notebook): Promise<Notebook> {
+  if (!notebook.lock) return notebook;
+  const key = keyFor(notebook);
+  if (!key) return notebook.cells.length === 0 ? notebook : { ...notebook, cells: [] };
+  return {
+    ...notebook,
+    cells: [],
+    lock: { ...notebook.lock, cells: packSealed(await sealJson(key, notebook.cells)) },
+  };
+}
+
+/**
+ * Descifra las celdas de un notebook cifrado si en esta pestaña se conoce la
+ * clave. Si no se puede (por ejemplo, una versión guardada con la contraseña
+ * anterior) queda cifrado.
+ */
+export async function openNotebook(notebook: Notebook): Promise<Notebook> {
+  const key = keyFor(notebook);
+  if (!key || !notebook.lock?.cells) return notebook;
+  try {
+    return { ...notebook, cells: await openJson<Cell[]>(key, unpackSealed(notebook.lock.cells)) };
+  } catch {
+    return { ...notebook, cells: [] };
+  }
+}
+
+// Sin la clave no se puede cifrar: antes que guardar la celda en claro, se descarta
+async function sealTrashedCell(item: TrashedCell): Promise<TrashedCell> {
+  if (!item.lock || !item.cell) return item;
+  const key = keyForTrashedCell(item);
+  if (!key) return { ...item, cell: null };
+  return { ...item, cell: null, lock: { ...item.lock, cell: packSealed(await sealJson(key, item.cell)) } };
+}
+
+export async function sealTrashItem(item: TrashItem): Promise<TrashItem> {
+  if (item.kind === 'cell') return sealTrashedCell(item);
+  if (item.kind !== 'notebook' || !item.notebook.lock) return item;
+  return { ...item, notebook: await sealNotebook(item.notebook) };
+}
+
+/** Descifra un notebook o una celda de la papelera si en esta pestaña se conoce su clave. */
+export async function openTrashItem(item: TrashItem): Promise<TrashItem> {
+  if (item.kind === 'notebook') {
+    const notebook = await openNotebook(item.notebook);
+    return notebook === item.notebook ? item : { ...item, notebook };
+  }
+  if (item.kind !== 'cell' || item.cell || !item.lock?.cell) return item;
+  const key = keyForTrashedCell(item);
+  if (!key) return item;
+  try {
+    return { ...item, cell: await openJson<Cell>(key, unpackSealed(item.lock.cell)) };
+  } catch {
+    return item;
+  }
+}
+
+export async function sealSyncMessage(message: SyncMessage): Promise<SyncMessage> {
+  const [notebooks, added] = await Promise.all([
+    Promise.all(message.notebooks.map(sealNotebook)),
+    Promise.all(message.trash?.added.map(sealTrashItem) ?? []),
+  ]);
+  return { ...message, notebooks, trash: message.trash && { ...message.trash, added } };
+}
+
+export async function openSyncMessage(message: SyncMessage): Promise<SyncMessage> {
+  const [notebooks, added] = await Promise.all([
+    Promise.all(message.notebooks.map(openNotebook)),
+    Promise.all(message.trash?.added.map(openTrashItem) ?? []),
+  ]);
+  return { ...message, notebooks, trash: message.trash && { ...message.trash, added } };
+}
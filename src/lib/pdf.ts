@@ -0,0 +1,55 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PDFPage } from '@/types/notebook';
+
+// pdf.js se carga solo cuando hace falta (requiere APIs del navegador)
+async function loadPdfjs() {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
+  return pdfjs;
+}
+
+export async function countPdfPages(data: Uint8Array): Promise<number> {
+  const pdfjs = await loadPdfjs();
+  const doc = await pdfjs.getDocument({ data }).promise;
+  const count = doc.numPages;
+  await doc.destroy();
+  return count;
+}
+
+/** Una página sin anotaciones por cada página del PDF original. */
+export function createPdfPages(count: number): PDFPage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: uuidv4(),
+    pageNumber: i + 1,
+    drawingDataUrl: '',
+    notes: '',
+    noteCells: [],
+    isCustomPage: false,
+  }));
+}
+
+/**
+ * Renderiza páginas del PDF como imágenes JPEG del ancho indicado (el mismo
+ * que usa `PDFCell`, para que los dibujos encima coincidan). Devuelve número
+ * de página -> data URL; las páginas que no existen se omiten.
+ */
+export async function renderPdfPages(data: Uint8Array, pageNumbers: number[], width: number): Promise<Map<number, string>> {
+  const pdfjs = await loadPdfjs();
+  const doc = await pdfjs.getDocument({ data }).promise;
+  const images = new Map<number, string>();
+  try {
+    for (const pageNumber of new Set(pageNumbers)) {
+      if (pageNumber < 1 || pageNumber > doc.numPages) continue;
+      const page = await doc.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+      const canvas = document.createElement('canvas');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      await page.render({ canvas, viewport }).promise;
+      images.set(pageNumber, canvas.toDataURL('image/jpeg', 0.85));
+    }
+  } finally {
+    await doc.destroy();
+  }
+  return images;
+}
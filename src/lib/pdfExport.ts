@@ -0,0 +1,238 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage as PdfLibPage, StandardFonts, degrees } from 'pdf-lib';
+import { MiniCell, PDFCell, PDFPage } from '@/types/notebook';
+import { dataUrlToBlob } from '@/lib/assets';
+
+/**
+ * Exportación de una celda PDF a un PDF real: la capa de dibujo de cada página
+ * se estampa sobre la página original, las páginas agregadas en la app pasan
+ * a ser páginas nuevas en su lugar y, si se pide, las notas de cada página van
+ * en una página aparte a continuación.
+ */
+
+export interface AnnotatedPdfOptions {
+  includeNotes: boolean;
+}
+
+// Tamaño carta, para las páginas agregadas cuando no hay una original antes
+const DEFAULT_PAGE_SIZE: [number, number] = [612, 792];
+
+const NOTES_MARGIN = 48;
+const NOTES_TITLE_SIZE = 14;
+const NOTES_FONT_SIZE = 11;
+const NOTES_LINE_HEIGHT = 15;
+const NOTES_GAP = 10;
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+function rasterize(dataUrl: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth || 800;
+      canvas.height = img.naturalHeight || 600;
+      canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => reject(new Error('No se pudo cargar la imagen'));
+    img.src = dataUrl;
+  });
+}
+
+// pdf-lib solo incrusta PNG y JPEG: las demás imágenes se pasan a PNG con un canvas
+async function embedImage(doc: PDFDocument, dataUrl: string): Promise<PDFImage | null> {
+  try {
+    const blob = dataUrlToBlob(dataUrl);
+    if (blob.type === 'image/png') return await doc.embedPng(await blob.arrayBuffer());
+    if (blob.type === 'image/jpeg') return await doc.embedJpg(await blob.arrayBuffer());
+    return await doc.embedPng(await rasterize(dataUrl));
+  } catch {
+    return null;
+  }
+}
+
+// Tamaño de la página tal como se ve (con la rotación aplicada)
+function displaySize(page: PdfLibPage): [number, number] {
+  const { width, height } = page.getCropBox();
+  const rotation = page.getRotation().angle % 180;
+  return rotation === 0 ? [width, height] : [height, width];
+}
+
+/**
+ * Estampa la capa de dibujo sobre la página. El dibujo se hizo sobre la página
+ * ya rotada, así que en páginas con /Rotate se gira al revés y se ubica en la
+ * esquina que queda abajo a la izquierda al mostrarla.
+ */
+function drawOverlay(page: PdfLibPage, overlay: PDFImage) {
+  const { x, y, width, height } = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const [displayWidth, displayHeight] = displaySize(page);
+  const origins: Record<number, [number, number]> = {
+    0: [x, y],
+    90: [x + width, y],
+    180: [x + width, y + height],
+    270: [x, y + height],
+  };
+  const [originX, originY] = origins[rotation] ?? origins[0];
+  page.drawImage(overlay, {
+    x: originX,
+    y: originY,
+    width: displayWidth,
+    height: displayHeight,
+    rotate: degrees(rotation),
+  });
+}
+
+// Las fuentes estándar de PDF no tienen emojis ni la mayoría de los símbolos
+function sanitize(text: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text.replace(/\t/g, '  '))
+    .map(char => (supported.has(char.codePointAt(0) ?? 0) ? char : '?'))
+    .join('');
+}
+
+// Texto plano aproximado: las notas van sin formato en la página de notas
+function markdownToText(markdown: string): string {
+  // Las fórmulas quedan como su código LaTeX, sin pasar por los reemplazos de formato
+  const formulas: string[] = [];
+  const text = markdown.replace(/\$\$[\s\S]+?\$\$|\$[^$\n]+\$/g, formula => {
+    formulas.push(formula);
+    return `\u0000${formulas.length - 1}\u0000`;
+  });
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/^\s*(```|~~~).*$/gm, '')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^(\s*)[-*+]\s+\[([ xX])\]\s+/gm, (_, indent: string, mark: string) => `${indent}[${mark === ' ' ? ' ' : 'x'}] `)
+    .replace(/^(\s*)[-*+]\s+/gm, '$1• ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\(([^)]*)\)/g, '$1 ($2)')
+    .replace(/\*\*|__|~~|`/g, '')
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => formulas[Number(index)])
+    .trim();
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Una palabra más ancha que la línea se corta donde haga falta
+      line = '';
+      for (const char of word) {
+        if (line && font.widthOfTextAtSize(line + char, size) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function pageNotes(page: PDFPage): MiniCell[] {
+  if (page.noteCells.length > 0) return page.noteCells;
+  // Páginas anteriores a las mini celdas: solo el texto de `notes`
+  return page.notes.trim() ? [{ id: page.id, type: 'markdown', content: page.notes }] : [];
+}
+
+function hasContent(cell: MiniCell): boolean {
+  return cell.type === 'markdown' ? !!cell.content.trim() : !!cell.dataUrl;
+}
+
+// Una o más páginas (si no entran) con las notas de una página del PDF
+async function appendNotesPages(doc: PDFDocument, fonts: Fonts, title: string, cells: MiniCell[], size: [number, number]) {
+  const [pageWidth, pageHeight] = size;
+  const maxWidth = pageWidth - NOTES_MARGIN * 2;
+  let page = doc.addPage(size);
+  let cursor = pageHeight - NOTES_MARGIN;
+
+  const reserve = (height: number) => {
+    if (cursor - height >= NOTES_MARGIN || cursor === pageHeight - NOTES_MARGIN) return;
+    page = doc.addPage(size);
+    cursor = pageHeight - NOTES_MARGIN;
+  };
+
+  page.drawText(sanitize(title, fonts.bold), { x: NOTES_MARGIN, y: cursor - NOTES_TITLE_SIZE, size: NOTES_TITLE_SIZE, font: fonts.bold });
+  cursor -= NOTES_TITLE_SIZE + NOTES_GAP * 2;
+
+  for (const cell of cells) {
+    if (cell.type === 'markdown') {
+      const text = sanitize(markdownToText(cell.content), fonts.regular);
+      for (const line of wrapText(text, fonts.regular, NOTES_FONT_SIZE, maxWidth)) {
+        reserve(NOTES_LINE_HEIGHT);
+        page.drawText(line, { x: NOTES_MARGIN, y: cursor - NOTES_FONT_SIZE, size: NOTES_FONT_SIZE, font: fonts.regular });
+        cursor -= NOTES_LINE_HEIGHT;
+      }
+    } else {
+      const image = await embedImage(doc, cell.dataUrl);
+      if (!image) continue;
+      const scale = Math.min(1, maxWidth / image.width, (pageHeight - NOTES_MARGIN * 2) / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      reserve(height);
+      page.drawImage(image, { x: NOTES_MARGIN, y: cursor - height, width, height });
+      cursor -= height;
+    }
+    cursor -= NOTES_GAP;
+  }
+}
+
+/** Genera el PDF anotado de la celda. Solo funciona en el navegador. */
+export async function exportAnnotatedPdf(cell: PDFCell, options: AnnotatedPdfOptions): Promise<Uint8Array> {
+  const sourceBytes = new Uint8Array(await dataUrlToBlob(cell.pdfData).arrayBuffer());
+  const source = await PDFDocument.load(sourceBytes, { ignoreEncryption: true });
+  const doc = await PDFDocument.create();
+  doc.setTitle(cell.fileName.replace(/\.pdf$/i, ''));
+  const fonts: Fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  // Se copian de una vez para que compartan fuentes e imágenes del original
+  const originalIndices = cell.pages
+    .filter(page => !page.isCustomPage && page.pageNumber !== null && page.pageNumber <= source.getPageCount())
+    .map(page => (page.pageNumber as number) - 1);
+  const copied = await doc.copyPages(source, originalIndices);
+  const copiedByIndex = new Map(originalIndices.map((index, i) => [index, copied[i]]));
+
+  let lastSize = copied.length > 0 ? displaySize(copied[0]) : DEFAULT_PAGE_SIZE;
+  for (let i = 0; i < cell.pages.length; i++) {
+    const page = cell.pages[i];
+    if (page.isCustomPage || page.pageNumber === null) {
+      // Mismo ancho que la página anterior; el alto sale de la proporción del dibujo
+      const drawing = page.customDrawingDataUrl ? await embedImage(doc, page.customDrawingDataUrl) : null;
+      const width = lastSize[0];
+      const height = drawing ? (width * drawing.height) / drawing.width : lastSize[1];
+      const added = doc.addPage([width, height]);
+      if (drawing) added.drawImage(drawing, { x: 0, y: 0, width, height });
+      lastSize = [width, height];
+    } else {
+      const original = copiedByIndex.get(page.pageNumber - 1);
+      if (!original) continue;
+      const added = doc.addPage(original);
+      const overlay = page.drawingDataUrl ? await embedImage(doc, page.drawingDataUrl) : null;
+      if (overlay) drawOverlay(added, overlay);
+      lastSize = displaySize(added);
+    }
+
+    const notes = pageNotes(page).filter(hasContent);
+    if (options.includeNotes && notes.length > 0) {
+      await appendNotesPages(doc, fonts, `Notas de la pagina ${i + 1}`, notes, lastSize);
+    }
+  }
+
+  return doc.save();
+}
@@ -0,0 +1,92 @@
+import 'fake-indexeddb/auto';
+import { randomBytes } from 'node:crypto';
+import { bench, describe } from 'vitest';
+import { Notebook, ProjectStore } from '@/types/notebook';
+import { saveProjectStore } from '@/lib/storage';
+
+/**
+ * Costo de un guardado incremental (se edita una celda de Markdown) con y sin
+ * PDFs grandes en el store. Como solo se escribe lo que cambió, los tiempos
+ * de los dos casos deberían ser parecidos: si el segundo crece con el tamaño
+ * de los PDFs, algo volvió a serializarlos o a hashearlos en cada guardado.
+ *
+ * npm run bench
+ */
+
+const PDF_COUNT = 4;
+const PDF_BYTES = 5 * 1024 * 1024;
+
+function markdownNotebook(): Notebook {
+  const cells = Array.from({ length: 20 }, (_, i) => ({
+    id: `md-${i}`,
+    type: 'markdown' as const,
+    content: `## Seccion ${i}\n\nTexto de la celda ${i}.`,
+    createdAt: 0,
+    updatedAt: 0,
+  }));
+  return { id: 'apuntes', title: 'Apuntes', cells, createdAt: 0, updatedAt: 0 };
+}
+
+function pdfNotebook(index: number): Notebook {
+  return {
+    id: `pdf-${index}`,
+    title: `PDF ${index}`,
+    cells: [{
+      id: `pdf-cell-${index}`,
+      type: 'pdf',
+      pdfData: `data:application/pdf;base64,${randomBytes(PDF_BYTES).toString('base64')}`,
+      fileName: `documento-${index}.pdf`,
+      pages: [],
+      totalOriginalPages: 0,
+      createdAt: 0,
+      updatedAt: 0,
+    }],
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+function projectStore(notebooks: Notebook[]): ProjectStore {
+  return { projects: [], notebooks, activeNotebookId: notebooks[0].id, trash: [], trashRetentionDays: 30 };
+}
+
+// Cambia el texto de la primera celda, como al escribir en ella
+function editFirstCell(store: ProjectStore, edit: number): ProjectStore {
+  const [notebook, ...rest] = store.notebooks;
+  const [first, ...cells] = notebook.cells;
+  if (first.type !== 'markdown') return store;
+  const edited = { ...notebook, cells: [{ ...first, content: `${first.content} ${edit}` }, ...cells], updatedAt: edit };
+  return { ...store, notebooks: [edited, ...rest] };
+}
+
+/**
+ * Antes de cada ronda se guarda el store completo, que además borra lo que
+ * dejó el otro caso en la base; cada iteración guarda una edición sobre la
+ * anterior.
+ */
+function incrementalSave(initial: ProjectStore) {
+  let saved = initial;
+  let edit = 0;
+  return {
+    run: async () => {
+      const next = editFirstCell(saved, ++edit);
+      await saveProjectStore(next, saved);
+      saved = next;
+    },
+    setup: async () => {
+      saved = initial;
+      await saveProjectStore(initial);
+    },
+  };
+}
+
+describe('guardado incremental', () => {
+  const withoutPdfs = incrementalSave(projectStore([markdownNotebook()]));
+  const withPdfs = incrementalSave(projectStore([
+    markdownNotebook(),
+    ...Array.from({ length: PDF_COUNT }, (_, i) => pdfNotebook(i)),
+  ]));
+
+  bench('sin PDFs', withoutPdfs.run, { setup: withoutPdfs.setup });
+  bench(`con ${PDF_COUNT} PDFs de ${PDF_BYTES / 1024 / 1024} MB`, withPdfs.run, { setup: withPdfs.setup });
+});
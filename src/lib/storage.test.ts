@@ -0,0 +1,106 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Cell, MarkdownCell, Notebook, PDFCell, ProjectStore } from '@/types/notebook';
+import { loadProjectStore, packSyncMessage, saveProjectStore, unpackSyncMessage } from '@/lib/storage';
+import { collectSyncMessage, createSyncBase } from '@/lib/sync';
+
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+
+function imageNotebook(id: string): Notebook {
+  return {
+    id,
+    title: id,
+    cells: [{ id: `${id}-img`, type: 'image', dataUrl: IMAGE, alt: '', createdAt: 0, updatedAt: 0 }],
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+function projectStore(notebooks: Notebook[]): ProjectStore {
+  return { projects: [], notebooks, activeNotebookId: notebooks[0].id, trash: [], trashRetentionDays: 30 };
+}
+
+beforeAll(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+  // Lo único que se usa de FileReader al cargar: pasar los blobs a data URL
+  vi.stubGlobal('FileReader', class {
+    result: string | null = null;
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    readAsDataURL(blob: Blob) {
+      blob.arrayBuffer().then(buffer => {
+        this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`;
+        this.onload?.();
+      }, () => this.onerror?.());
+    }
+  });
+});
+
+afterEach(() => vi.restoreAllMocks());
+
+describe('saveProjectStore', () => {
+  it('vuelve a crear un asset que otra pestana borro antes de la escritura', async () => {
+    const first = projectStore([imageNotebook('a')]);
+    await saveProjectStore(first);
+
+    // Otra pestaña borra los assets justo después de la comprobación de solo lectura
+    const transaction = IDBDatabase.prototype.transaction;
+    let raced = false;
+    vi.spyOn(IDBDatabase.prototype, 'transaction').mockImplementation(function (
+      this: IDBDatabase,
+      ...args: Parameters<IDBDatabase['transaction']>
+    ) {
+      if (args[1] === 'readwrite' && !raced) {
+        raced = true;
+        transaction.call(this, 'assets', 'readwrite').objectStore('assets').clear();
+      }
+      return transaction.apply(this, args);
+    });
+
+    const second = projectStore([imageNotebook('a'), imageNotebook('b')]);
+    await saveProjectStore(second, first);
+    expect(raced).toBe(true);
+
+    const loaded = await loadProjectStore();
+    const cell = loaded?.notebooks.find(n => n.id === 'b')?.cells[0];
+    expect(cell?.type === 'image' && cell.dataUrl).toBe(IMAGE);
+  });
+});
+
+describe('mensajes entre pestanas', () => {
+  const PDF = `data:application/pdf;base64,${Buffer.from('%PDF-1.4 apuntes').toString('base64')}`;
+  const text: MarkdownCell = { id: 'md', type: 'markdown', content: 'hola', createdAt: 0, updatedAt: 0 };
+  const pdf: PDFCell = { id: 'pdf', type: 'pdf', pdfData: PDF, fileName: 'a.pdf', pages: [], totalOriginalPages: 0, createdAt: 0, updatedAt: 0 };
+  const notebook: Notebook = { id: 'nb-pdf', title: 'Apuntes', cells: [text, pdf], createdAt: 0, updatedAt: 0 };
+  const before = projectStore([notebook]);
+
+  function edit(cells: Cell[]): ProjectStore {
+    return projectStore([{ ...notebook, cells, revision: 1 }]);
+  }
+
+  it('al editar el texto no se vuelve a enviar el PDF', async () => {
+    const after = edit([{ ...text, content: 'hola mundo' }, pdf]);
+    const packed = await packSyncMessage(collectSyncMessage(createSyncBase(before), after)!, createSyncBase(before));
+    expect(packed.assets).toEqual({});
+    expect(JSON.stringify(packed)).not.toContain(PDF);
+    expect((await unpackSyncMessage(packed)).notebooks).toEqual(after.notebooks);
+  });
+
+  it('un payload nuevo viaja una sola vez', async () => {
+    const image = imageNotebook('x').cells[0];
+    const after = edit([text, pdf, image, { ...image, id: 'otra' }]);
+    const packed = await packSyncMessage(collectSyncMessage(createSyncBase(before), after)!, createSyncBase(before));
+    expect(Object.values(packed.assets ?? {})).toEqual([IMAGE]);
+    expect((await unpackSyncMessage(packed)).notebooks).toEqual(after.notebooks);
+  });
+
+  it('no aplica un mensaje con un asset que no se puede resolver', async () => {
+    const missing = { ...imageNotebook('y'), cells: [{ ...imageNotebook('y').cells[0], dataUrl: `asset:${'0'.repeat(64)}` }] };
+    await expect(unpackSyncMessage({ notebooks: [missing], deletedNotebookIds: [] })).rejects.toThrow('Faltan los assets');
+  });
+});
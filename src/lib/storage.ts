@@ -0,0 +1,1080 @@
+import {
+  Notebook,
+  NotebookSnapshot,
+  Project,
+  ProjectStore,
+  SnapshotInfo,
+  TrashItem,
+} from '@/types/notebook';
+import {
+  CURRENT_SCHEMA_VERSION,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  migrateNotebook,
+  migrateStore,
+} from '@/lib/migrations';
+import {
+  PayloadMapper,
+  assetHash,
+  assetRef,
+  blobToDataUrl,
+  dataUrlToBlob,
+  hashPayloads,
+  isAssetRef,
+  mapNotebookPayloads,
+  mapTrashPayloads,
+} from '@/lib/assets';
+import {
+  EncryptionKey,
+  EncryptionMeta,
+  Sealed,
+  createEncryptionKey,
+  openBlob,
+  openJson,
+  sealBlob,
+  sealJson,
+  unlockEncryptionKey,
+} from '@/lib/encryption';
+import { isNotebookLocked, openNotebook, sealNotebook, sealTrashItem } from '@/lib/notebookLock';
+import { SyncBase, SyncMessage } from '@/lib/sync';
+
+// Claves del formato anterior en localStorage (solo para la migración)
+export const STORAGE_KEY = 'personal-notebook-projects';
+export const OLD_STORAGE_KEY = 'personal-notebook-data';
+// Notebooks con cambios pendientes, escritos de forma síncrona al cerrar la pestaña
+const JOURNAL_KEY = 'personal-notebook-journal';
+
+const DB_NAME = 'personal-notebook';
+const DB_VERSION = 4;
+
+const PROJECTS_STORE = 'projects';
+const NOTEBOOKS_STORE = 'notebooks';
+const BLOBS_STORE = 'blobs';
+const META_STORE = 'meta';
+const TRASH_STORE = 'trash';
+// Payloads por contenido (hash SHA-256), compartidos entre notebooks, papelera y versiones
+const ASSETS_STORE = 'assets';
+const ALL_STORES = [PROJECTS_STORE, NOTEBOOKS_STORE, BLOBS_STORE, META_STORE, TRASH_STORE, ASSETS_STORE];
+// Las versiones de notebooks se cargan bajo demanda, con sus payloads aparte
+const SNAPSHOTS_STORE = 'snapshots';
+const SNAPSHOT_BLOBS_STORE = 'snapshotBlobs';
+const SNAPSHOT_NOTEBOOK_INDEX = 'notebookId';
+
+const ACTIVE_NOTEBOOK_KEY = 'activeNotebookId';
+const INITIALIZED_KEY = 'initialized';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const TRASH_RETENTION_KEY = 'trashRetentionDays';
+const ENCRYPTION_KEY = 'encryption';
+
+// Formato anterior a la versión 4: un blob por campo, con la referencia "idb-blob:<clave>"
+const BLOB_REF_PREFIX = 'idb-blob:';
+
+interface BlobRecord {
+  key: string;
+  blob: Blob;
+}
+
+interface AssetRecord {
+  hash: string;
+  blob: Blob;
+  refCount: number; // registros (notebooks, papelera, versiones) que lo usan
+}
+
+// Registro guardado con los hashes de los assets que referencia
+type AssetOwner<T> = T & { assets?: string[] };
+
+interface MetaRecord {
+  key: string;
+  value: unknown;
+}
+
+// Registro cifrado: a la vista quedan solo el id, los assets que referencia
+// (para contar referencias sin descifrar) y el notebook de las versiones (índice)
+interface SealedRecord {
+  id: string;
+  notebookId?: string;
+  assets?: string[];
+  sealed: Sealed;
+}
+
+type StoredRecord<T> = AssetOwner<T> | SealedRecord;
+
+/** Los datos están cifrados y no se desbloquearon con la contraseña (o cambió en otra pestaña). */
+export class StoreLockedError extends Error {
+  constructor() {
+    super('Los datos estan cifrados y bloqueados');
+    this.name = 'StoreLockedError';
+  }
+}
+
+/**
+ * Un registro nuevo referencia un asset que no está guardado ni se preparó: lo
+ * borró otra pestaña entre la preparación y la escritura. La escritura se
+ * descarta entera y se vuelve a preparar. También se lanza al recibir de otra
+ * pestaña una referencia que no se puede resolver.
+ */
+class MissingAssetError extends Error {
+  constructor(public hashes: string[]) {
+    super(`Faltan los assets ${hashes.join(', ')}`);
+    this.name = 'MissingAssetError';
+  }
+}
+
+// Clave con la que se cifra mientras el store está desbloqueado (null = sin cifrado)
+let encryption: EncryptionKey | null = null;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(NOTEBOOKS_STORE)) {
+          db.createObjectStore(NOTEBOOKS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+          db.createObjectStore(BLOBS_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(TRASH_STORE)) {
+          db.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+          snapshots.createIndex(SNAPSHOT_NOTEBOOK_INDEX, 'notebookId');
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_BLOBS_STORE)) {
+          db.createObjectStore(SNAPSHOT_BLOBS_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+          db.createObjectStore(ASSETS_STORE, { keyPath: 'hash' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// === Assets ===
+
+// Data URL -> hash de los payloads ya vistos, para no volver a calcularlo en cada guardado
+const hashCache = new Map<string, string>();
+
+async function hashValues(values: string[]): Promise<Map<string, string>> {
+  await hashPayloads(values, hashCache);
+  return new Map(values.flatMap(value => {
+    const hash = hashCache.get(value);
+    return hash ? [[value, hash] as const] : [];
+  }));
+}
+
+function collectPayloads(items: { notebooks?: Notebook[]; trash?: TrashItem[] }): string[] {
+  const values: string[] = [];
+  const collect: PayloadMapper = value => {
+    if (value.startsWith('data:')) values.push(value);
+    return value;
+  };
+  items.notebooks?.forEach(notebook => mapNotebookPayloads(notebook, collect));
+  items.trash?.forEach(item => mapTrashPayloads(item, collect));
+  return values;
+}
+
+// Solo se conservan los hashes de payloads que siguen en el store
+function pruneHashCache(store: ProjectStore) {
+  const live = new Set(collectPayloads(store));
+  [...hashCache.keys()].forEach(value => {
+    if (!live.has(value)) hashCache.delete(value);
+  });
+}
+
+/**
+ * Reemplaza cada data URL por su referencia "asset:<hash>" y anota en
+ * `payloads` el contenido de cada hash (por si el asset todavía no existe).
+ * Devuelve los hashes distintos que usa el registro.
+ */
+function assetExtractor(
+  hashes: Map<string, string>,
+  payloads: Map<string, string>,
+  used: Set<string>
+): PayloadMapper {
+  return value => {
+    const hash = value.startsWith('data:') ? hashes.get(value) : undefined;
+    if (!hash) return value;
+    payloads.set(hash, value);
+    used.add(hash);
+    return assetRef(hash);
+  };
+}
+
+function serializeNotebook(
+  notebook: Notebook,
+  hashes: Map<string, string>,
+  payloads: Map<string, string>
+): AssetOwner<Notebook> {
+  const used = new Set<string>();
+  const serialized = mapNotebookPayloads(notebook, assetExtractor(hashes, payloads, used));
+  return { ...serialized, assets: [...used] };
+}
+
+function serializeTrashItem(
+  item: TrashItem,
+  hashes: Map<string, string>,
+  payloads: Map<string, string>
+): AssetOwner<TrashItem> {
+  const used = new Set<string>();
+  const serialized = mapTrashPayloads(item, assetExtractor(hashes, payloads, used));
+  return { ...serialized, assets: [...used] };
+}
+
+function addRefs(deltas: Map<string, number>, hashes: string[] | undefined, amount: number) {
+  hashes?.forEach(hash => deltas.set(hash, (deltas.get(hash) ?? 0) + amount));
+}
+
+/**
+ * Prepara (cifrado si corresponde) el blob de cada payload que todavía no es
+ * un asset guardado. Se hace antes de la transacción de escritura porque
+ * cifrar es asíncrono y la transacción se cerraría mientras tanto.
+ */
+async function prepareAssetBlobs(
+  db: IDBDatabase,
+  payloads: Map<string, string>,
+  key: EncryptionKey | null
+): Promise<Map<string, Blob>> {
+  const hashes = [...payloads.keys()];
+  const tx = db.transaction(ASSETS_STORE, 'readonly');
+  const stored = await Promise.all(hashes.map(hash => requestToPromise(tx.objectStore(ASSETS_STORE).getKey(hash))));
+  const blobs = new Map<string, Blob>();
+  for (const [i, hash] of hashes.entries()) {
+    if (stored[i] === undefined) blobs.set(hash, await encodeAsset(payloads.get(hash)!, key));
+  }
+  return blobs;
+}
+
+function encodeAsset(value: string, key: EncryptionKey | null): Promise<Blob> {
+  const blob = dataUrlToBlob(value);
+  return key ? sealBlob(key.key, blob) : Promise.resolve(blob);
+}
+
+function decodeAsset(blob: Blob): Promise<Blob> {
+  if (!encryption) return Promise.resolve(blob);
+  return openBlob(encryption.key, blob);
+}
+
+// Antes de escribir nada: sin el asset ni su blob, la referencia quedaría vacía al cargar
+async function assertAssets(assetStore: IDBObjectStore, done: Promise<void>, missing: string[]): Promise<void> {
+  if (missing.length === 0) return;
+  assetStore.transaction.abort();
+  await done.catch(() => undefined);
+  throw new MissingAssetError(missing);
+}
+
+// Al repetir, la preparación ve que el asset falta y vuelve a generar su blob
+async function retryMissingAssets(write: () => Promise<void>): Promise<void> {
+  try {
+    await write();
+  } catch (error) {
+    if (!(error instanceof MissingAssetError)) throw error;
+    await write();
+  }
+}
+
+/**
+ * Aplica los cambios de conteo de referencias: crea los assets nuevos (con los
+ * blobs de `blobs`) y borra los que quedan sin referencias.
+ */
+async function applyRefDeltas(
+  assetStore: IDBObjectStore,
+  done: Promise<void>,
+  deltas: Map<string, number>,
+  blobs: Map<string, Blob>
+): Promise<void> {
+  const changed = [...deltas].filter(([, delta]) => delta !== 0);
+  const records = await Promise.all(
+    changed.map(([hash]) => requestToPromise(assetStore.get(hash)) as Promise<AssetRecord | undefined>)
+  );
+  await assertAssets(assetStore, done, changed
+    .filter(([hash, delta], i) => !records[i] && delta > 0 && !blobs.has(hash))
+    .map(([hash]) => hash));
+  changed.forEach(([hash, delta], i) => {
+    const record = records[i];
+    const refCount = (record?.refCount ?? 0) + delta;
+    if (refCount <= 0) {
+      if (record) assetStore.delete(hash);
+      return;
+    }
+    if (record) {
+      assetStore.put({ ...record, refCount });
+      return;
+    }
+    assetStore.put({ hash, blob: blobs.get(hash)!, refCount });
+  });
+}
+
+async function recountAssets(
+  assetStore: IDBObjectStore,
+  done: Promise<void>,
+  counts: Map<string, number>,
+  blobs: Map<string, Blob>
+): Promise<void> {
+  const stored = await requestToPromise(assetStore.getAll()) as AssetRecord[];
+  const existing = new Set(stored.map(record => record.hash));
+  await assertAssets(assetStore, done, [...counts.keys()].filter(hash => !existing.has(hash) && !blobs.has(hash)));
+  stored.forEach(record => {
+    const refCount = counts.get(record.hash) ?? 0;
+    if (refCount === 0) assetStore.delete(record.hash);
+    else if (refCount !== record.refCount) assetStore.put({ ...record, refCount });
+  });
+  counts.forEach((refCount, hash) => {
+    if (!existing.has(hash)) assetStore.put({ hash, blob: blobs.get(hash)!, refCount });
+  });
+}
+
+// Todas las claves de blobs legacy bajo un prefijo ("<notebookId>/" o "trash/<id>/")
+function prefixRange(prefix: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${prefix}/`, `${prefix}/\uffff`);
+}
+
+async function readDataUrls<T>(records: T[], key: (record: T) => string, blob: (record: T) => Promise<Blob>) {
+  const dataUrls = new Map<string, string>();
+  await Promise.all(
+    records.map(async record => {
+      dataUrls.set(key(record), await blobToDataUrl(await blob(record)));
+    })
+  );
+  return dataUrls;
+}
+
+function readAssetUrls(assets: AssetRecord[]): Promise<Map<string, string>> {
+  return readDataUrls(assets, a => a.hash, a => decodeAsset(a.blob));
+}
+
+function readLegacyUrls(blobs: BlobRecord[]): Promise<Map<string, string>> {
+  return readDataUrls(blobs, b => b.key, b => Promise.resolve(b.blob));
+}
+
+// Resuelve las referencias a assets y las de blobs del formato anterior a la versión 4
+function payloadResolver(assets: Map<string, string>, legacy: Map<string, string>): PayloadMapper {
+  return value => {
+    if (isAssetRef(value)) return assets.get(assetHash(value)) ?? '';
+    if (value.startsWith(BLOB_REF_PREFIX)) return legacy.get(value.slice(BLOB_REF_PREFIX.length)) ?? '';
+    return value;
+  };
+}
+
+function withoutAssets<T>(record: AssetOwner<T>): T {
+  const copy = { ...record };
+  delete copy.assets;
+  return copy;
+}
+
+// === Cifrado de registros ===
+
+function isSealed(record: object): record is SealedRecord {
+  return 'sealed' in record;
+}
+
+async function sealRecord<T extends { id: string }>(
+  record: AssetOwner<T>,
+  key: EncryptionKey | null,
+  visible: Pick<SealedRecord, 'notebookId'> = {}
+): Promise<StoredRecord<T>> {
+  if (!key) return record;
+  return { id: record.id, ...visible, assets: record.assets, sealed: await sealJson(key.key, withoutAssets(record)) };
+}
+
+async function openRecord<T>(record: StoredRecord<T>): Promise<T> {
+  if (!isSealed(record)) return withoutAssets(record);
+  if (!encryption) throw new StoreLockedError();
+  return openJson<T>(encryption.key, record.sealed);
+}
+
+function sameEncryption(meta: EncryptionMeta | undefined, key: EncryptionKey | null): boolean {
+  if (!meta || !key) return !meta && !key;
+  return meta.salt.length === key.meta.salt.length && meta.salt.every((byte, i) => byte === key.meta.salt[i]);
+}
+
+async function readEncryptionMeta(metaStore: IDBObjectStore): Promise<EncryptionMeta | undefined> {
+  const record = await requestToPromise(metaStore.get(ENCRYPTION_KEY)) as MetaRecord | undefined;
+  return record?.value as EncryptionMeta | undefined;
+}
+
+/**
+ * Comprueba dentro de una transacción de escritura que el store sigue cifrado
+ * (o sin cifrar) con la clave usada para preparar los registros; si otra
+ * pestaña cambió la contraseña se descarta la escritura.
+ */
+async function assertEncryption(tx: IDBTransaction, done: Promise<void>, key: EncryptionKey | null): Promise<void> {
+  if (sameEncryption(await readEncryptionMeta(tx.objectStore(META_STORE)), key)) return;
+  tx.abort();
+  await done.catch(() => undefined);
+  throw new StoreLockedError();
+}
+
+// === Migración desde localStorage ===
+
+interface VersionedData {
+  data: ProjectStore;
+  version: number;
+  assetUrls?: Map<string, string>; // hash -> data URL de todos los assets guardados
+}
+
+function readLocalStorageStore(): VersionedData | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { data: JSON.parse(saved) as ProjectStore, version: 1 };
+  } catch {
+    // Datos corruptos: intentar con el formato antiguo
+  }
+  try {
+    // Formato de notebook único: la migración a la versión 1 lo envuelve en un store
+    const oldData = localStorage.getItem(OLD_STORAGE_KEY);
+    if (oldData) return { data: JSON.parse(oldData) as ProjectStore, version: 0 };
+  } catch {
+    // Ignorar errores de migración
+  }
+  return null;
+}
+
+// === API pública ===
+
+async function readStore(db: IDBDatabase): Promise<VersionedData | null> {
+  const tx = db.transaction(ALL_STORES, 'readonly');
+  const [initialized, version, projects, notebooks, blobs, active, trash, retention, assets, meta] = await Promise.all([
+    requestToPromise(tx.objectStore(META_STORE).get(INITIALIZED_KEY)) as Promise<MetaRecord | undefined>,
+    requestToPromise(tx.objectStore(META_STORE).get(SCHEMA_VERSION_KEY)) as Promise<MetaRecord | undefined>,
+    requestToPromise(tx.objectStore(PROJECTS_STORE).getAll()) as Promise<StoredRecord<Project>[]>,
+    requestToPromise(tx.objectStore(NOTEBOOKS_STORE).getAll()) as Promise<StoredRecord<Notebook>[]>,
+    requestToPromise(tx.objectStore(BLOBS_STORE).getAll()) as Promise<BlobRecord[]>,
+    requestToPromise(tx.objectStore(META_STORE).get(ACTIVE_NOTEBOOK_KEY)) as Promise<MetaRecord | undefined>,
+    requestToPromise(tx.objectStore(TRASH_STORE).getAll()) as Promise<StoredRecord<TrashItem>[]>,
+    requestToPromise(tx.objectStore(META_STORE).get(TRASH_RETENTION_KEY)) as Promise<MetaRecord | undefined>,
+    requestToPromise(tx.objectStore(ASSETS_STORE).getAll()) as Promise<AssetRecord[]>,
+    readEncryptionMeta(tx.objectStore(META_STORE)),
+  ]);
+
+  if (!sameEncryption(meta, encryption)) throw new StoreLockedError();
+  if (!initialized) return null;
+
+  const [assetUrls, legacyUrls, openProjects, openNotebooks, openTrash] = await Promise.all([
+    readAssetUrls(assets),
+    readLegacyUrls(blobs),
+    Promise.all(projects.map(record => openRecord(record))),
+    Promise.all(notebooks.map(record => openRecord(record))),
+    Promise.all(trash.map(record => openRecord(record))),
+  ]);
+  assetUrls.forEach((value, hash) => hashCache.set(value, hash));
+
+  const resolve = payloadResolver(assetUrls, legacyUrls);
+  return {
+    data: {
+      projects: openProjects,
+      notebooks: openNotebooks.map(notebook => mapNotebookPayloads(notebook, resolve)),
+      activeNotebookId: (active?.value as string | null | undefined) ?? null,
+      trash: openTrash
+        .map(item => mapTrashPayloads(item, resolve))
+        .sort((a, b) => b.deletedAt - a.deletedAt),
+      trashRetentionDays: (retention?.value as number | undefined) ?? DEFAULT_TRASH_RETENTION_DAYS,
+    },
+    // Los datos guardados antes de versionar el esquema ya tenían el formato 1
+    version: (version?.value as number | undefined) ?? 1,
+    assetUrls,
+  };
+}
+
+/**
+ * Carga el store desde IndexedDB y lo lleva a la versión actual del esquema.
+ * La primera vez migra los datos que hubiera en localStorage (formato de
+ * proyectos o el de notebook único) y borra las claves antiguas una vez que
+ * quedaron guardadas.
+ */
+export async function loadProjectStore(): Promise<ProjectStore | null> {
+  const db = await openDatabase();
+  const stored = await readStore(db);
+  if (stored) {
+    const journal = readJournal();
+    if (stored.version === CURRENT_SCHEMA_VERSION && !journal) return stored.data;
+
+    // Los datos migrados o recuperados del journal se guardan completos una vez
+    const current = stored.version === CURRENT_SCHEMA_VERSION
+      ? stored.data
+      : migrateStore(stored.data, stored.version);
+    const recovered = journal ? applyJournal(current, journal) : current;
+    await saveProjectStore(recovered);
+    clearJournal();
+    return recovered;
+  }
+
+  const legacy = readLocalStorageStore();
+  if (!legacy) return null;
+
+  const migrated = migrateStore(legacy.data, legacy.version);
+  await saveProjectStore(migrated);
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(OLD_STORAGE_KEY);
+  return migrated;
+}
+
+/**
+ * Guarda el store: proyectos, notebooks y papelera (sin payloads binarios) y
+ * los payloads como assets por contenido, una sola vez aunque se repitan. Con
+ * `previous` (lo último que se guardó bien) solo se escriben los notebooks y
+ * elementos de la papelera que cambiaron y se ajustan los conteos de
+ * referencias de sus assets; sin `previous` se reescribe todo, se recuentan
+ * las referencias y se borran los assets que ya nadie usa.
+ */
+export function saveProjectStore(store: ProjectStore, previous: ProjectStore | null = null): Promise<void> {
+  return retryMissingAssets(() => writeProjectStore(store, previous));
+}
+
+async function writeProjectStore(store: ProjectStore, previous: ProjectStore | null): Promise<void> {
+  const db = await openDatabase();
+
+  const previousNotebooks = new Map(previous?.notebooks.map(n => [n.id, n]));
+  const previousTrash = new Set(previous?.trash);
+  // Los notebooks con contraseña se guardan con las celdas cifradas
+  const [changedNotebooks, addedTrash] = await Promise.all([
+    Promise.all(store.notebooks.filter(notebook => previousNotebooks.get(notebook.id) !== notebook).map(sealNotebook)),
+    Promise.all(store.trash.filter(item => !previousTrash.has(item)).map(sealTrashItem)),
+  ]);
+
+  // Los hashes se calculan antes de abrir la transacción (que no puede esperar a crypto.subtle)
+  const hashes = await hashValues(collectPayloads({ notebooks: changedNotebooks, trash: addedTrash }));
+  const payloads = new Map<string, string>();
+  const notebooks = changedNotebooks.map(notebook => serializeNotebook(notebook, hashes, payloads));
+  const trashItems = addedTrash.map(item => serializeTrashItem(item, hashes, payloads));
+
+  // Lo mismo con el cifrado: los registros y blobs se preparan antes
+  const key = encryption;
+  const projectsChanged = !previous || store.projects !== previous.projects;
+  const [records, blobs] = await Promise.all([
+    Promise.all([
+      Promise.all(projectsChanged ? store.projects.map(project => sealRecord(project, key)) : []),
+      Promise.all(notebooks.map(notebook => sealRecord(notebook, key))),
+      Promise.all(trashItems.map(item => sealRecord(item, key))),
+    ]),
+    prepareAssetBlobs(db, payloads, key),
+  ]);
+  const [sealedProjects, sealedNotebooks, sealedTrash] = records;
+
+  const tx = db.transaction([...ALL_STORES, SNAPSHOTS_STORE, SNAPSHOT_BLOBS_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  await assertEncryption(tx, done, key);
+
+  const projectStore = tx.objectStore(PROJECTS_STORE);
+  const notebookStore = tx.objectStore(NOTEBOOKS_STORE);
+  const metaStore = tx.objectStore(META_STORE);
+  const trashStore = tx.objectStore(TRASH_STORE);
+  const assetStore = tx.objectStore(ASSETS_STORE);
+
+  if (projectsChanged) {
+    projectStore.clear();
+    sealedProjects.forEach(project => projectStore.put(project));
+  }
+
+  const notebookIds = new Set(store.notebooks.map(n => n.id));
+  const trashIds = new Set(store.trash.map(item => item.id));
+
+  // Las versiones solo se conservan mientras el notebook exista (o siga en la papelera)
+  let snapshots: OrphanSweep | null = null;
+  if (!previous || store.trash !== previous.trash || previous.notebooks.some(n => !notebookIds.has(n.id))) {
+    const liveNotebookIds = new Set(notebookIds);
+    store.trash.forEach(item => {
+      if (item.kind === 'notebook') liveNotebookIds.add(item.notebook.id);
+    });
+    snapshots = await deleteOrphanSnapshots(tx, liveNotebookIds);
+  }
+
+  if (previous) {
+    const deltas = new Map<string, number>();
+    const removedNotebooks = previous.notebooks.filter(n => !notebookIds.has(n.id)).map(n => n.id);
+    const removedTrash = previous.trash.filter(item => !trashIds.has(item.id)).map(item => item.id);
+
+    // Las referencias de lo que se reemplaza o borra salen de los registros guardados
+    const [oldNotebooks, oldTrash] = await Promise.all([
+      Promise.all([...notebooks.map(n => n.id), ...removedNotebooks].map(id =>
+        requestToPromise(notebookStore.get(id)) as Promise<AssetOwner<Notebook> | undefined>
+      )),
+      Promise.all([...trashItems.map(item => item.id), ...removedTrash].map(id =>
+        requestToPromise(trashStore.get(id)) as Promise<AssetOwner<TrashItem> | undefined>
+      )),
+    ]);
+    [...oldNotebooks, ...oldTrash].forEach(record => addRefs(deltas, record?.assets, -1));
+    [...notebooks, ...trashItems].forEach(record => addRefs(deltas, record.assets, 1));
+    addRefs(deltas, snapshots?.removed, -1);
+
+    removedNotebooks.forEach(id => notebookStore.delete(id));
+    removedTrash.forEach(id => trashStore.delete(id));
+    await applyRefDeltas(assetStore, done, deltas, blobs);
+  } else {
+    trashStore.clear();
+    // Los blobs del formato anterior ya quedaron convertidos en assets
+    tx.objectStore(BLOBS_STORE).clear();
+    const storedNotebookIds = await requestToPromise(notebookStore.getAllKeys());
+    storedNotebookIds.forEach(id => {
+      if (!notebookIds.has(id as string)) notebookStore.delete(id);
+    });
+
+    // Recuento completo: los assets sin referencias se borran
+    const counts = new Map<string, number>();
+    [...notebooks, ...trashItems].forEach(record => addRefs(counts, record.assets, 1));
+    addRefs(counts, snapshots?.kept, 1);
+    await recountAssets(assetStore, done, counts, blobs);
+  }
+
+  sealedNotebooks.forEach(notebook => notebookStore.put(notebook));
+  sealedTrash.forEach(item => trashStore.put(item));
+  metaStore.put({ key: ACTIVE_NOTEBOOK_KEY, value: store.activeNotebookId });
+  metaStore.put({ key: INITIALIZED_KEY, value: true });
+  metaStore.put({ key: SCHEMA_VERSION_KEY, value: CURRENT_SCHEMA_VERSION });
+  metaStore.put({ key: TRASH_RETENTION_KEY, value: store.trashRetentionDays });
+
+  await done;
+  pruneHashCache(store);
+}
+
+// === Journal de cierre ===
+
+interface Journal {
+  schemaVersion: number;
+  notebooks: Notebook[];
+}
+
+/**
+ * Escribe de forma síncrona en localStorage los notebooks que cambiaron desde
+ * el último guardado, para no perderlos si la pestaña se cierra antes de que
+ * termine la escritura en IndexedDB. Devuelve false si no entran o si el
+ * store está cifrado.
+ */
+export function writeJournal(store: ProjectStore, saved: ProjectStore | null): boolean {
+  const savedNotebooks = new Set(saved?.notebooks);
+  const notebooks = store.notebooks.filter(n => !savedNotebooks.has(n));
+  if (notebooks.length === 0) return true;
+  // Con cifrado no se puede escribir en claro (y cifrar no es síncrono)
+  if (encryption || notebooks.some(n => n.lock)) return false;
+  try {
+    const journal: Journal = { schemaVersion: CURRENT_SCHEMA_VERSION, notebooks };
+    localStorage.setItem(JOURNAL_KEY, JSON.stringify(journal));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function clearJournal() {
+  localStorage.removeItem(JOURNAL_KEY);
+}
+
+function readJournal(): Journal | null {
+  try {
+    const saved = localStorage.getItem(JOURNAL_KEY);
+    return saved ? (JSON.parse(saved) as Journal) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Solo se recupera lo que es más nuevo que lo guardado (o no llegó a guardarse)
+function applyJournal(store: ProjectStore, journal: Journal): ProjectStore {
+  if (journal.schemaVersion > CURRENT_SCHEMA_VERSION) return store;
+  let notebooks = store.notebooks;
+  for (const pending of journal.notebooks) {
+    const notebook = migrateNotebook(pending, journal.schemaVersion);
+    const existing = notebooks.find(n => n.id === notebook.id);
+    if (!existing) {
+      notebooks = [...notebooks, notebook];
+    } else if ((notebook.revision ?? 0) > (existing.revision ?? 0)) {
+      notebooks = notebooks.map(n => (n.id === notebook.id ? { ...notebook, projectId: n.projectId } : n));
+    }
+  }
+  return notebooks === store.notebooks ? store : { ...store, notebooks };
+}
+
+// === Versiones (snapshots) ===
+
+// Las versiones anteriores a la versión 4 del esquema tienen sus payloads en SNAPSHOT_BLOBS_STORE
+interface SnapshotRecord extends NotebookSnapshot {
+  schemaVersion: number;
+  assets?: string[];
+}
+
+interface OrphanSweep {
+  removed: string[]; // assets de las versiones borradas (uno por referencia)
+  kept: string[]; // assets de las que quedan
+}
+
+function deleteOrphanSnapshots(tx: IDBTransaction, liveNotebookIds: Set<string>): Promise<OrphanSweep> {
+  const blobStore = tx.objectStore(SNAPSHOT_BLOBS_STORE);
+  const request = tx.objectStore(SNAPSHOTS_STORE).index(SNAPSHOT_NOTEBOOK_INDEX).openCursor();
+  const sweep: OrphanSweep = { removed: [], kept: [] };
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(sweep);
+        return;
+      }
+      const record = cursor.value as StoredRecord<SnapshotRecord>;
+      if (liveNotebookIds.has(cursor.key as string)) {
+        sweep.kept.push(...(record.assets ?? []));
+      } else {
+        sweep.removed.push(...(record.assets ?? []));
+        cursor.delete();
+        blobStore.delete(prefixRange(record.id));
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Lista las versiones guardadas de un notebook, de la más reciente a la más antigua. */
+export async function listSnapshots(notebookId: string): Promise<SnapshotInfo[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+  const records = await requestToPromise(
+    tx.objectStore(SNAPSHOTS_STORE).index(SNAPSHOT_NOTEBOOK_INDEX).getAll(notebookId)
+  ) as StoredRecord<SnapshotRecord>[];
+  const snapshots = await Promise.all(records.map(record => openRecord(record)));
+  return snapshots
+    .map(({ id, name, auto, createdAt }) => ({ id, notebookId, name, auto, createdAt }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Versión con sus payloads resueltos, todavía en el esquema con el que se guardó
+async function readSnapshot(
+  record: StoredRecord<SnapshotRecord>,
+  assetUrls: Map<string, string>,
+  blobs: BlobRecord[]
+): Promise<SnapshotRecord> {
+  const [snapshot, legacyUrls] = await Promise.all([openRecord(record), readLegacyUrls(blobs)]);
+  const notebook = mapNotebookPayloads(snapshot.notebook, payloadResolver(assetUrls, legacyUrls), snapshot.id);
+  return { ...snapshot, notebook };
+}
+
+/** Carga una versión completa (con sus payloads) llevada al esquema actual. */
+export async function loadSnapshot(id: string): Promise<NotebookSnapshot | null> {
+  const db = await openDatabase();
+  const tx = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_BLOBS_STORE, ASSETS_STORE], 'readonly');
+  const [record, blobs] = await Promise.all([
+    requestToPromise(tx.objectStore(SNAPSHOTS_STORE).get(id)) as Promise<StoredRecord<SnapshotRecord> | undefined>,
+    requestToPromise(tx.objectStore(SNAPSHOT_BLOBS_STORE).getAll(prefixRange(id))) as Promise<BlobRecord[]>,
+  ]);
+  if (!record) return null;
+  const assets = await Promise.all((record.assets ?? []).map(hash =>
+    requestToPromise(tx.objectStore(ASSETS_STORE).get(hash)) as Promise<AssetRecord | undefined>
+  ));
+
+  const assetUrls = await readAssetUrls(assets.filter(a => !!a));
+  const { schemaVersion, ...snapshot } = await readSnapshot(record, assetUrls, blobs);
+  return { ...snapshot, notebook: migrateNotebook(await openNotebook(snapshot.notebook), schemaVersion) };
+}
+
+async function serializeSnapshot(
+  snapshot: SnapshotRecord,
+  hashes: Map<string, string>,
+  payloads: Map<string, string>,
+  key: EncryptionKey | null
+): Promise<StoredRecord<SnapshotRecord>> {
+  const { assets, ...notebook } = serializeNotebook(snapshot.notebook, hashes, payloads);
+  return sealRecord({ ...snapshot, notebook, assets }, key, { notebookId: snapshot.notebookId });
+}
+
+export function saveSnapshot(snapshot: NotebookSnapshot): Promise<void> {
+  return retryMissingAssets(() => writeSnapshot(snapshot));
+}
+
+async function writeSnapshot(snapshot: NotebookSnapshot): Promise<void> {
+  const db = await openDatabase();
+  const key = encryption;
+  const notebook = await sealNotebook(snapshot.notebook);
+  const hashes = await hashValues(collectPayloads({ notebooks: [notebook] }));
+  const payloads = new Map<string, string>();
+  const record = await serializeSnapshot(
+    { ...snapshot, notebook, schemaVersion: CURRENT_SCHEMA_VERSION },
+    hashes,
+    payloads,
+    key
+  );
+  const blobs = await prepareAssetBlobs(db, payloads, key);
+
+  const tx = db.transaction([SNAPSHOTS_STORE, ASSETS_STORE, META_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  await assertEncryption(tx, done, key);
+  // Si reemplaza una versión guardada, sus assets dejan de estar referenciados por la anterior
+  const existing = await requestToPromise(tx.objectStore(SNAPSHOTS_STORE).get(record.id)) as
+    StoredRecord<SnapshotRecord> | undefined;
+  tx.objectStore(SNAPSHOTS_STORE).put(record);
+  const deltas = new Map<string, number>();
+  addRefs(deltas, existing?.assets, -1);
+  addRefs(deltas, record.assets, 1);
+  await applyRefDeltas(tx.objectStore(ASSETS_STORE), done, deltas, blobs);
+  await done;
+}
+
+/**
+ * Las versiones de un notebook que se pueden leer con las claves conocidas en
+ * esta pestaña, para volver a guardarlas al cambiarle la contraseña. Las que
+ * quedaron cifradas con una contraseña anterior no se incluyen.
+ */
+export async function loadReadableSnapshots(notebookId: string): Promise<NotebookSnapshot[]> {
+  const snapshots: NotebookSnapshot[] = [];
+  for (const { id } of await listSnapshots(notebookId)) {
+    const snapshot = await loadSnapshot(id);
+    if (snapshot && !isNotebookLocked(snapshot.notebook)) snapshots.push(snapshot);
+  }
+  return snapshots;
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_BLOBS_STORE, ASSETS_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  const record = await requestToPromise(tx.objectStore(SNAPSHOTS_STORE).get(id)) as
+    StoredRecord<SnapshotRecord> | undefined;
+  tx.objectStore(SNAPSHOTS_STORE).delete(id);
+  tx.objectStore(SNAPSHOT_BLOBS_STORE).delete(prefixRange(id));
+  const deltas = new Map<string, number>();
+  addRefs(deltas, record?.assets, -1);
+  await applyRefDeltas(tx.objectStore(ASSETS_STORE), done, deltas, new Map());
+  await done;
+}
+
+// === Cifrado ===
+
+export function isStoreEncrypted(): boolean {
+  return encryption !== null;
+}
+
+/**
+ * Desbloquea el store con la contraseña; devuelve false si no es correcta.
+ * Si los datos no están cifrados (por ejemplo, otra pestaña quitó el
+ * cifrado) no hay nada que comprobar.
+ */
+export async function unlockStore(passphrase: string): Promise<boolean> {
+  const db = await openDatabase();
+  const meta = await readEncryptionMeta(db.transaction(META_STORE, 'readonly').objectStore(META_STORE));
+  if (!meta) {
+    encryption = null;
+    return true;
+  }
+  const key = await unlockEncryptionKey(passphrase, meta);
+  if (!key) return false;
+  encryption = key;
+  return true;
+}
+
+/** Olvida la clave: hasta volver a desbloquear no se puede leer ni guardar nada. */
+export function lockStore() {
+  encryption = null;
+  hashCache.clear();
+}
+
+/**
+ * Activa el cifrado (`current` null), cambia la contraseña o lo quita
+ * (`next` null). Lee todo lo guardado, notebooks, papelera, versiones y
+ * assets, y lo vuelve a escribir con la clave nueva en una sola transacción.
+ * Devuelve false si `current` no es la contraseña actual.
+ */
+export async function changeStorePassphrase(current: string | null, next: string | null): Promise<boolean> {
+  const db = await openDatabase();
+  const meta = await readEncryptionMeta(db.transaction(META_STORE, 'readonly').objectStore(META_STORE));
+  const previousKey = meta ? await unlockEncryptionKey(current ?? '', meta) : null;
+  if (meta && !previousKey) return false;
+  encryption = previousKey;
+
+  const stored = await readStore(db);
+  const readTx = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_BLOBS_STORE], 'readonly');
+  const [snapshotRecords, snapshotBlobs] = await Promise.all([
+    requestToPromise(readTx.objectStore(SNAPSHOTS_STORE).getAll()) as Promise<StoredRecord<SnapshotRecord>[]>,
+    requestToPromise(readTx.objectStore(SNAPSHOT_BLOBS_STORE).getAll()) as Promise<BlobRecord[]>,
+  ]);
+  const assetUrls = stored?.assetUrls ?? new Map<string, string>();
+  const snapshots = await Promise.all(snapshotRecords.map(record =>
+    readSnapshot(record, assetUrls, snapshotBlobs.filter(b => b.key.startsWith(`${record.id}/`)))
+  ));
+  const store = stored && stored.version !== CURRENT_SCHEMA_VERSION
+    ? migrateStore(stored.data, stored.version)
+    : stored?.data;
+
+  const key = next ? await createEncryptionKey(next) : null;
+  const hashes = await hashValues(collectPayloads({
+    notebooks: [...(store?.notebooks ?? []), ...snapshots.map(s => s.notebook)],
+    trash: store?.trash,
+  }));
+  const payloads = new Map<string, string>();
+  const notebooks = (store?.notebooks ?? []).map(notebook => serializeNotebook(notebook, hashes, payloads));
+  const trashItems = (store?.trash ?? []).map(item => serializeTrashItem(item, hashes, payloads));
+  const [projectRecords, notebookRecords, trashRecords, snapshotRecordsOut] = await Promise.all([
+    Promise.all((store?.projects ?? []).map(project => sealRecord(project, key))),
+    Promise.all(notebooks.map(notebook => sealRecord(notebook, key))),
+    Promise.all(trashItems.map(item => sealRecord(item, key))),
+    Promise.all(snapshots.map(snapshot => serializeSnapshot(snapshot, hashes, payloads, key))),
+  ]);
+  const counts = new Map<string, number>();
+  [...notebookRecords, ...trashRecords, ...snapshotRecordsOut].forEach(record => addRefs(counts, record.assets, 1));
+  const blobs = new Map<string, Blob>();
+  for (const [hash, value] of payloads) {
+    blobs.set(hash, await encodeAsset(value, key));
+  }
+
+  const tx = db.transaction([...ALL_STORES, SNAPSHOTS_STORE, SNAPSHOT_BLOBS_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  await assertEncryption(tx, done, previousKey);
+  [PROJECTS_STORE, NOTEBOOKS_STORE, TRASH_STORE, BLOBS_STORE, ASSETS_STORE, SNAPSHOTS_STORE, SNAPSHOT_BLOBS_STORE]
+    .forEach(name => tx.objectStore(name).clear());
+  projectRecords.forEach(record => tx.objectStore(PROJECTS_STORE).put(record));
+  notebookRecords.forEach(record => tx.objectStore(NOTEBOOKS_STORE).put(record));
+  trashRecords.forEach(record => tx.objectStore(TRASH_STORE).put(record));
+  snapshotRecordsOut.forEach(record => tx.objectStore(SNAPSHOTS_STORE).put(record));
+  counts.forEach((refCount, hash) => {
+    const blob = blobs.get(hash);
+    if (blob) tx.objectStore(ASSETS_STORE).put({ hash, blob, refCount });
+  });
+  if (store) tx.objectStore(META_STORE).put({ key: SCHEMA_VERSION_KEY, value: CURRENT_SCHEMA_VERSION });
+  if (key) {
+    tx.objectStore(META_STORE).put({ key: ENCRYPTION_KEY, value: key.meta });
+  } else {
+    tx.objectStore(META_STORE).delete(ENCRYPTION_KEY);
+  }
+  await done;
+
+  encryption = key;
+  // El journal, si quedó alguno, está en claro
+  clearJournal();
+  if (store) pruneHashCache(store);
+  return true;
+}
+
+// === Sincronización entre pestañas ===
+
+function mapSyncPayloads(message: SyncMessage, map: PayloadMapper): SyncMessage {
+  return {
+    ...message,
+    notebooks: message.notebooks.map(notebook => mapNotebookPayloads(notebook, map)),
+    trash: message.trash && { ...message.trash, added: message.trash.added.map(item => mapTrashPayloads(item, map)) },
+  };
+}
+
+/**
+ * Reemplaza los data URLs de un mensaje (ya cifrado con `sealSyncMessage`) por
+ * referencias a assets. Solo se adjuntan los payloads que no estaban en la
+ * versión compartida (`base`) de sus notebooks o de la papelera: editar el
+ * texto de un notebook con PDFs no vuelve a enviar los PDFs.
+ */
+export async function packSyncMessage(message: SyncMessage, base: SyncBase): Promise<SyncMessage> {
+  const values = collectPayloads({ notebooks: message.notebooks, trash: message.trash?.added });
+  if (values.length === 0) return message;
+
+  const hashes = await hashValues(values);
+  const shared = new Set(collectPayloads({
+    notebooks: message.notebooks.flatMap(notebook => base.notebooks.get(notebook.id) ?? []),
+    trash: message.trash && base.trash,
+  }));
+  const assets: Record<string, string> = {};
+  const packed = mapSyncPayloads(message, value => {
+    const hash = hashes.get(value);
+    if (!hash) return value;
+    if (!shared.has(value)) assets[hash] = value;
+    return assetRef(hash);
+  });
+  return { ...packed, assets };
+}
+
+async function readStoredAssets(hashes: string[]): Promise<Map<string, string>> {
+  const db = await openDatabase();
+  const tx = db.transaction(ASSETS_STORE, 'readonly');
+  const records = await Promise.all(
+    hashes.map(hash => requestToPromise(tx.objectStore(ASSETS_STORE).get(hash)) as Promise<AssetRecord | undefined>)
+  );
+  return readAssetUrls(records.filter((record): record is AssetRecord => !!record));
+}
+
+/**
+ * Resuelve las referencias de un mensaje de otra pestaña con los payloads
+ * adjuntos, los que esta pestaña ya tiene en memoria y, si faltan, los
+ * guardados en IndexedDB. Si alguno no aparece el mensaje no se aplica.
+ */
+export async function unpackSyncMessage(message: SyncMessage): Promise<SyncMessage> {
+  const { assets = {}, ...rest } = message;
+  Object.entries(assets).forEach(([hash, value]) => hashCache.set(value, hash));
+
+  const refs = new Set<string>();
+  mapSyncPayloads(rest, value => {
+    if (isAssetRef(value)) refs.add(assetHash(value));
+    return value;
+  });
+  if (refs.size === 0) return rest;
+
+  const dataUrls = new Map<string, string>();
+  hashCache.forEach((hash, value) => {
+    if (refs.has(hash)) dataUrls.set(hash, value);
+  });
+  const unknown = [...refs].filter(hash => !dataUrls.has(hash));
+  if (unknown.length > 0) {
+    (await readStoredAssets(unknown)).forEach((value, hash) => {
+      dataUrls.set(hash, value);
+      hashCache.set(value, hash);
+    });
+  }
+  const missing = [...refs].filter(hash => !dataUrls.has(hash));
+  if (missing.length > 0) throw new MissingAssetError(missing);
+
+  return mapSyncPayloads(rest, value => (isAssetRef(value) ? dataUrls.get(assetHash(value))! : value));
+}
+
+// === Cuota ===
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  if (usage === undefined || !quota) return null;
+  return { usage, quota };
+}
+
+export function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+// A partir de este uso relativo se avisa que el almacenamiento está por llenarse
+export const NEAR_QUOTA_RATIO = 0.9;
+
+export type PersistenceState = 'saved' | 'saving' | 'failed' | 'near-quota';
+
+export interface PersistenceStatus {
+  state: PersistenceState;
+  error: string | null;
+  lastSavedAt: number | null;
+  estimate: StorageEstimate | null;
+}
@@ -0,0 +1,73 @@
+import { Cell, Notebook } from '@/types/notebook';
+import { getCellLabel } from '@/lib/cells';
+
+export interface CellSize {
+  cellId: string;
+  index: number;
+  type: Cell['type'];
+  label: string;
+  bytes: number;
+}
+
+export interface NotebookSize {
+  notebookId: string;
+  total: number;
+  cells: CellSize[];
+}
+
+// Tamaño aproximado en bytes de un payload: los data URLs en base64 ocupan 3/4 al guardarse como blob
+function payloadBytes(value: string | undefined): number {
+  if (!value) return 0;
+  const comma = value.indexOf(',');
+  if (value.startsWith('data:') && comma !== -1 && value.slice(0, comma).includes(';base64')) {
+    return Math.floor(((value.length - comma - 1) * 3) / 4);
+  }
+  return value.length * 2;
+}
+
+export function getCellSize(cell: Cell): number {
+  switch (cell.type) {
+    case 'markdown':
+      return payloadBytes(cell.content);
+    case 'drawing':
+    case 'image':
+      return payloadBytes(cell.dataUrl);
+    case 'pdf':
+      return payloadBytes(cell.pdfData) + cell.pages.reduce((sum, page) =>
+        sum +
+        payloadBytes(page.drawingDataUrl) +
+        payloadBytes(page.customDrawingDataUrl) +
+        payloadBytes(page.notes) +
+        page.noteCells.reduce((acc, mini) =>
+          acc + payloadBytes(mini.type === 'markdown' ? mini.content : mini.dataUrl), 0),
+      0);
+    case 'code':
+      return payloadBytes(cell.source) + payloadBytes(JSON.stringify(cell.outputs));
+  }
+}
+
+/** Desglose del espacio que ocupa cada celda de un notebook, de mayor a menor. */
+export function getNotebookSize(notebook: Notebook): NotebookSize {
+  const cells = notebook.cells
+    .map((cell, index) => ({
+      cellId: cell.id,
+      index,
+      type: cell.type,
+      label: getCellLabel(cell),
+      bytes: getCellSize(cell),
+    }))
+    .sort((a, b) => b.bytes - a.bytes);
+
+  return {
+    notebookId: notebook.id,
+    total: cells.reduce((sum, c) => sum + c.bytes, 0) + payloadBytes(notebook.title),
+    cells,
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
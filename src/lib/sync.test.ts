@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { Notebook, ProjectStore, TrashItem } from '@/types/notebook';
+import { advanceSyncBase, applySyncMessage, collectSyncMessage, createSyncBase } from '@/lib/sync';
+
+const notebook: Notebook = { id: 'nb-1', title: 'Diario', cells: [], createdAt: 0, updatedAt: 0 };
+
+function trashed(id: string): TrashItem {
+  return { id, kind: 'notebook', deletedAt: 0, location: [], notebook: { ...notebook, id: `nb-${id}` } };
+}
+
+function store(trash: TrashItem[]): ProjectStore {
+  return { projects: [], notebooks: [notebook], activeNotebookId: notebook.id, trash, trashRetentionDays: 30 };
+}
+
+describe('papelera entre pestanas', () => {
+  const [a, b, c] = [trashed('a'), trashed('b'), trashed('c')];
+
+  it('solo se envia lo que entro y salio', () => {
+    const message = collectSyncMessage(createSyncBase(store([a, b])), store([c, a]));
+    expect(message?.trash).toEqual({ added: [c], removedIds: ['b'] });
+  });
+
+  it('se combina con los cambios de la papelera local', () => {
+    const base = createSyncBase(store([a, b]));
+    const message = collectSyncMessage(base, store([c, a]))!;
+    const local = trashed('d');
+    const result = applySyncMessage(store([local, a, b]), base, message);
+    expect(result.store.trash).toEqual([c, local, a]);
+    expect(advanceSyncBase(base, message).trash).toEqual([c, a]);
+  });
+});
@@ -0,0 +1,243 @@
+import { Cell, Notebook, Project, ProjectStore, TrashItem } from '@/types/notebook';
+import { cellContentEquals } from '@/lib/diff';
+
+// Canal compartido por todas las pestañas de la app
+export const SYNC_CHANNEL = 'personal-notebook-sync';
+
+/**
+ * Cambios de una pestaña desde lo último que compartió con las demás. Los
+ * payloads (PDFs, imágenes, dibujos) viajan como referencias "asset:<hash>";
+ * en `assets` van solo los que las otras pestañas todavía no pueden tener.
+ */
+export interface SyncMessage {
+  notebooks: Notebook[];
+  deletedNotebookIds: string[];
+  projects?: Project[]; // solo si cambiaron; la organización se reemplaza completa
+  trash?: TrashChange;
+  assets?: Record<string, string>; // hash -> data URL
+}
+
+/** Elementos que entraron a la papelera (o cambiaron) y los que salieron. */
+export interface TrashChange {
+  added: TrashItem[];
+  removedIds: string[];
+}
+
+/** Última versión de cada notebook que se sabe compartida con las otras pestañas. */
+export interface SyncBase {
+  notebooks: Map<string, Notebook>;
+  projects: Project[];
+  trash: TrashItem[];
+}
+
+// La misma celda cambió de forma distinta en esta pestaña y en otra
+export interface SyncConflict {
+  notebookId: string;
+  notebookTitle: string;
+  cellId: string;
+  local: Cell;
+  remote: Cell;
+}
+
+export function createSyncBase(store: ProjectStore): SyncBase {
+  return {
+    notebooks: new Map(store.notebooks.map(n => [n.id, n])),
+    projects: store.projects,
+    trash: store.trash,
+  };
+}
+
+/** Incrementa la revisión de los notebooks que cambiaron entre `prev` y `next`. */
+export function bumpRevisions(prev: ProjectStore | null, next: ProjectStore | null): ProjectStore | null {
+  if (!prev || !next || prev.notebooks === next.notebooks) return next;
+  const previous = new Map(prev.notebooks.map(n => [n.id, n]));
+  return {
+    ...next,
+    notebooks: next.notebooks.map(n => {
+      const before = previous.get(n.id);
+      return before && before !== n ? { ...n, revision: (before.revision ?? 0) + 1 } : n;
+    }),
+  };
+}
+
+function diffTrash(base: TrashItem[], trash: TrashItem[]): TrashChange | undefined {
+  const known = new Set(base);
+  const ids = new Set(trash.map(item => item.id));
+  const added = trash.filter(item => !known.has(item));
+  const removedIds = base.filter(item => !ids.has(item.id)).map(item => item.id);
+  return added.length > 0 || removedIds.length > 0 ? { added, removedIds } : undefined;
+}
+
+// Los elementos nuevos van primero, como al enviarlos a la papelera
+function patchTrash(trash: TrashItem[], change: TrashChange): TrashItem[] {
+  const removed = new Set(change.removedIds);
+  const added = new Map(change.added.map(item => [item.id, item]));
+  const kept = trash.filter(item => !removed.has(item.id)).map(item => added.get(item.id) ?? item);
+  const ids = new Set(kept.map(item => item.id));
+  return [...change.added.filter(item => !ids.has(item.id)), ...kept];
+}
+
+export function collectSyncMessage(base: SyncBase, store: ProjectStore): SyncMessage | null {
+  const notebooks = store.notebooks.filter(n => base.notebooks.get(n.id) !== n);
+  const ids = new Set(store.notebooks.map(n => n.id));
+  const deletedNotebookIds = [...base.notebooks.keys()].filter(id => !ids.has(id));
+  const projects = store.projects !== base.projects ? store.projects : undefined;
+  const trash = store.trash !== base.trash ? diffTrash(base.trash, store.trash) : undefined;
+
+  if (notebooks.length === 0 && deletedNotebookIds.length === 0 && !projects && !trash) return null;
+  return { notebooks, deletedNotebookIds, projects, trash };
+}
+
+function isStale(base: SyncBase, notebook: Notebook): boolean {
+  const known = base.notebooks.get(notebook.id);
+  return !!known && (notebook.revision ?? 0) <= (known.revision ?? 0);
+}
+
+/** Lo que queda compartido después de aplicar un mensaje de otra pestaña. */
+export function advanceSyncBase(base: SyncBase, message: SyncMessage): SyncBase {
+  const notebooks = new Map(base.notebooks);
+  message.notebooks.forEach(n => {
+    if (!isStale(base, n)) notebooks.set(n.id, n);
+  });
+  message.deletedNotebookIds.forEach(id => notebooks.delete(id));
+  return {
+    notebooks,
+    projects: message.projects ?? base.projects,
+    trash: message.trash ? patchTrash(base.trash, message.trash) : base.trash,
+  };
+}
+
+function cellChanged(a: Cell | undefined, b: Cell | undefined): boolean {
+  return !a || !b ? a !== b : !cellContentEquals(a, b);
+}
+
+/**
+ * Merge a tres vías celda por celda entre la versión compartida (`base`), la
+ * local y la remota. Se toma el orden remoto, se conservan los cambios locales
+ * que no chocan y las celdas cambiadas en las dos pestañas quedan con la
+ * versión local y se informan como conflicto.
+ */
+export function mergeNotebook(
+  base: Notebook,
+  local: Notebook,
+  remote: Notebook
+): { notebook: Notebook; conflicts: SyncConflict[] } {
+  if (local === base) return { notebook: remote, conflicts: [] };
+
+  const baseCells = new Map(base.cells.map(c => [c.id, c]));
+  const localCells = new Map(local.cells.map(c => [c.id, c]));
+  const remoteIds = new Set(remote.cells.map(c => c.id));
+  const conflicts: SyncConflict[] = [];
+  const cells: Cell[] = [];
+
+  for (const remoteCell of remote.cells) {
+    const baseCell = baseCells.get(remoteCell.id);
+    const localCell = localCells.get(remoteCell.id);
+    if (!baseCell) {
+      cells.push(localCell ?? remoteCell);
+      continue;
+    }
+    const remoteChanged = cellChanged(baseCell, remoteCell);
+    if (!localCell) {
+      // Borrada en esta pestaña: se mantiene solo si la otra la editó
+      if (remoteChanged) cells.push(remoteCell);
+      continue;
+    }
+    const localChanged = cellChanged(baseCell, localCell);
+    if (localChanged && remoteChanged && cellChanged(localCell, remoteCell)) {
+      conflicts.push({
+        notebookId: local.id,
+        notebookTitle: local.title,
+        cellId: localCell.id,
+        local: localCell,
+        remote: remoteCell,
+      });
+    }
+    cells.push(localChanged ? localCell : remoteCell);
+  }
+
+  // Celdas nuevas en esta pestaña (o editadas aquí y borradas en la otra):
+  // van después de la celda que tenían antes
+  local.cells.forEach((cell, index) => {
+    if (remoteIds.has(cell.id)) return;
+    const baseCell = baseCells.get(cell.id);
+    if (baseCell && !cellChanged(baseCell, cell)) return;
+    const previousId = index > 0 ? local.cells[index - 1].id : null;
+    const at = previousId ? cells.findIndex(c => c.id === previousId) + 1 : 0;
+    cells.splice(at, 0, cell);
+  });
+
+  return {
+    notebook: {
+      ...remote,
+      title: local.title !== base.title ? local.title : remote.title,
+      projectId: local.projectId !== base.projectId ? local.projectId : remote.projectId,
+      cells,
+      updatedAt: Math.max(local.updatedAt, remote.updatedAt),
+      revision: Math.max(local.revision ?? 0, remote.revision ?? 0) + 1,
+    },
+    conflicts,
+  };
+}
+
+/**
+ * Aplica al store local los cambios de otra pestaña. Los notebooks que no se
+ * tocaron aquí se reemplazan; los que sí, se combinan con `mergeNotebook`.
+ */
+export function applySyncMessage(
+  store: ProjectStore,
+  base: SyncBase,
+  message: SyncMessage
+): { store: ProjectStore; conflicts: SyncConflict[]; updatedIds: string[] } {
+  const conflicts: SyncConflict[] = [];
+  const updatedIds: string[] = [];
+  let notebooks = store.notebooks;
+
+  for (const remote of message.notebooks) {
+    if (isStale(base, remote)) continue;
+    const local = notebooks.find(n => n.id === remote.id);
+    const shared = base.notebooks.get(remote.id);
+    let next = remote;
+    if (local && shared) {
+      const merged = mergeNotebook(shared, local, remote);
+      next = merged.notebook;
+      conflicts.push(...merged.conflicts);
+    } else if (local) {
+      // Creado en las dos pestañas a la vez (no debería pasar con ids aleatorios)
+      continue;
+    }
+    updatedIds.push(remote.id);
+    notebooks = local ? notebooks.map(n => (n.id === remote.id ? next : n)) : [...notebooks, next];
+  }
+
+  // Los borrados remotos se aplican salvo que aquí haya cambios sin compartir
+  const deleted = new Set(
+    message.deletedNotebookIds.filter(id => {
+      const local = notebooks.find(n => n.id === id);
+      return local && local === base.notebooks.get(id);
+    })
+  );
+  if (deleted.size > 0) notebooks = notebooks.filter(n => !deleted.has(n.id));
+
+  // Un notebook que sigue vivo aquí no puede estar también en la papelera
+  let trash = message.trash ? patchTrash(store.trash, message.trash) : store.trash;
+  const ids = new Set(notebooks.map(n => n.id));
+  const visibleTrash = trash.filter(item => item.kind !== 'notebook' || !ids.has(item.notebook.id));
+  if (visibleTrash.length !== trash.length) trash = visibleTrash;
+
+  const activeNotebookId = store.activeNotebookId && ids.has(store.activeNotebookId)
+    ? store.activeNotebookId
+    : notebooks[0]?.id ?? null;
+
+  return {
+    store: {
+      ...store,
+      projects: message.projects ?? store.projects,
+      notebooks,
+      trash,
+      activeNotebookId,
+    },
+    conflicts,
+    updatedIds: [...updatedIds, ...deleted],
+  };
+}
@@ -0,0 +1,394 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Cell,
+  CodeLanguage,
+  CodeLogLevel,
+  CodeOutput,
+  MiniBackgroundType,
+  MiniCell,
+  Notebook,
+  NotebookLock,
+  PDFPage,
+  Project,
+} from '@/types/notebook';
+
+export interface ValidationIssue {
+  path: string; // ruta del campo, por ejemplo "cells[2].pages[0].noteCells[1].dataUrl"
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; repairs: ValidationIssue[] }
+  | { ok: false; errors: ValidationIssue[] };
+
+type RawObject = Record<string, unknown>;
+
+const MINI_BACKGROUNDS: MiniBackgroundType[] = ['blank', 'grid', 'lines', 'dots'];
+const DEFAULT_MINI_DRAWING_HEIGHT = 150;
+const CODE_LANGUAGES: CodeLanguage[] = ['javascript', 'typescript'];
+const LOG_LEVELS: CodeLogLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+
+function field(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Acumula errores y reparaciones mientras se recorre el documento. Cada helper
+ * devuelve el valor validado (o reparado) para poder construir el resultado.
+ */
+class Validator {
+  errors: ValidationIssue[] = [];
+  repairs: ValidationIssue[] = [];
+  private now = Date.now();
+
+  error(path: string, message: string) {
+    this.errors.push({ path, message });
+  }
+
+  repair(path: string, message: string) {
+    this.repairs.push({ path, message });
+  }
+
+  object(value: unknown, path: string): RawObject | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.error(path, 'debe ser un objeto');
+      return null;
+    }
+    return value as RawObject;
+  }
+
+  array(value: unknown, path: string): unknown[] | null {
+    if (!Array.isArray(value)) {
+      this.error(path, 'debe ser una lista');
+      return null;
+    }
+    return value;
+  }
+
+  string(obj: RawObject, key: string, path: string, fallback?: string): string {
+    const value = obj[key];
+    if (typeof value === 'string') return value;
+    if (value === undefined && fallback !== undefined) {
+      this.repair(field(path, key), `faltaba, se usa "${fallback}"`);
+      return fallback;
+    }
+    this.error(field(path, key), value === undefined ? 'es obligatorio' : 'debe ser texto');
+    return '';
+  }
+
+  number(obj: RawObject, key: string, path: string, fallback?: number): number {
+    const value = obj[key];
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (value === undefined && fallback !== undefined) {
+      this.repair(field(path, key), `faltaba, se usa ${fallback}`);
+      return fallback;
+    }
+    this.error(field(path, key), value === undefined ? 'es obligatorio' : 'debe ser un numero');
+    return 0;
+  }
+
+  timestamp(obj: RawObject, key: string, path: string): number {
+    const value = obj[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) return value;
+    this.repair(field(path, key), 'fecha ausente o invalida, se usa la fecha actual');
+    return this.now;
+  }
+
+  dataUrl(obj: RawObject, key: string, path: string, required = true): string {
+    const value = this.string(obj, key, path, required ? undefined : '');
+    if (value && !/^(data:|https?:)/.test(value)) {
+      this.error(field(path, key), 'debe ser un data URL o una URL http(s)');
+    }
+    return value;
+  }
+}
+
+function validateMiniCell(v: Validator, raw: unknown, path: string): MiniCell | null {
+  const obj = v.object(raw, path);
+  if (!obj) return null;
+  const id = uuidv4();
+
+  switch (obj.type) {
+    case 'markdown':
+      return { id, type: 'markdown', content: v.string(obj, 'content', path, '') };
+    case 'drawing': {
+      let background = obj.background as MiniBackgroundType;
+      if (!MINI_BACKGROUNDS.includes(background)) {
+        v.repair(`${path}.background`, 'fondo desconocido, se usa "blank"');
+        background = 'blank';
+      }
+      return {
+        id,
+        type: 'drawing',
+        dataUrl: v.dataUrl(obj, 'dataUrl', path, false),
+        height: v.number(obj, 'height', path, DEFAULT_MINI_DRAWING_HEIGHT),
+        background,
+      };
+    }
+    case 'image':
+      return {
+        id,
+        type: 'image',
+        dataUrl: v.dataUrl(obj, 'dataUrl', path, false),
+        alt: v.string(obj, 'alt', path, ''),
+      };
+    default:
+      v.error(`${path}.type`, `tipo de mini celda desconocido: ${JSON.stringify(obj.type)}`);
+      return null;
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// Las salidas se pueden regenerar ejecutando la celda: las que no se entienden se descartan
+function validateCodeOutput(raw: unknown): CodeOutput | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const obj = raw as RawObject;
+  switch (obj.type) {
+    case 'log':
+      return typeof obj.text === 'string' && LOG_LEVELS.includes(obj.level as CodeLogLevel)
+        ? { type: 'log', level: obj.level as CodeLogLevel, text: obj.text }
+        : null;
+    case 'result':
+      return typeof obj.text === 'string' ? { type: 'result', text: obj.text } : null;
+    case 'error':
+      return typeof obj.name === 'string' && typeof obj.message === 'string'
+        ? { type: 'error', name: obj.name, message: obj.message }
+        : null;
+    case 'table':
+      return isStringArray(obj.columns) && Array.isArray(obj.rows) && obj.rows.every(isStringArray)
+        ? { type: 'table', columns: obj.columns, rows: obj.rows as string[][] }
+        : null;
+    case 'chart': {
+      const series = Array.isArray(obj.series) ? (obj.series as RawObject[]) : null;
+      const valid = (obj.kind === 'bar' || obj.kind === 'line') &&
+        isStringArray(obj.labels) &&
+        series?.every(s => typeof s?.name === 'string' && Array.isArray(s.values) && s.values.every(n => typeof n === 'number'));
+      return valid
+        ? {
+          type: 'chart',
+          kind: obj.kind as 'bar' | 'line',
+          labels: obj.labels as string[],
+          series: (series as RawObject[]).map(s => ({ name: s.name as string, values: s.values as number[] })),
+        }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function validatePage(v: Validator, raw: unknown, path: string): PDFPage | null {
+  const obj = v.object(raw, path);
+  if (!obj) return null;
+
+  let pageNumber: number | null = null;
+  if (obj.pageNumber !== null) {
+    pageNumber = v.number(obj, 'pageNumber', path);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+      v.error(`${path}.pageNumber`, 'debe ser un entero positivo o null');
+    }
+  }
+
+  let isCustomPage = obj.isCustomPage;
+  if (typeof isCustomPage !== 'boolean') {
+    isCustomPage = pageNumber === null;
+    v.repair(`${path}.isCustomPage`, `faltaba, se deduce ${isCustomPage} a partir de pageNumber`);
+  }
+
+  let noteCells: MiniCell[] = [];
+  if (obj.noteCells === undefined) {
+    v.repair(`${path}.noteCells`, 'faltaba, se usa una lista vacia');
+  } else {
+    const rawCells = v.array(obj.noteCells, `${path}.noteCells`) ?? [];
+    noteCells = rawCells
+      .map((c, i) => validateMiniCell(v, c, `${path}.noteCells[${i}]`))
+      .filter((c): c is MiniCell => c !== null);
+  }
+
+  const page: PDFPage = {
+    id: uuidv4(),
+    pageNumber,
+    drawingDataUrl: v.dataUrl(obj, 'drawingDataUrl', path, false),
+    notes: v.string(obj, 'notes', path, ''),
+    noteCells,
+    isCustomPage: isCustomPage as boolean,
+  };
+  if (obj.customDrawingDataUrl !== undefined) {
+    page.customDrawingDataUrl = v.dataUrl(obj, 'customDrawingDataUrl', path);
+  }
+  return page;
+}
+
+function validateCell(v: Validator, raw: unknown, path: string): Cell | null {
+  const obj = v.object(raw, path);
+  if (!obj) return null;
+
+  const base = {
+    id: uuidv4(),
+    createdAt: v.timestamp(obj, 'createdAt', path),
+    updatedAt: v.timestamp(obj, 'updatedAt', path),
+  };
+
+  switch (obj.type) {
+    case 'markdown':
+      return { ...base, type: 'markdown', content: v.string(obj, 'content', path, '') };
+    case 'drawing':
+      return {
+        ...base,
+        type: 'drawing',
+        dataUrl: v.dataUrl(obj, 'dataUrl', path, false),
+        width: v.number(obj, 'width', path),
+        height: v.number(obj, 'height', path),
+      };
+    case 'image':
+      return {
+        ...base,
+        type: 'image',
+        dataUrl: v.dataUrl(obj, 'dataUrl', path, false),
+        alt: v.string(obj, 'alt', path, ''),
+      };
+    case 'pdf': {
+      const pdfData = v.string(obj, 'pdfData', path, '');
+      if (pdfData && !pdfData.startsWith('data:')) {
+        v.error(`${path}.pdfData`, 'debe ser un data URL con el PDF en base64');
+      }
+      const rawPages = v.array(obj.pages ?? [], `${path}.pages`) ?? [];
+      const pages = rawPages
+        .map((p, i) => validatePage(v, p, `${path}.pages[${i}]`))
+        .filter((p): p is PDFPage => p !== null);
+      const totalOriginalPages = v.number(
+        obj,
+        'totalOriginalPages',
+        path,
+        pages.filter(p => !p.isCustomPage).length
+      );
+      pages.forEach((page, i) => {
+        if (page.pageNumber !== null && page.pageNumber > totalOriginalPages) {
+          v.error(`${path}.pages[${i}].pageNumber`, `supera el total de paginas del PDF (${totalOriginalPages})`);
+        }
+      });
+      return {
+        ...base,
+        type: 'pdf',
+        pdfData,
+        fileName: v.string(obj, 'fileName', path, ''),
+        pages,
+        totalOriginalPages,
+      };
+    }
+    case 'code': {
+      let language = obj.language as CodeLanguage;
+      if (!CODE_LANGUAGES.includes(language)) {
+        v.repair(`${path}.language`, 'lenguaje desconocido, se usa "javascript"');
+        language = 'javascript';
+      }
+      const rawOutputs = v.array(obj.outputs ?? [], `${path}.outputs`) ?? [];
+      const outputs = rawOutputs
+        .map(validateCodeOutput)
+        .filter((o): o is CodeOutput => o !== null);
+      if (outputs.length < rawOutputs.length) {
+        v.repair(`${path}.outputs`, `se descartaron ${rawOutputs.length - outputs.length} salidas invalidas`);
+      }
+      let executionCount: number | null = null;
+      if (obj.executionCount !== null && obj.executionCount !== undefined) {
+        executionCount = v.number(obj, 'executionCount', path);
+      }
+      return {
+        ...base,
+        type: 'code',
+        language,
+        source: v.string(obj, 'source', path, ''),
+        outputs,
+        executionCount,
+      };
+    }
+    default:
+      v.error(`${path}.type`, `tipo de celda desconocido: ${JSON.stringify(obj.type)}`);
+      return null;
+  }
+}
+
+/**
+ * Valida un notebook importado contra los tipos de `@/types/notebook`.
+ * Repara lo que es seguro completar (fechas, noteCells, textos opcionales),
+ * genera ids nuevos para todas las celdas y páginas (evita duplicados) y
+ * rechaza el documento si queda algún error.
+ */
+export function validateNotebook(raw: unknown): ValidationResult<Notebook> {
+  const v = new Validator();
+  const obj = v.object(raw, '(raiz)');
+  if (!obj) return { ok: false, errors: v.errors };
+
+  const rawCells = v.array(obj.cells, 'cells') ?? [];
+  const cells = rawCells
+    .map((c, i) => validateCell(v, c, `cells[${i}]`))
+    .filter((c): c is Cell => c !== null);
+
+  const notebook: Notebook = {
+    id: uuidv4(),
+    title: v.string(obj, 'title', '', 'Notebook importado'),
+    cells,
+    createdAt: v.timestamp(obj, 'createdAt', ''),
+    updatedAt: v.timestamp(obj, 'updatedAt', ''),
+  };
+
+  if (v.errors.length > 0) return { ok: false, errors: v.errors };
+  return { ok: true, value: notebook, repairs: v.repairs };
+}
+
+/**
+ * Valida un proyecto de una copia de seguridad. A diferencia de los notebooks
+ * conserva el id, porque los hijos lo referencian en `parentId`.
+ */
+export function validateProject(raw: unknown): ValidationResult<Project> {
+  const v = new Validator();
+  const obj = v.object(raw, '(raiz)');
+  if (!obj) return { ok: false, errors: v.errors };
+
+  const id = v.string(obj, 'id', '');
+  if (obj.id !== undefined && !id) v.error('id', 'no puede estar vacio');
+  let parentId: string | null = null;
+  if (obj.parentId !== null && obj.parentId !== undefined) {
+    parentId = v.string(obj, 'parentId', '');
+  } else if (obj.parentId === undefined) {
+    v.repair('parentId', 'faltaba, queda como proyecto raiz');
+  }
+
+  const project: Project = {
+    id,
+    name: v.string(obj, 'name', '', 'Proyecto importado'),
+    parentId,
+    createdAt: v.timestamp(obj, 'createdAt', ''),
+    updatedAt: v.timestamp(obj, 'updatedAt', ''),
+  };
+
+  if (v.errors.length > 0) return { ok: false, errors: v.errors };
+  return { ok: true, value: project, repairs: v.repairs };
+}
+
+/** Valida la contraseña de un notebook (los datos de `Notebook.lock`). */
+export function validateNotebookLock(raw: unknown): ValidationResult<NotebookLock> {
+  const v = new Validator();
+  const obj = v.object(raw, 'lock');
+  if (!obj) return { ok: false, errors: v.errors };
+
+  const lock: NotebookLock = {
+    salt: v.string(obj, 'salt', 'lock'),
+    iterations: v.number(obj, 'iterations', 'lock'),
+    check: v.string(obj, 'check', 'lock'),
+    cells: obj.cells === null ? null : v.string(obj, 'cells', 'lock'),
+  };
+
+  if (v.errors.length > 0) return { ok: false, errors: v.errors };
+  return { ok: true, value: lock, repairs: v.repairs };
+}
+
+// Error de importación listo para mostrar al usuario
+export interface ImportError {
+  fileName: string;
+  message: string;
+  issues: ValidationIssue[];
+}
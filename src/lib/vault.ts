@@ -0,0 +1,282 @@
+import { blobToDataUrl } from '@/lib/assets';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/migrations';
+import { ValidationIssue } from '@/lib/validation';
+
+/**
+ * Importación de una carpeta de archivos .md (por ejemplo, una bóveda de
+ * Obsidian). Cada carpeta pasa a ser un proyecto y cada .md un notebook, con
+ * una celda de Markdown por cada título del nivel más alto del archivo. Las
+ * imágenes locales que ocupan una línea propia se vuelven celdas de imagen;
+ * las que están dentro de un párrafo quedan incrustadas como data URL.
+ */
+
+type RawObject = Record<string, unknown>;
+
+export interface VaultFolder {
+  name: string;
+  folders: VaultFolder[];
+  notebooks: RawObject[]; // en el formato de un notebook exportado, sin validar
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+};
+
+// Ruta dentro de la carpeta elegida (los navegadores la dan en webkitRelativePath)
+function relativePath(file: File): string {
+  return file.webkitRelativePath || file.name;
+}
+
+function extension(path: string): string {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+// .obsidian, .trash, .git y demás carpetas ocultas no son notas
+function isHidden(path: string): boolean {
+  return path.split('/').some(part => part.startsWith('.'));
+}
+
+function stripFrontMatter(text: string): { title: string | null; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(text);
+  if (!match) return { title: null, body: text };
+  const title = /^title:\s*["']?(.+?)["']?\s*$/m.exec(match[1])?.[1] ?? null;
+  return { title, body: text.slice(match[0].length) };
+}
+
+interface ImageRef {
+  alt: string;
+  target: string;
+  wiki: boolean;
+}
+
+// `![alt](ruta)` o el embed de Obsidian `![[ruta|alt o ancho]]`
+const IMAGE_PATTERN = /!\[\[([^\]|]+)(?:\|([^\]]*))?\]\]|!\[((?:\\.|[^\]])*)\]\(\s*<?([^)<>]+?)>?(?:\s+"[^"]*")?\s*\)/g;
+
+// Una imagen sola en la línea
+const STANDALONE_IMAGE = new RegExp(`^\\s*(?:${IMAGE_PATTERN.source})\\s*$`);
+
+function toImageRef(match: RegExpExecArray): ImageRef {
+  if (match[1] !== undefined) {
+    const option = match[2]?.trim() ?? '';
+    // En Obsidian `|300` o `|300x200` es el tamaño, no el texto alternativo
+    return { alt: /^\d+(x\d+)?$/.test(option) ? '' : option, target: match[1].trim(), wiki: true };
+  }
+  return { alt: match[3].replace(/\\(.)/g, '$1'), target: match[4], wiki: false };
+}
+
+function decodePath(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+class VaultReader {
+  private files = new Map<string, File>();
+  private byName = new Map<string, string[]>();
+  private dataUrls = new Map<string, Promise<string>>();
+
+  constructor(files: File[]) {
+    for (const file of files) {
+      const path = relativePath(file);
+      this.files.set(path, file);
+      const name = path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+      this.byName.set(name, [...(this.byName.get(name) ?? []), path]);
+    }
+  }
+
+  /**
+   * Busca la imagen relativa al archivo; si no está, como Obsidian, por nombre
+   * en toda la carpeta (la de ruta más corta si hay varias).
+   */
+  resolve(notePath: string, ref: ImageRef): string | null {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(ref.target)) return null;
+    const target = ref.wiki ? ref.target : decodePath(ref.target);
+    if (!IMAGE_TYPES[extension(target)]) return null;
+    const baseDir = notePath.slice(0, notePath.lastIndexOf('/') + 1);
+    const root = notePath.split('/')[0];
+    const candidates = target.startsWith('/')
+      ? [normalizePath(`${root}${target}`)]
+      : [normalizePath(`${baseDir}${target}`), normalizePath(`${root}/${target}`)];
+    const direct = candidates.find(path => this.files.has(path));
+    if (direct) return direct;
+    const name = target.slice(target.lastIndexOf('/') + 1).toLowerCase();
+    const matches = this.byName.get(name) ?? [];
+    return [...matches].sort((a, b) => a.split('/').length - b.split('/').length)[0] ?? null;
+  }
+
+  dataUrl(path: string): Promise<string> {
+    let cached = this.dataUrls.get(path);
+    if (!cached) {
+      const file = this.files.get(path) as File;
+      cached = blobToDataUrl(new Blob([file], { type: IMAGE_TYPES[extension(path)] }));
+      this.dataUrls.set(path, cached);
+    }
+    return cached;
+  }
+}
+
+// Nivel de los títulos que separan celdas: el más alto que aparece fuera de bloques de código
+function topHeadingLevel(lines: string[]): number | null {
+  let fence: string | null = null;
+  let level: number | null = null;
+  for (const line of lines) {
+    const marker = /^\s*(`{3,}|~{3,})/.exec(line)?.[1];
+    if (fence) {
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+      continue;
+    }
+    if (marker) {
+      fence = marker;
+      continue;
+    }
+    const heading = /^\s{0,3}(#{1,6})\s/.exec(line);
+    if (heading) level = Math.min(level ?? 6, heading[1].length);
+  }
+  return level;
+}
+
+async function noteToCells(text: string, notePath: string, reader: VaultReader): Promise<RawObject[]> {
+  const lines = text.split(/\r?\n/);
+  const splitLevel = topHeadingLevel(lines);
+  const cells: RawObject[] = [];
+  let buffer: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    const content = buffer.join('\n').trim();
+    if (content) cells.push({ type: 'markdown', content });
+    buffer = [];
+  };
+
+  // Las imágenes dentro de un párrafo se incrustan; las que no se encuentran quedan como están
+  const inlineImages = async (line: string): Promise<string> => {
+    let result = '';
+    let last = 0;
+    for (const match of Array.from(line.matchAll(IMAGE_PATTERN))) {
+      const ref = toImageRef(match);
+      const path = reader.resolve(notePath, ref);
+      result += line.slice(last, match.index);
+      result += path ? `![${ref.alt}](${await reader.dataUrl(path)})` : match[0];
+      last = (match.index ?? 0) + match[0].length;
+    }
+    return result + line.slice(last);
+  };
+
+  for (const line of lines) {
+    const marker = /^\s*(`{3,}|~{3,})/.exec(line)?.[1];
+    if (fence) {
+      buffer.push(line);
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+      continue;
+    }
+    if (marker) {
+      fence = marker;
+      buffer.push(line);
+      continue;
+    }
+
+    const heading = /^\s{0,3}(#{1,6})\s/.exec(line);
+    if (heading && heading[1].length === splitLevel) flush();
+
+    const standalone = STANDALONE_IMAGE.exec(line);
+    if (standalone) {
+      const ref = toImageRef(standalone);
+      const path = reader.resolve(notePath, ref);
+      if (path) {
+        flush();
+        cells.push({ type: 'image', dataUrl: await reader.dataUrl(path), alt: ref.alt });
+        continue;
+      }
+    }
+    buffer.push(await inlineImages(line));
+  }
+  flush();
+  return cells;
+}
+
+function folderAt(root: VaultFolder, dirs: string[]): VaultFolder {
+  let folder = root;
+  for (const name of dirs) {
+    let child = folder.folders.find(f => f.name === name);
+    if (!child) {
+      child = { name, folders: [], notebooks: [] };
+      folder.folders.push(child);
+    }
+    folder = child;
+  }
+  return folder;
+}
+
+// Las carpetas sin ningún .md (como la de adjuntos) no se importan
+function pruneEmpty(folder: VaultFolder): VaultFolder | null {
+  const folders = folder.folders.map(pruneEmpty).filter((f): f is VaultFolder => f !== null);
+  if (folders.length === 0 && folder.notebooks.length === 0) return null;
+  return { ...folder, folders };
+}
+
+function byName(a: { name: string }, b: { name: string }): number {
+  return a.name.localeCompare(b.name, undefined, { numeric: true });
+}
+
+function sortTree(folder: VaultFolder): VaultFolder {
+  return {
+    ...folder,
+    folders: folder.folders.map(sortTree).sort(byName),
+    notebooks: [...folder.notebooks].sort((a, b) => String(a.title).localeCompare(String(b.title), undefined, { numeric: true })),
+  };
+}
+
+/**
+ * Lee los archivos de una carpeta elegida con `<input webkitdirectory>`. La
+ * carpeta elegida es la raíz del árbol; devuelve null si no hay ningún .md.
+ */
+export async function readVault(files: File[]): Promise<{ root: VaultFolder | null; errors: ValidationIssue[] }> {
+  const reader = new VaultReader(files);
+  const errors: ValidationIssue[] = [];
+  const notes = files
+    .filter(file => extension(relativePath(file)) === 'md' && !isHidden(relativePath(file)))
+    .sort((a, b) => relativePath(a).localeCompare(relativePath(b)));
+  const rootName = relativePath(notes[0] ?? files[0] ?? new File([], 'Carpeta')).split('/')[0];
+  const root: VaultFolder = { name: rootName, folders: [], notebooks: [] };
+
+  for (const file of notes) {
+    const path = relativePath(file);
+    const dirs = path.split('/').slice(1, -1);
+    try {
+      const { title, body } = stripFrontMatter(await file.text());
+      const now = file.lastModified || Date.now();
+      const cells = await noteToCells(body, path, reader);
+      folderAt(root, dirs).notebooks.push({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        title: title || file.name.replace(/\.md$/i, ''),
+        cells: cells.map(cell => ({ ...cell, createdAt: now, updatedAt: now })),
+        createdAt: now,
+        updatedAt: now,
+      });
+    } catch {
+      errors.push({ path, message: 'no se pudo leer el archivo' });
+    }
+  }
+
+  const pruned = pruneEmpty(root);
+  return { root: pruned && sortTree(pruned), errors };
+}
@@ -0,0 +1,349 @@
+import { gunzipSync, strFromU8 } from 'fflate';
+import { v4 as uuidv4 } from 'uuid';
+import { PDFPage } from '@/types/notebook';
+import { blobToDataUrl } from '@/lib/assets';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/migrations';
+import { countPdfPages } from '@/lib/pdf';
+import { ValidationResult } from '@/lib/validation';
+
+/**
+ * Importación de archivos de Xournal++ (.xopp) y Xournal (.xoj): XML
+ * comprimido con gzip, con páginas de trazos, textos e imágenes. Si ninguna
+ * página tiene un PDF de fondo, cada página pasa a ser una celda de dibujo.
+ * Si lo tiene, el resultado es una celda PDF: los trazos de cada página van
+ * rasterizados en su capa de dibujo y las páginas sin PDF (las insertadas en
+ * Xournal) quedan como páginas agregadas. El PDF no está dentro del archivo,
+ * así que hay que elegirlo junto con él. Solo funciona en el navegador.
+ */
+
+type RawObject = Record<string, unknown>;
+
+// El mismo ancho que usan DrawingCell y PDFCell para sus lienzos
+const CANVAS_WIDTH = 800;
+
+// Colores con nombre de los archivos .xoj anteriores a Xournal++
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000ff',
+  blue: '#3333ccff',
+  red: '#ff0000ff',
+  green: '#008000ff',
+  gray: '#808080ff',
+  lightblue: '#00c0ffff',
+  lightgreen: '#00ff00ff',
+  magenta: '#ff00ffff',
+  orange: '#ff8000ff',
+  yellow: '#ffff00ff',
+  white: '#ffffffff',
+};
+
+const RULE_COLOR = '#40a0ff';
+const MARGIN_COLOR = '#ff0080';
+
+export function isXournalFile(fileName: string): boolean {
+  return /\.(xopp|xoj)$/i.test(fileName);
+}
+
+function parseColor(value: string | null): { color: string; alpha: number } {
+  const hex = NAMED_COLORS[value ?? ''] ?? value ?? '#000000ff';
+  const match = /^#([0-9a-f]{6})([0-9a-f]{2})?$/i.exec(hex);
+  if (!match) return { color: '#000000', alpha: 1 };
+  return { color: `#${match[1]}`, alpha: match[2] ? parseInt(match[2], 16) / 255 : 1 };
+}
+
+function numbers(text: string | null): number[] {
+  return (text ?? '').trim().split(/\s+/).map(Number).filter(n => Number.isFinite(n));
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('No se pudo cargar la imagen'));
+    img.src = src;
+  });
+}
+
+function drawBackground(ctx: CanvasRenderingContext2D, background: Element, width: number, height: number, scale: number) {
+  const { color, alpha } = parseColor(background.getAttribute('color') ?? '#ffffffff');
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = RULE_COLOR;
+  ctx.fillStyle = RULE_COLOR;
+  ctx.lineWidth = Math.max(1, 0.5 * scale);
+
+  // Medidas de Xournal en puntos
+  const style = background.getAttribute('style');
+  if (style === 'lined' || style === 'ruled') {
+    for (let y = 80 * scale; y < height; y += 24 * scale) {
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+    }
+    if (style === 'lined') {
+      ctx.strokeStyle = MARGIN_COLOR;
+      ctx.beginPath();
+      ctx.moveTo(72 * scale, 0);
+      ctx.lineTo(72 * scale, height);
+      ctx.stroke();
+    }
+  } else if (style === 'graph') {
+    const step = 14.17 * scale;
+    for (let x = step; x < width; x += step) {
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+      ctx.stroke();
+    }
+    for (let y = step; y < height; y += step) {
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+    }
+  } else if (style === 'dotted') {
+    const step = 14.17 * scale;
+    for (let x = step; x < width; x += step) {
+      for (let y = step; y < height; y += step) {
+        ctx.beginPath();
+        ctx.arc(x, y, Math.max(1, 0.75 * scale), 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  }
+  ctx.restore();
+}
+
+/**
+ * Un trazo: `width` tiene el ancho base y, si se dibujó con presión, el ancho
+ * de cada segmento a continuación.
+ */
+function drawStroke(ctx: CanvasRenderingContext2D, stroke: Element, scale: number) {
+  const coords = numbers(stroke.textContent);
+  if (coords.length < 2) return;
+  const widths = numbers(stroke.getAttribute('width'));
+  const base = widths[0] ?? 1;
+  const tool = stroke.getAttribute('tool');
+  if (tool === 'eraser') return; // en .xoj la goma es un trazo blanco; sobre un PDF taparía la página
+  const { color, alpha } = parseColor(stroke.getAttribute('color'));
+
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineCap = tool === 'highlighter' ? 'butt' : 'round';
+  ctx.lineJoin = 'round';
+  ctx.globalAlpha = tool === 'highlighter' && alpha === 1 ? 0.5 : alpha;
+
+  const points: [number, number][] = [];
+  for (let i = 0; i + 1 < coords.length; i += 2) points.push([coords[i] * scale, coords[i + 1] * scale]);
+
+  if (widths.length > 1) {
+    for (let i = 0; i + 1 < points.length; i++) {
+      ctx.lineWidth = (widths[i + 1] ?? base) * scale;
+      ctx.beginPath();
+      ctx.moveTo(...points[i]);
+      ctx.lineTo(...points[i + 1]);
+      ctx.stroke();
+    }
+  } else {
+    ctx.lineWidth = base * scale;
+    ctx.beginPath();
+    ctx.moveTo(...points[0]);
+    points.slice(1).forEach(point => ctx.lineTo(...point));
+    if (points.length === 1) ctx.lineTo(points[0][0] + 0.01, points[0][1]);
+    ctx.stroke();
+
+    // Las figuras rellenas tienen la opacidad del relleno en `fill` (0-255)
+    const fill = Number(stroke.getAttribute('fill') ?? -1);
+    if (fill > 0) {
+      ctx.globalAlpha = (fill / 255) * alpha;
+      ctx.fill();
+    }
+  }
+  ctx.restore();
+}
+
+function drawText(ctx: CanvasRenderingContext2D, text: Element, scale: number) {
+  const size = Number(text.getAttribute('size') ?? 12) * scale;
+  const { color, alpha } = parseColor(text.getAttribute('color'));
+  ctx.save();
+  ctx.font = `${size}px "${text.getAttribute('font') ?? 'Sans'}", sans-serif`;
+  ctx.fillStyle = color;
+  ctx.globalAlpha = alpha;
+  ctx.textBaseline = 'top';
+  const x = Number(text.getAttribute('x') ?? 0) * scale;
+  const y = Number(text.getAttribute('y') ?? 0) * scale;
+  (text.textContent ?? '').split('\n').forEach((line, i) => ctx.fillText(line, x, y + i * size * 1.2));
+  ctx.restore();
+}
+
+// Imágenes y fórmulas de LaTeX: un PNG en base64 dentro del rectángulo indicado
+async function drawImage(ctx: CanvasRenderingContext2D, image: Element, scale: number) {
+  const data = (image.textContent ?? '').replace(/\s/g, '');
+  if (!data) return;
+  const [left, top, right, bottom] = ['left', 'top', 'right', 'bottom'].map(attr => Number(image.getAttribute(attr) ?? 0) * scale);
+  try {
+    const img = await loadImage(`data:image/png;base64,${data}`);
+    ctx.drawImage(img, left, top, right - left, bottom - top);
+  } catch {
+    // Una imagen dañada no impide importar el resto de la página
+  }
+}
+
+/**
+ * Rasteriza una página con el ancho de los lienzos de la app. Con
+ * `withBackground` se pinta el fondo de Xournal (color y rayado); si no, el
+ * PNG es transparente para ir encima del PDF. Devuelve null si no hay nada
+ * que dibujar.
+ */
+async function renderPage(page: Element, withBackground: boolean): Promise<{ dataUrl: string; width: number; height: number } | null> {
+  const pageWidth = Number(page.getAttribute('width')) || 595.27;
+  const pageHeight = Number(page.getAttribute('height')) || 841.89;
+  const scale = CANVAS_WIDTH / pageWidth;
+  const width = CANVAS_WIDTH;
+  const height = Math.round(pageHeight * scale);
+
+  const elements = Array.from(page.getElementsByTagName('layer')).flatMap(layer => Array.from(layer.children));
+  if (!withBackground && elements.length === 0) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const background = page.getElementsByTagName('background')[0];
+  if (withBackground && background) drawBackground(ctx, background, width, height, scale);
+
+  for (const element of elements) {
+    switch (element.tagName) {
+      case 'stroke':
+        drawStroke(ctx, element, scale);
+        break;
+      case 'text':
+        drawText(ctx, element, scale);
+        break;
+      case 'image':
+      case 'teximage':
+        await drawImage(ctx, element, scale);
+        break;
+    }
+  }
+  return { dataUrl: canvas.toDataURL('image/png'), width, height };
+}
+
+function parseXml(data: Uint8Array): Document | null {
+  // gzip empieza con 1f 8b; algunos programas guardan el XML sin comprimir
+  let text: string;
+  try {
+    text = strFromU8(data[0] === 0x1f && data[1] === 0x8b ? gunzipSync(data) : data);
+  } catch {
+    return null;
+  }
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return null;
+  return doc.documentElement.tagName === 'xournal' ? doc : null;
+}
+
+function isPdfBackground(page: Element): boolean {
+  return page.getElementsByTagName('background')[0]?.getAttribute('type') === 'pdf';
+}
+
+/**
+ * Convierte un archivo de Xournal al formato de un notebook exportado (sin
+ * validar). `background` es el PDF de fondo, si el archivo usa uno.
+ */
+export async function xournalToNotebook(
+  data: Uint8Array,
+  fileName: string,
+  background?: { data: Uint8Array; fileName: string }
+): Promise<ValidationResult<RawObject>> {
+  const doc = parseXml(data);
+  if (!doc) {
+    return { ok: false, errors: [{ path: '(raiz)', message: 'no es un archivo de Xournal valido' }] };
+  }
+  const pages = Array.from(doc.getElementsByTagName('page'));
+  if (pages.length === 0) {
+    return { ok: false, errors: [{ path: 'page', message: 'el archivo no tiene paginas' }] };
+  }
+
+  const cells: RawObject[] = [];
+  if (pages.some(isPdfBackground)) {
+    const pdfName = pages
+      .map(page => page.getElementsByTagName('background')[0]?.getAttribute('filename'))
+      .find(name => !!name) ?? 'el PDF de fondo';
+    const baseName = pdfName.slice(Math.max(pdfName.lastIndexOf('/'), pdfName.lastIndexOf('\\')) + 1);
+    if (!background) {
+      return {
+        ok: false,
+        errors: [{ path: baseName, message: 'el archivo usa este PDF de fondo; eligelo junto con el archivo de Xournal' }],
+      };
+    }
+
+    let totalPages: number;
+    try {
+      totalPages = await countPdfPages(background.data.slice());
+    } catch {
+      return { ok: false, errors: [{ path: background.fileName, message: 'no es un PDF valido' }] };
+    }
+
+    const pdfPages: PDFPage[] = [];
+    for (const page of pages) {
+      const isPdf = isPdfBackground(page);
+      const pageNumber = isPdf ? Number(page.getElementsByTagName('background')[0].getAttribute('pageno')) : NaN;
+      const rendered = await renderPage(page, !isPdf);
+      if (isPdf && pageNumber >= 1 && pageNumber <= totalPages) {
+        pdfPages.push({
+          id: uuidv4(),
+          pageNumber,
+          drawingDataUrl: rendered?.dataUrl ?? '',
+          notes: '',
+          noteCells: [],
+          isCustomPage: false,
+        });
+      } else {
+        // Páginas insertadas en Xournal (o que apuntan a una página que el PDF no tiene)
+        pdfPages.push({
+          id: uuidv4(),
+          pageNumber: null,
+          drawingDataUrl: '',
+          notes: '',
+          noteCells: [],
+          isCustomPage: true,
+          customDrawingDataUrl: (isPdf ? await renderPage(page, true) : rendered)?.dataUrl ?? '',
+        });
+      }
+    }
+
+    cells.push({
+      type: 'pdf',
+      pdfData: await blobToDataUrl(new Blob([background.data.slice()], { type: 'application/pdf' })),
+      fileName: background.fileName,
+      pages: pdfPages,
+      totalOriginalPages: totalPages,
+    });
+  } else {
+    for (const page of pages) {
+      const rendered = await renderPage(page, true);
+      if (rendered) cells.push({ type: 'drawing', ...rendered });
+    }
+  }
+
+  const now = Date.now();
+  const title = doc.getElementsByTagName('title')[0]?.textContent?.trim();
+  return {
+    ok: true,
+    value: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      // "Xournal document - see ..." es el título que Xournal pone por defecto
+      title: title && !/^Xournal(\+\+)? document/i.test(title) ? title : fileName.replace(/\.(xopp|xoj)$/i, ''),
+      cells: cells.map(cell => ({ ...cell, createdAt: now, updatedAt: now })),
+      createdAt: now,
+      updatedAt: now,
+    },
+    repairs: [],
+  };
+}
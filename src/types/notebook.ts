@@ -1,4 +1,4 @@
-export type CellType = 'markdown' | 'drawing' | 'image' | 'pdf';
+export type CellType = 'markdown' | 'drawing' | 'image' | 'pdf' | 'code';
 export type MiniCellType = 'markdown' | 'drawing' | 'image';
 
 export interface BaseCell {
@@ -26,6 +26,31 @@ export interface ImageCell extends BaseCell {
   alt: string;
 }
 
+export type CodeLanguage = 'javascript' | 'typescript';
+
+export type CodeLogLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+// Salidas de una ejecución, en el orden en que se produjeron
+export type CodeOutput =
+  | { type: 'log'; level: CodeLogLevel; text: string }
+  | { type: 'result'; text: string } // valor de la última expresión
+  | { type: 'error'; name: string; message: string }
+  | { type: 'table'; columns: string[]; rows: string[][] }
+  | { type: 'chart'; kind: 'bar' | 'line'; labels: string[]; series: CodeChartSeries[] };
+
+export interface CodeChartSeries {
+  name: string;
+  values: number[];
+}
+
+export interface CodeCell extends BaseCell {
+  type: 'code';
+  language: CodeLanguage;
+  source: string;
+  outputs: CodeOutput[];
+  executionCount: number | null; // null si nunca se ejecutó
+}
+
 // Mini cells for PDF notes column
 export interface MiniMarkdownCell {
   id: string;
@@ -70,7 +95,7 @@ export interface PDFCell extends BaseCell {
   totalOriginalPages: number;
 }
 
-export type Cell = MarkdownCell | DrawingCell | ImageCell | PDFCell;
+export type Cell = MarkdownCell | DrawingCell | ImageCell | PDFCell | CodeCell;
 
 export interface Notebook {
   id: string;
@@ -79,6 +104,23 @@ export interface Notebook {
   createdAt: number;
   updatedAt: number;
   projectId?: string; // ID del proyecto al que pertenece
+  revision?: number; // se incrementa en cada cambio; sirve para sincronizar pestañas
+  lock?: NotebookLock; // protegido con contraseña propia
+}
+
+// Contraseña de un notebook (todo en base64). Mientras no se desbloquea,
+// `cells` está vacío y el contenido solo existe cifrado en `cells` del lock.
+export interface NotebookLock {
+  salt: string;
+  iterations: number;
+  check: string; // valor de control cifrado, para comprobar la contraseña
+  cells: string | null; // celdas cifradas (null si todavía no se guardaron)
+}
+
+// Notebook tal como se guarda en un archivo exportado
+export interface ExportedNotebook extends Notebook {
+  schemaVersion?: number; // ausente en archivos anteriores al versionado (versión 1)
+  assets?: Record<string, string>; // hash -> data URL de los assets que referencian las celdas (versión 4)
 }
 
 export interface Project {
@@ -89,8 +131,99 @@ export interface Project {
   updatedAt: number;
 }
 
+// Elementos en la papelera, con la ubicación original para poder restaurarlos
+interface BaseTrashItem {
+  id: string;
+  deletedAt: number;
+  location: string[]; // nombres de la ruta de proyectos (getProjectPath) donde estaba
+}
+
+export interface TrashedNotebook extends BaseTrashItem {
+  kind: 'notebook';
+  notebook: Notebook;
+}
+
+export interface TrashedProject extends BaseTrashItem {
+  kind: 'project';
+  projects: Project[]; // el proyecto y todos sus subproyectos
+  notebookProjects: Record<string, string>; // notebooks movidos a la raíz -> proyecto original
+}
+
+// Celda borrada de un notebook con contraseña. Se guarda cifrada con la clave
+// del notebook: mientras no se desbloquea, `cell` es null y el contenido solo
+// existe en `cell` del lock.
+export interface TrashedCellLock {
+  salt: string; // el de la contraseña del notebook, para saber con qué clave se abre
+  cell: string | null; // celda cifrada (null si todavía no se guardó)
+}
+
+export interface TrashedCell extends BaseTrashItem {
+  kind: 'cell';
+  cell: Cell | null;
+  notebookId: string;
+  notebookTitle: string;
+  index: number; // posición que ocupaba en el notebook
+  lock?: TrashedCellLock;
+}
+
+export type TrashItem = TrashedNotebook | TrashedProject | TrashedCell;
+
+// Versión guardada de un notebook (automática o con nombre)
+export interface SnapshotInfo {
+  id: string;
+  notebookId: string;
+  name: string; // vacío en las automáticas
+  auto: boolean;
+  createdAt: number;
+}
+
+export interface NotebookSnapshot extends SnapshotInfo {
+  notebook: Notebook;
+}
+
 export interface ProjectStore {
   projects: Project[];
   notebooks: Notebook[];
   activeNotebookId: string | null;
+  trash: TrashItem[];
+  trashRetentionDays: number; // días antes de borrar definitivamente lo que está en la papelera
+}
+
+// Enlaces rápidos del pie de página
+export interface QuickLink {
+  id: string;
+  name: string;
+  url: string;
+  icon?: string;
+}
+
+export type Theme = 'light' | 'dark' | 'system';
+
+// Preferencias que viven en localStorage y viajan en la copia de seguridad
+export interface BackupSettings {
+  quickLinks?: QuickLink[];
+  theme?: Theme;
+}
+
+// Copia de seguridad completa: todos los proyectos y notebooks (sin la papelera)
+export interface BackupArchive {
+  format: 'notebooks-gd-backup';
+  schemaVersion: number;
+  exportedAt: number;
+  projects: Project[];
+  notebooks: Notebook[];
+  activeNotebookId: string | null;
+  assets: Record<string, string>; // hash -> data URL, compartidos por todos los notebooks
+  settings: BackupSettings;
+}
+
+// Un proyecto con sus subproyectos y notebooks, para llevarlo a otro navegador
+export interface ProjectArchive {
+  format: 'notebooks-gd-project';
+  schemaVersion: number;
+  exportedAt: number;
+  rootProjectId: string;
+  projects: Project[]; // el proyecto (con parentId null) y todos sus subproyectos
+  notebooks: Notebook[];
+  assets: Record<string, string>;
 }